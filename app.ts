@@ -2,7 +2,12 @@ import express, { Express } from 'express';
 import cors from 'cors';
 
 import {
+  asyncHandler,
   authenticate,
+  authenticateFeed,
+  authenticateOptional,
+  authorize,
+  rateLimitByUser,
   validate,
   errorHandler,
   requestLogger,
@@ -11,17 +16,110 @@ import {
 
 import {
   loginSchema,
+  refreshTokenSchema,
   createReservationSchema,
+  updateReservationSchema,
   reservationIdSchema,
+  cancelReservationQuerySchema,
+  placeHoldSchema,
+  confirmHoldSchema,
+  holdIdSchema,
+  joinWaitlistSchema,
+  waitlistQuerySchema,
+  waitlistEntryIdSchema,
+  auditLogQuerySchema,
+  noShowReportQuerySchema,
+  rsvpSchema,
+  myReservationsQuerySchema,
+  roomReservationsQuerySchema,
   roomIdSchema,
+  availabilityQuerySchema,
+  availableRoomsQuerySchema,
 } from './validators/reservationValidator';
 
-import { loginController } from './controllers/login';
+import {
+  createRoomSchema,
+  updateRoomSchema,
+  roomFiltersQuerySchema,
+} from './validators/roomValidator';
+
+import {
+  createUserSchema,
+  updateProfileSchema,
+  changePasswordSchema,
+  userIdSchema,
+  updateUserSchema,
+} from './validators/userValidator';
+
+import {
+  createWebhookSchema,
+  updateWebhookSchema,
+  webhookIdSchema,
+  webhookDeliveriesQuerySchema,
+} from './validators/webhookValidator';
+
+import {
+  loginController,
+  refreshTokenController,
+  logoutController,
+  logoutAllController,
+} from './controllers/login';
 import {
   createReservationController,
+  updateReservationController,
   deleteReservationController,
+  restoreReservationController,
+  checkInReservationController,
+  rsvpController,
+  getMyReservationsController,
 } from './controllers/reservations';
-import { getRoomReservationsController } from './controllers/rooms';
+import {
+  getRoomReservationsController,
+  getRoomAvailabilityController,
+  getAvailableRoomsController,
+  listRoomsController,
+  getRoomController,
+  createRoomController,
+  updateRoomController,
+  deleteRoomController,
+} from './controllers/rooms';
+import {
+  createFeedTokenController,
+  getMyCalendarController,
+  getRoomCalendarController,
+} from './controllers/calendar';
+import {
+  getReservationHistoryController,
+  getAuditLogController,
+} from './controllers/audit';
+import { getNoShowReportController } from './controllers/reports';
+import {
+  createWebhookController,
+  listWebhooksController,
+  updateWebhookController,
+  deleteWebhookController,
+  getWebhookDeliveriesController,
+} from './controllers/webhooks';
+import {
+  placeHoldController,
+  confirmHoldController,
+  releaseHoldController,
+} from './controllers/holds';
+import {
+  joinWaitlistController,
+  getMyWaitlistController,
+  cancelWaitlistEntryController,
+  claimWaitlistOfferController,
+} from './controllers/waitlist';
+import {
+  createUserController,
+  listUsersController,
+  updateUserController,
+  getMeController,
+  updateMeController,
+  changePasswordController,
+  revokeUserSessionsController,
+} from './controllers/users';
 
 export function createApp(): Express {
   const app = express();
@@ -37,27 +135,353 @@ export function createApp(): Express {
     });
   });
 
-  app.post('/api/login', validate(loginSchema), loginController);
+  app.post('/api/login', validate(loginSchema), asyncHandler(loginController));
+
+  app.post(
+    '/api/token/refresh',
+    validate(refreshTokenSchema),
+    refreshTokenController
+  );
+
+  app.post('/api/logout', authenticate, rateLimitByUser, logoutController);
+
+  app.post(
+    '/api/logout/all',
+    authenticate,
+    rateLimitByUser,
+    logoutAllController
+  );
+
+  app.post(
+    '/api/users',
+    authenticateOptional,
+    validate(createUserSchema),
+    asyncHandler(createUserController)
+  );
+
+  app.get(
+    '/api/users',
+    authenticate,
+    rateLimitByUser,
+    authorize('admin'),
+    listUsersController
+  );
+
+  app.patch(
+    '/api/users/:userId',
+    authenticate,
+    rateLimitByUser,
+    authorize('admin'),
+    validate(userIdSchema, 'params'),
+    validate(updateUserSchema),
+    updateUserController
+  );
+
+  app.delete(
+    '/api/users/:userId/sessions',
+    authenticate,
+    rateLimitByUser,
+    authorize('admin'),
+    validate(userIdSchema, 'params'),
+    revokeUserSessionsController
+  );
+
+  app.get('/api/me', authenticate, rateLimitByUser, getMeController);
+
+  app.patch(
+    '/api/me',
+    authenticate,
+    rateLimitByUser,
+    validate(updateProfileSchema),
+    updateMeController
+  );
+
+  app.post(
+    '/api/me/password',
+    authenticate,
+    rateLimitByUser,
+    validate(changePasswordSchema),
+    asyncHandler(changePasswordController)
+  );
 
   app.post(
     '/api/reservations',
     authenticate,
+    rateLimitByUser,
     validate(createReservationSchema),
     createReservationController
   );
 
+  app.patch(
+    '/api/reservations/:id',
+    authenticate,
+    rateLimitByUser,
+    validate(reservationIdSchema, 'params'),
+    validate(updateReservationSchema),
+    updateReservationController
+  );
+
   app.delete(
     '/api/reservations/:id',
     authenticate,
+    rateLimitByUser,
     validate(reservationIdSchema, 'params'),
+    validate(cancelReservationQuerySchema, 'query'),
     deleteReservationController
   );
 
+  app.post(
+    '/api/reservations/:id/restore',
+    authenticate,
+    rateLimitByUser,
+    validate(reservationIdSchema, 'params'),
+    restoreReservationController
+  );
+
+  app.post(
+    '/api/reservations/:id/check-in',
+    authenticate,
+    rateLimitByUser,
+    validate(reservationIdSchema, 'params'),
+    checkInReservationController
+  );
+
+  app.post(
+    '/api/reservations/:id/rsvp',
+    authenticate,
+    rateLimitByUser,
+    validate(reservationIdSchema, 'params'),
+    validate(rsvpSchema, 'body'),
+    rsvpController
+  );
+
+  app.get(
+    '/api/reservations/:id/history',
+    authenticate,
+    rateLimitByUser,
+    validate(reservationIdSchema, 'params'),
+    getReservationHistoryController
+  );
+
+  app.post(
+    '/api/holds',
+    authenticate,
+    rateLimitByUser,
+    validate(placeHoldSchema),
+    placeHoldController
+  );
+
+  app.post(
+    '/api/holds/:holdId/confirm',
+    authenticate,
+    rateLimitByUser,
+    validate(holdIdSchema, 'params'),
+    validate(confirmHoldSchema),
+    confirmHoldController
+  );
+
+  app.delete(
+    '/api/holds/:holdId',
+    authenticate,
+    rateLimitByUser,
+    validate(holdIdSchema, 'params'),
+    releaseHoldController
+  );
+
+  app.post(
+    '/api/waitlist',
+    authenticate,
+    rateLimitByUser,
+    validate(joinWaitlistSchema),
+    joinWaitlistController
+  );
+
+  app.delete(
+    '/api/waitlist/:entryId',
+    authenticate,
+    rateLimitByUser,
+    validate(waitlistEntryIdSchema, 'params'),
+    cancelWaitlistEntryController
+  );
+
+  app.post(
+    '/api/waitlist/:entryId/claim',
+    authenticate,
+    rateLimitByUser,
+    validate(waitlistEntryIdSchema, 'params'),
+    claimWaitlistOfferController
+  );
+
+  app.get(
+    '/api/audit-log',
+    authenticate,
+    rateLimitByUser,
+    authorize('admin'),
+    validate(auditLogQuerySchema, 'query'),
+    getAuditLogController
+  );
+
+  app.get(
+    '/api/reports/no-shows',
+    authenticate,
+    rateLimitByUser,
+    authorize('admin'),
+    validate(noShowReportQuerySchema, 'query'),
+    getNoShowReportController
+  );
+
+  app.post(
+    '/api/webhooks',
+    authenticate,
+    rateLimitByUser,
+    authorize('admin'),
+    validate(createWebhookSchema),
+    createWebhookController
+  );
+
+  app.get(
+    '/api/webhooks',
+    authenticate,
+    rateLimitByUser,
+    authorize('admin'),
+    listWebhooksController
+  );
+
+  app.patch(
+    '/api/webhooks/:webhookId',
+    authenticate,
+    rateLimitByUser,
+    authorize('admin'),
+    validate(webhookIdSchema, 'params'),
+    validate(updateWebhookSchema),
+    updateWebhookController
+  );
+
+  app.delete(
+    '/api/webhooks/:webhookId',
+    authenticate,
+    rateLimitByUser,
+    authorize('admin'),
+    validate(webhookIdSchema, 'params'),
+    deleteWebhookController
+  );
+
+  app.get(
+    '/api/webhooks/:webhookId/deliveries',
+    authenticate,
+    rateLimitByUser,
+    authorize('admin'),
+    validate(webhookIdSchema, 'params'),
+    validate(webhookDeliveriesQuerySchema, 'query'),
+    getWebhookDeliveriesController
+  );
+
+  app.get(
+    '/api/rooms',
+    authenticate,
+    rateLimitByUser,
+    validate(roomFiltersQuerySchema, 'query'),
+    listRoomsController
+  );
+
+  app.post(
+    '/api/rooms',
+    authenticate,
+    rateLimitByUser,
+    authorize('room-admin', 'admin'),
+    validate(createRoomSchema),
+    createRoomController
+  );
+
+  app.get(
+    '/api/rooms/available',
+    authenticate,
+    rateLimitByUser,
+    validate(availableRoomsQuerySchema, 'query'),
+    getAvailableRoomsController
+  );
+
+  app.get(
+    '/api/rooms/:roomId',
+    authenticate,
+    rateLimitByUser,
+    validate(roomIdSchema, 'params'),
+    getRoomController
+  );
+
+  app.patch(
+    '/api/rooms/:roomId',
+    authenticate,
+    rateLimitByUser,
+    authorize('room-admin', 'admin'),
+    validate(roomIdSchema, 'params'),
+    validate(updateRoomSchema),
+    updateRoomController
+  );
+
+  app.delete(
+    '/api/rooms/:roomId',
+    authenticate,
+    rateLimitByUser,
+    authorize('room-admin', 'admin'),
+    validate(roomIdSchema, 'params'),
+    deleteRoomController
+  );
+
   app.get(
     '/api/rooms/:roomId/reservations',
     authenticate,
+    rateLimitByUser,
+    validate(roomIdSchema, 'params'),
+    validate(roomReservationsQuerySchema, 'query'),
+    asyncHandler(getRoomReservationsController)
+  );
+
+  app.get(
+    '/api/rooms/:roomId/availability',
+    authenticate,
+    rateLimitByUser,
+    validate(roomIdSchema, 'params'),
+    validate(availabilityQuerySchema, 'query'),
+    getRoomAvailabilityController
+  );
+
+  app.get(
+    '/api/rooms/:roomId/calendar.ics',
+    authenticateFeed,
+    rateLimitByUser,
     validate(roomIdSchema, 'params'),
-    getRoomReservationsController
+    getRoomCalendarController
+  );
+
+  app.get(
+    '/api/me/reservations',
+    authenticate,
+    rateLimitByUser,
+    validate(myReservationsQuerySchema, 'query'),
+    getMyReservationsController
+  );
+
+  app.get(
+    '/api/me/waitlist',
+    authenticate,
+    rateLimitByUser,
+    validate(waitlistQuerySchema, 'query'),
+    getMyWaitlistController
+  );
+
+  app.post(
+    '/api/me/feed-token',
+    authenticate,
+    rateLimitByUser,
+    createFeedTokenController
+  );
+
+  app.get(
+    '/api/me/calendar.ics',
+    authenticateFeed,
+    rateLimitByUser,
+    getMyCalendarController
   );
 
   app.use(notFoundHandler);
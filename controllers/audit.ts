@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from 'express';
+import { getReservationHistory, queryAuditLog } from '../services/auditService';
+import { UnauthorizedError } from '../errors/ApiError';
+import { AuditLogQueryInput } from '../validators/reservationValidator';
+
+export function getReservationHistoryController(
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const events = getReservationHistory(req.params.id, req.user);
+
+    res.status(200).json({
+      message: `Retrieved ${events.length} event(s) for reservation '${req.params.id}'`,
+      data: events,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function getAuditLogController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { limit, offset, ...filters } =
+      req.query as unknown as AuditLogQueryInput;
+
+    const { items, pagination } = queryAuditLog(filters, {
+      limit,
+      offset,
+    });
+
+    res.status(200).json({
+      message: `Retrieved ${items.length} of ${pagination.total} audit event(s)`,
+      data: items,
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRoomCalendar, getUserCalendar } from '../services/calendarService';
+import { issueFeedToken } from '../services/authService';
+import { UnauthorizedError } from '../errors/ApiError';
+
+function sendCalendar(res: Response, filename: string, calendar: string): void {
+  res
+    .status(200)
+    .type('text/calendar; charset=utf-8')
+    .set('Content-Disposition', `inline; filename="${filename}"`)
+    .send(calendar);
+}
+
+export function createFeedTokenController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const feedToken = issueFeedToken(req.user.userId);
+    const query = `?token=${encodeURIComponent(feedToken)}`;
+
+    res.status(201).json({
+      message:
+        'Calendar feed token created. Any previous feed token no longer works.',
+      data: {
+        feedToken,
+        myCalendarUrl: `/api/me/calendar.ics${query}`,
+        roomCalendarUrl: `/api/rooms/{roomId}/calendar.ics${query}`,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function getMyCalendarController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const calendar = getUserCalendar(req.user.userId);
+
+    sendCalendar(res, 'my-reservations.ics', calendar);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function getRoomCalendarController(
+  req: Request<{ roomId: string }>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { roomId } = req.params;
+
+    const calendar = getRoomCalendar(roomId);
+
+    sendCalendar(res, `${roomId}.ics`, calendar);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from 'express';
+import { confirmHold, placeHold, releaseHold } from '../services/holdService';
+import { expressInTimeZone } from '../services/reservationService';
+import { UnauthorizedError } from '../errors/ApiError';
+import {
+  ConfirmHoldInput,
+  PlaceHoldInput,
+} from '../validators/reservationValidator';
+
+export function placeHoldController(
+  req: Request<object, object, PlaceHoldInput>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const hold = placeHold(req.body, req.user.userId);
+
+    res.status(201).json({
+      message: `Slot held until ${hold.expiresAt}. Confirm it before then to book it.`,
+      data: hold,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function confirmHoldController(
+  req: Request<{ holdId: string }, object, ConfirmHoldInput>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const result = confirmHold(req.params.holdId, req.body, req.user);
+
+    res.status(result.wasUpdated ? 200 : 201).json({
+      message: result.wasUpdated
+        ? 'Your existing reservation has been updated to the held slot'
+        : 'Reservation created successfully',
+      data: expressInTimeZone(result.reservation),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function releaseHoldController(
+  req: Request<{ holdId: string }>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    releaseHold(req.params.holdId, req.user);
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+}
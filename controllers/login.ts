@@ -1,6 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
-import { login } from '../services/authService';
-import { LoginInput } from '../validators/reservationValidator';
+import {
+  login,
+  refreshSession,
+  revokeAllSessions,
+  revokeSession,
+} from '../services/authService';
+import { UnauthorizedError } from '../errors/ApiError';
+import {
+  LoginInput,
+  RefreshTokenInput,
+} from '../validators/reservationValidator';
 
 export async function loginController(
   req: Request<object, object, LoginInput>,
@@ -10,7 +19,7 @@ export async function loginController(
   try {
     const { username, password } = req.body;
 
-    const result = await login(username, password);
+    const result = await login(username, password, req.ip ?? 'unknown');
 
     res.status(200).json({
       message: 'Login successful',
@@ -20,3 +29,61 @@ export async function loginController(
     next(error);
   }
 }
+
+export function refreshTokenController(
+  req: Request<object, object, RefreshTokenInput>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    const result = refreshSession(req.body.refreshToken);
+
+    res.status(200).json({
+      message: 'Token refreshed',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function logoutController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user?.sessionId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    revokeSession(req.user.sessionId);
+
+    res.status(200).json({
+      message: 'Logged out successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function logoutAllController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const revoked = revokeAllSessions(req.user.userId);
+
+    res.status(200).json({
+      message: `Logged out of ${revoked} session(s)`,
+      data: { revokedSessions: revoked },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
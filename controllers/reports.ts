@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { getNoShowReport } from '../services/reportService';
+import { UnauthorizedError } from '../errors/ApiError';
+import { NoShowReportQueryInput } from '../validators/reservationValidator';
+
+export function getNoShowReportController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const range = req.query as unknown as NoShowReportQueryInput;
+
+    const report = getNoShowReport(range);
+
+    res.status(200).json({
+      message: `Found no-shows for ${report.length} user(s)`,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
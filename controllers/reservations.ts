@@ -1,62 +1,273 @@
 import { Request, Response, NextFunction } from 'express';
 import {
   createNewReservation,
+  createRecurringReservation,
   cancelReservation,
+  checkInReservation,
+  expressInTimeZone,
+  respondToInvitation,
+  getUserReservations,
+  restoreReservation,
+  updateReservation,
+  updateReservationSeries,
 } from '../services/reservationService';
-import { CreateReservationInput } from '../validators/reservationValidator';
+import { fillFreedSlots } from '../services/waitlistService';
+import {
+  CancelReservationQueryInput,
+  CreateReservationInput,
+  MyReservationsQueryInput,
+  RsvpInput,
+  UpdateReservationInput,
+} from '../validators/reservationValidator';
 import { UnauthorizedError } from '../errors/ApiError';
 
-export async function createReservationController(
+export function createReservationController(
   req: Request<object, object, CreateReservationInput>,
   res: Response,
   next: NextFunction
-): Promise<void> {
+): void {
   try {
     if (!req.user) {
       throw new UnauthorizedError('Authentication required');
     }
 
-    const { roomId, startDate, startTime, endTime } = req.body;
+    const {
+      roomId,
+      startDate,
+      startTime,
+      endTime,
+      timeZone,
+      recurrence,
+      onOwnConflict,
+      title,
+      description,
+      attendees,
+    } = req.body;
     const userId = req.user.userId;
+    const details = { title, description, attendees };
+
+    if (recurrence) {
+      const series = createRecurringReservation(
+        { roomId, startDate, startTime, endTime, timeZone, ...details },
+        recurrence,
+        userId
+      );
+      const total = series.reservations.length + series.conflicts.length;
+
+      res.status(201).json({
+        message:
+          series.conflicts.length > 0
+            ? `Created ${series.reservations.length} of ${total} occurrence(s). ${series.conflicts.length} occurrence(s) could not be booked.`
+            : `Recurring reservation created with ${total} occurrence(s)`,
+        data: {
+          ...series,
+          reservations: series.reservations.map((res) =>
+            expressInTimeZone(res, timeZone)
+          ),
+        },
+      });
+      return;
+    }
 
-    const result = await createNewReservation(
-      { roomId, startDate, startTime, endTime },
+    const result = createNewReservation(
+      {
+        roomId,
+        startDate,
+        startTime,
+        endTime,
+        timeZone,
+        onOwnConflict,
+        ...details,
+      },
       userId
     );
+    const reservation = expressInTimeZone(result.reservation, timeZone);
+
+    // Replacing moves the existing booking, freeing the time it used to cover
+    if (result.previous) {
+      fillFreedSlots([result.previous]);
+    }
 
     if (result.wasUpdated) {
       res.status(200).json({
-        message: 'Your existing reservation has been updated to the new time slot',
-        data: result.reservation,
+        message:
+          onOwnConflict === 'merge'
+            ? 'Your existing reservation has been extended to cover the new time slot'
+            : 'Your existing reservation has been updated to the new time slot',
+        data: reservation,
       });
     } else {
       res.status(201).json({
         message: 'Reservation created successfully',
-        data: result.reservation,
+        data: reservation,
+      });
+    }
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function updateReservationController(
+  req: Request<{ id: string }, object, UpdateReservationInput>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { id } = req.params;
+    const { scope, ...changes } = req.body;
+
+    if (scope !== 'occurrence') {
+      const { reservations, previous } = updateReservationSeries(
+        id,
+        changes,
+        req.user,
+        scope
+      );
+      fillFreedSlots(previous);
+
+      res.status(200).json({
+        message: `Updated ${reservations.length} occurrence(s) of the series`,
+        data: reservations.map((res) =>
+          expressInTimeZone(res, changes.timeZone)
+        ),
       });
+      return;
     }
+
+    const { reservation, previous } = updateReservation(id, changes, req.user);
+    fillFreedSlots([previous]);
+
+    res.status(200).json({
+      message: 'Reservation updated successfully',
+      data: expressInTimeZone(reservation, changes.timeZone),
+    });
   } catch (error) {
     next(error);
   }
 }
 
-export async function deleteReservationController(
+export function deleteReservationController(
   req: Request<{ id: string }>,
   res: Response,
   next: NextFunction
-): Promise<void> {
+): void {
   try {
     if (!req.user) {
       throw new UnauthorizedError('Authentication required');
     }
 
     const { id } = req.params;
-    const userId = req.user.userId;
+    const { scope, reason } =
+      req.query as unknown as CancelReservationQueryInput;
 
-    await cancelReservation(id, userId);
+    const cancelled = cancelReservation(id, req.user, scope, reason);
+    fillFreedSlots(cancelled);
 
     res.status(204).send();
   } catch (error) {
     next(error);
   }
 }
+
+export function restoreReservationController(
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const reservation = restoreReservation(req.params.id, req.user);
+
+    res.status(200).json({
+      message: 'Reservation restored successfully',
+      data: reservation,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function checkInReservationController(
+  req: Request<{ id: string }>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const reservation = checkInReservation(req.params.id, req.user);
+
+    res.status(200).json({
+      message: 'Checked in successfully',
+      data: reservation,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function rsvpController(
+  req: Request<{ id: string }, object, RsvpInput>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { response } = req.body;
+
+    const reservation = respondToInvitation(
+      req.params.id,
+      req.user.userId,
+      response
+    );
+
+    res.status(200).json({
+      message:
+        response === 'accepted' ? 'Invitation accepted' : 'Invitation declined',
+      data: reservation,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function getMyReservationsController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { limit, offset, timeZone, ...filters } =
+      req.query as unknown as MyReservationsQueryInput;
+
+    const { items, pagination } = getUserReservations(
+      req.user.userId,
+      filters,
+      { limit, offset }
+    );
+
+    res.status(200).json({
+      message: `Retrieved ${items.length} of ${pagination.total} reservation(s)`,
+      data: items.map((res) => expressInTimeZone(res, timeZone)),
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
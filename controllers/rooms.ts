@@ -1,6 +1,28 @@
 import { Request, Response, NextFunction } from 'express';
-import { getRoomReservations } from '../services/reservationService';
+import {
+  expressInTimeZone,
+  findAvailableRooms,
+  getRoomAvailability,
+  getRoomReservations,
+} from '../services/reservationService';
+import {
+  createRoom,
+  deleteRoom,
+  getRoom,
+  listRooms,
+  updateRoom,
+} from '../services/roomService';
 import { UnauthorizedError } from '../errors/ApiError';
+import {
+  AvailabilityQueryInput,
+  AvailableRoomsQueryInput,
+  RoomReservationsQueryInput,
+} from '../validators/reservationValidator';
+import {
+  CreateRoomInput,
+  RoomFiltersQueryInput,
+  UpdateRoomInput,
+} from '../validators/roomValidator';
 
 export async function getRoomReservationsController(
   req: Request<{ roomId: string }>,
@@ -13,12 +35,198 @@ export async function getRoomReservationsController(
     }
 
     const { roomId } = req.params;
+    const { limit, offset, timeZone, ...filters } =
+      req.query as unknown as RoomReservationsQueryInput;
 
-    const reservations = await getRoomReservations(roomId);
+    const { items, pagination } = await getRoomReservations(roomId, filters, {
+      limit,
+      offset,
+    });
+
+    res.status(200).json({
+      message: `Retrieved ${items.length} of ${pagination.total} reservation(s) for room '${roomId}'`,
+      data: items.map((res) => expressInTimeZone(res, timeZone)),
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function getRoomAvailabilityController(
+  req: Request<{ roomId: string }>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { roomId } = req.params;
+    const { date, from, to, duration } =
+      req.query as unknown as AvailabilityQueryInput;
+    const startDate = date ?? (from as string);
+    const endDate = date ?? (to as string);
+
+    const availability = getRoomAvailability(
+      roomId,
+      startDate,
+      endDate,
+      duration
+    );
+
+    res.status(200).json({
+      message: `Retrieved availability for room '${roomId}' from ${startDate} to ${endDate}`,
+      data: availability,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function getAvailableRoomsController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { startDate, startTime, endTime, timeZone, ...attributes } =
+      req.query as unknown as AvailableRoomsQueryInput;
+
+    const rooms = findAvailableRooms(
+      startDate,
+      startTime,
+      endTime,
+      attributes,
+      timeZone,
+      req.user.userId
+    );
+
+    res.status(200).json({
+      message: `Found ${rooms.length} room(s) available on ${startDate} from ${startTime} to ${endTime}`,
+      data: rooms,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function listRoomsController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const filters = req.query as unknown as RoomFiltersQueryInput;
+
+    const rooms = listRooms(filters);
+
+    res.status(200).json({
+      message: `Retrieved ${rooms.length} room(s)`,
+      data: rooms,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function getRoomController(
+  req: Request<{ roomId: string }>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const room = getRoom(req.params.roomId);
+
+    res.status(200).json({
+      message: 'Room retrieved successfully',
+      data: room,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function createRoomController(
+  req: Request<object, object, CreateRoomInput>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const room = createRoom(req.body);
+
+    res.status(201).json({
+      message: 'Room created successfully',
+      data: room,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function updateRoomController(
+  req: Request<{ roomId: string }, object, UpdateRoomInput>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { room, cancelledReservations } = updateRoom(
+      req.params.roomId,
+      req.body,
+      req.user
+    );
+
+    res.status(200).json({
+      message:
+        cancelledReservations.length > 0
+          ? `Room updated successfully. ${cancelledReservations.length} future reservation(s) were cancelled.`
+          : 'Room updated successfully',
+      data: { room, cancelledReservations },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function deleteRoomController(
+  req: Request<{ roomId: string }>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { room, cancelledReservations } = deleteRoom(
+      req.params.roomId,
+      req.user
+    );
 
     res.status(200).json({
-      message: `Retrieved ${reservations.length} reservation(s) for room '${roomId}'`,
-      data: reservations,
+      message: `Room deleted successfully. ${cancelledReservations.length} future reservation(s) were cancelled.`,
+      data: { room, cancelledReservations },
     });
   } catch (error) {
     next(error);
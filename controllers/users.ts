@@ -0,0 +1,169 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  changePassword,
+  getProfile,
+  listUsers,
+  registerUser,
+  revokeUserSessions,
+  updateProfile,
+  updateUser,
+} from '../services/userService';
+import { UnauthorizedError } from '../errors/ApiError';
+import {
+  ChangePasswordInput,
+  CreateUserInput,
+  UpdateProfileInput,
+  UpdateUserInput,
+} from '../validators/userValidator';
+
+export async function createUserController(
+  req: Request<object, object, CreateUserInput>,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const user = await registerUser(req.body, req.user);
+
+    res.status(201).json({
+      message: 'User created successfully',
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function listUsersController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const users = listUsers();
+
+    res.status(200).json({
+      message: `Retrieved ${users.length} user(s)`,
+      data: users,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function updateUserController(
+  req: Request<{ userId: string }, object, UpdateUserInput>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const user = updateUser(req.user, req.params.userId, req.body);
+
+    res.status(200).json({
+      message: user.active
+        ? 'User updated successfully'
+        : 'User deactivated. They can no longer log in.',
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function getMeController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const user = getProfile(req.user.userId);
+
+    res.status(200).json({
+      message: 'Profile retrieved successfully',
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function updateMeController(
+  req: Request<object, object, UpdateProfileInput>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const user = updateProfile(req.user.userId, req.body);
+
+    res.status(200).json({
+      message: 'Profile updated successfully',
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function changePasswordController(
+  req: Request<object, object, ChangePasswordInput>,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { currentPassword, newPassword } = req.body;
+
+    await changePassword(
+      req.user.userId,
+      currentPassword,
+      newPassword,
+      req.user.sessionId
+    );
+
+    res.status(200).json({
+      message:
+        'Password changed successfully. Your other sessions have been logged out.',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function revokeUserSessionsController(
+  req: Request<{ userId: string }>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const revoked = revokeUserSessions(req.params.userId);
+
+    res.status(200).json({
+      message: `Logged out ${revoked} session(s) for user '${req.params.userId}'`,
+      data: { revokedSessions: revoked },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
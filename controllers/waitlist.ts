@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  cancelWaitlistEntry,
+  claimWaitlistOffer,
+  getUserWaitlist,
+  joinWaitlist,
+} from '../services/waitlistService';
+import { expressInTimeZone } from '../services/reservationService';
+import { UnauthorizedError } from '../errors/ApiError';
+import {
+  JoinWaitlistInput,
+  WaitlistQueryInput,
+} from '../validators/reservationValidator';
+
+export function joinWaitlistController(
+  req: Request<object, object, JoinWaitlistInput>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const entry = joinWaitlist(req.body, req.user.userId);
+
+    res.status(201).json({
+      message:
+        'Added to the waitlist. You will be notified if the slot becomes free.',
+      data: entry,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function getMyWaitlistController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { status } = req.query as unknown as WaitlistQueryInput;
+    const entries = getUserWaitlist(req.user.userId, status);
+
+    res.status(200).json({
+      message: `Retrieved ${entries.length} waitlist entry(ies)`,
+      data: entries,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function cancelWaitlistEntryController(
+  req: Request<{ entryId: string }>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    cancelWaitlistEntry(req.params.entryId, req.user);
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function claimWaitlistOfferController(
+  req: Request<{ entryId: string }>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const reservation = claimWaitlistOffer(req.params.entryId, req.user);
+
+    res.status(201).json({
+      message: 'Reservation created successfully',
+      data: expressInTimeZone(reservation),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
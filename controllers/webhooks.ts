@@ -0,0 +1,127 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  listWebhooks,
+  updateWebhook,
+} from '../services/webhookService';
+import { UnauthorizedError } from '../errors/ApiError';
+import {
+  CreateWebhookInput,
+  UpdateWebhookInput,
+  WebhookDeliveriesQueryInput,
+} from '../validators/webhookValidator';
+
+export function createWebhookController(
+  req: Request<object, object, CreateWebhookInput>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const webhook = createWebhook(req.body, req.user);
+
+    res.status(201).json({
+      message:
+        'Webhook registered. Store the secret now; it will not be shown again.',
+      data: webhook,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function listWebhooksController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const webhooks = listWebhooks();
+
+    res.status(200).json({
+      message: `Retrieved ${webhooks.length} webhook(s)`,
+      data: webhooks,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function updateWebhookController(
+  req: Request<{ webhookId: string }, object, UpdateWebhookInput>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const webhook = updateWebhook(req.params.webhookId, req.body);
+
+    res.status(200).json({
+      message: 'Webhook updated successfully',
+      data: webhook,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function deleteWebhookController(
+  req: Request<{ webhookId: string }>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    deleteWebhook(req.params.webhookId);
+
+    res.status(200).json({
+      message: 'Webhook deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function getWebhookDeliveriesController(
+  req: Request<{ webhookId: string }>,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { webhookId } = req.params;
+    const { limit, offset } =
+      req.query as unknown as WebhookDeliveriesQueryInput;
+
+    const { items, pagination } = getWebhookDeliveries(webhookId, {
+      limit,
+      offset,
+    });
+
+    res.status(200).json({
+      message: `Retrieved ${items.length} of ${pagination.total} delivery(ies) for webhook '${webhookId}'`,
+      data: items,
+      pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
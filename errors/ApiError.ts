@@ -1,3 +1,5 @@
+import { ConflictDetails } from '../types';
+
 export class ApiError extends Error {
   public readonly statusCode: number;
 
@@ -36,18 +38,6 @@ export class NotFoundError extends ApiError {
   }
 }
 
-export interface ConflictDetails {
-  existingReservation?: {
-    reservationId: string;
-    userId: string;
-    userName: string;
-    startDate: string;
-    endDate: string;
-    startTime: string;
-    endTime: string;
-  };
-}
-
 export class ConflictError extends ApiError {
   public readonly details?: ConflictDetails;
 
@@ -57,6 +47,15 @@ export class ConflictError extends ApiError {
   }
 }
 
+export class TooManyRequestsError extends ApiError {
+  public readonly retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterMs: number) {
+    super(message, 429);
+    this.retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  }
+}
+
 export function isApiError(error: unknown): error is ApiError {
   return error instanceof ApiError;
 }
@@ -1,6 +1,11 @@
 import { createApp } from './app';
 import config from './utils/config';
 import logger from './utils/logger';
+import { startNoShowScheduler } from './services/noShowScheduler';
+import { scheduleUpcomingReminders } from './services/notificationService';
+import { startWaitlistScheduler } from './services/waitlistScheduler';
+import { resumePendingWebhookDeliveries } from './services/webhookService';
+import { startHoldScheduler } from './services/holdScheduler';
 
 const app = createApp();
 
@@ -10,11 +15,57 @@ app.listen(config.PORT, () => {
     environment: config.NODE_ENV,
   });
 
+  startNoShowScheduler();
+  startWaitlistScheduler();
+  startHoldScheduler();
+  scheduleUpcomingReminders();
+  resumePendingWebhookDeliveries();
+
   logger.info('Available endpoints:', {
     login: 'POST /api/login',
+    refreshToken: 'POST /api/token/refresh',
+    logout: 'POST /api/logout',
+    logoutAll: 'POST /api/logout/all',
+    createUser: 'POST /api/users',
+    listUsers: 'GET /api/users',
+    updateUser: 'PATCH /api/users/:userId',
+    revokeUserSessions: 'DELETE /api/users/:userId/sessions',
+    getMe: 'GET /api/me',
+    updateMe: 'PATCH /api/me',
+    changePassword: 'POST /api/me/password',
     createReservation: 'POST /api/reservations',
+    updateReservation: 'PATCH /api/reservations/:id',
     deleteReservation: 'DELETE /api/reservations/:id',
+    restoreReservation: 'POST /api/reservations/:id/restore',
+    checkIn: 'POST /api/reservations/:id/check-in',
+    rsvp: 'POST /api/reservations/:id/rsvp',
+    getReservationHistory: 'GET /api/reservations/:id/history',
+    placeHold: 'POST /api/holds',
+    confirmHold: 'POST /api/holds/:holdId/confirm',
+    releaseHold: 'DELETE /api/holds/:holdId',
+    joinWaitlist: 'POST /api/waitlist',
+    leaveWaitlist: 'DELETE /api/waitlist/:entryId',
+    claimWaitlistOffer: 'POST /api/waitlist/:entryId/claim',
+    getAuditLog: 'GET /api/audit-log',
+    getNoShowReport: 'GET /api/reports/no-shows',
+    createWebhook: 'POST /api/webhooks',
+    listWebhooks: 'GET /api/webhooks',
+    updateWebhook: 'PATCH /api/webhooks/:webhookId',
+    deleteWebhook: 'DELETE /api/webhooks/:webhookId',
+    getWebhookDeliveries: 'GET /api/webhooks/:webhookId/deliveries',
+    listRooms: 'GET /api/rooms',
+    createRoom: 'POST /api/rooms',
+    getRoom: 'GET /api/rooms/:roomId',
+    updateRoom: 'PATCH /api/rooms/:roomId',
+    deleteRoom: 'DELETE /api/rooms/:roomId',
+    getAvailableRooms: 'GET /api/rooms/available',
     getRoomReservations: 'GET /api/rooms/:roomId/reservations',
+    getRoomAvailability: 'GET /api/rooms/:roomId/availability',
+    getRoomCalendar: 'GET /api/rooms/:roomId/calendar.ics?token=',
+    getMyReservations: 'GET /api/me/reservations',
+    getMyWaitlist: 'GET /api/me/waitlist',
+    createFeedToken: 'POST /api/me/feed-token',
+    getMyCalendar: 'GET /api/me/calendar.ics?token=',
     healthCheck: 'GET /api/health',
   });
 
@@ -22,6 +73,7 @@ app.listen(config.PORT, () => {
     logger.info('Test credentials:', {
       alice: { username: 'alice', password: 'SecurePass123!' },
       bob: { username: 'bob', password: 'BobSecure2026!' },
+      carol: { username: 'carol', password: 'CarolAdmin2026!', role: 'admin' },
     });
   }
 });
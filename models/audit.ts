@@ -0,0 +1,47 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AuditEvent, AuditRepository } from '../types';
+import { createRecordStore, RecordStore } from './store';
+
+export const MAX_AUDIT_EVENTS = 10000;
+
+/**
+ * Append-only: events are never updated, so the log stays a trustworthy
+ * record of who changed what. Only the oldest are dropped, once the log
+ * holds MAX_AUDIT_EVENTS events.
+ */
+export function createAuditRepository(
+  store: RecordStore<AuditEvent>
+): AuditRepository {
+  return {
+    findAll(): AuditEvent[] {
+      return [...store.read()];
+    },
+
+    findByReservationId(reservationId: string): AuditEvent[] {
+      return store
+        .read()
+        .filter((event) => event.reservationId === reservationId);
+    },
+
+    append(data: Omit<AuditEvent, 'eventId'>): AuditEvent {
+      const event: AuditEvent = {
+        eventId: uuidv4(),
+        ...data,
+      };
+      store.write([...store.read(), event].slice(-MAX_AUDIT_EVENTS));
+      return event;
+    },
+
+    reset(): void {
+      store.reset();
+    },
+  };
+}
+
+export const auditRepository: AuditRepository = createAuditRepository(
+  createRecordStore('audit-log', () => [])
+);
+
+export function resetAuditLog(): void {
+  auditRepository.reset();
+}
@@ -0,0 +1,70 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Hold, HoldRepository } from '../types';
+import { createRecordStore, RecordStore } from './store';
+
+export function createHoldRepository(store: RecordStore<Hold>): HoldRepository {
+  return {
+    findAll(): Hold[] {
+      return [...store.read()];
+    },
+
+    findById(holdId: string): Hold | undefined {
+      return store.read().find((hold) => hold.holdId === holdId);
+    },
+
+    findByUserId(userId: string): Hold[] {
+      return store.read().filter((hold) => hold.userId === userId);
+    },
+
+    findByRoomId(roomId: string): Hold[] {
+      return store.read().filter((hold) => hold.roomId === roomId);
+    },
+
+    create(data: Omit<Hold, 'holdId'>): Hold {
+      const newHold: Hold = {
+        holdId: uuidv4(),
+        ...data,
+      };
+      store.write([...store.read(), newHold]);
+      return newHold;
+    },
+
+    update(
+      holdId: string,
+      data: Partial<Omit<Hold, 'holdId'>>
+    ): Hold | undefined {
+      const existing = this.findById(holdId);
+      if (!existing) {
+        return undefined;
+      }
+
+      const updated: Hold = { ...existing, ...data };
+      store.write(
+        store.read().map((hold) => (hold.holdId === holdId ? updated : hold))
+      );
+      return updated;
+    },
+
+    delete(holdId: string): boolean {
+      const records = store.read();
+      const remaining = records.filter((hold) => hold.holdId !== holdId);
+      if (remaining.length === records.length) {
+        return false;
+      }
+      store.write(remaining);
+      return true;
+    },
+
+    reset(): void {
+      store.reset();
+    },
+  };
+}
+
+export const holdRepository: HoldRepository = createHoldRepository(
+  createRecordStore('holds', () => [])
+);
+
+export function resetHolds(): void {
+  holdRepository.reset();
+}
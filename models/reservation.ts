@@ -1,138 +1,9 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Reservation } from '../types';
-
-const reservations: Reservation[] = [
-  {
-    reservationId: 'res-1',
-    roomId: 'room-1',
-    userId: 'user-1',
-    startDate: '2026-06-02',
-    endDate: '2026-06-02',
-    startTime: '09:00',
-    endTime: '10:30',
-  },
-  {
-    reservationId: 'res-2',
-    roomId: 'room-1',
-    userId: 'user-2',
-    startDate: '2026-06-02',
-    endDate: '2026-06-02',
-    startTime: '14:00',
-    endTime: '16:00',
-  },
-  {
-    reservationId: 'res-3',
-    roomId: 'room-2',
-    userId: 'user-1',
-    startDate: '2026-06-03',
-    endDate: '2026-06-03',
-    startTime: '10:00',
-    endTime: '11:00',
-  },
-  {
-    reservationId: 'res-4',
-    roomId: 'room-2',
-    userId: 'user-2',
-    startDate: '2026-06-04',
-    endDate: '2026-06-04',
-    startTime: '13:00',
-    endTime: '14:30',
-  },
-  {
-    reservationId: 'res-5',
-    roomId: 'room-3',
-    userId: 'user-1',
-    startDate: '2026-06-05',
-    endDate: '2026-06-05',
-    startTime: '15:00',
-    endTime: '17:00',
-  },
-];
-
-export function getAllReservations(): Reservation[] {
-  return [...reservations];
-}
-
-export function findReservationById(
-  reservationId: string
-): Reservation | undefined {
-  return reservations.find((res) => res.reservationId === reservationId);
-}
-
-export function getReservationsByRoomId(roomId: string): Reservation[] {
-  return reservations.filter((res) => res.roomId === roomId);
-}
-
-export function getReservationsByUserId(userId: string): Reservation[] {
-  return reservations.filter((res) => res.userId === userId);
-}
+import { Reservation, ReservationRepository } from '../types';
+import { createRecordStore, RecordStore } from './store';
 
-export function findReservationsByRoomAndDate(
-  roomId: string,
-  date: string
-): Reservation[] {
-  return reservations.filter(
-    (res) => res.roomId === roomId && res.startDate <= date && res.endDate >= date
-  );
-}
-
-export function findReservationsByRoomAndDateRange(
-  roomId: string,
-  startDate: string,
-  endDate: string
-): Reservation[] {
-  return reservations.filter(
-    (res) =>
-      res.roomId === roomId &&
-      res.startDate <= endDate &&
-      res.endDate >= startDate
-  );
-}
-
-export function createReservation(
-  data: Omit<Reservation, 'reservationId'>
-): Reservation {
-  const newReservation: Reservation = {
-    reservationId: uuidv4(),
-    ...data,
-  };
-  reservations.push(newReservation);
-  return newReservation;
-}
-
-export function updateReservation(
-  reservationId: string,
-  data: Partial<Omit<Reservation, 'reservationId'>>
-): Reservation | undefined {
-  const index = reservations.findIndex(
-    (res) => res.reservationId === reservationId
-  );
-  if (index === -1) {
-    return undefined;
-  }
-
-  reservations[index] = {
-    ...reservations[index],
-    ...data,
-  };
-
-  return reservations[index];
-}
-
-export function deleteReservation(reservationId: string): boolean {
-  const index = reservations.findIndex(
-    (res) => res.reservationId === reservationId
-  );
-  if (index === -1) {
-    return false;
-  }
-  reservations.splice(index, 1);
-  return true;
-}
-
-export function resetReservations(): void {
-  reservations.length = 0;
-  reservations.push(
+function seedReservations(): Reservation[] {
+  return [
     {
       reservationId: 'res-1',
       roomId: 'room-1',
@@ -141,6 +12,10 @@ export function resetReservations(): void {
       endDate: '2026-06-02',
       startTime: '09:00',
       endTime: '10:30',
+      timeZone: 'Europe/Helsinki',
+      startAt: '2026-06-02T06:00:00.000Z',
+      endAt: '2026-06-02T07:30:00.000Z',
+      status: 'confirmed',
     },
     {
       reservationId: 'res-2',
@@ -150,6 +25,10 @@ export function resetReservations(): void {
       endDate: '2026-06-02',
       startTime: '14:00',
       endTime: '16:00',
+      timeZone: 'Europe/Helsinki',
+      startAt: '2026-06-02T11:00:00.000Z',
+      endAt: '2026-06-02T13:00:00.000Z',
+      status: 'confirmed',
     },
     {
       reservationId: 'res-3',
@@ -159,6 +38,10 @@ export function resetReservations(): void {
       endDate: '2026-06-03',
       startTime: '10:00',
       endTime: '11:00',
+      timeZone: 'Europe/Helsinki',
+      startAt: '2026-06-03T07:00:00.000Z',
+      endAt: '2026-06-03T08:00:00.000Z',
+      status: 'confirmed',
     },
     {
       reservationId: 'res-4',
@@ -168,6 +51,10 @@ export function resetReservations(): void {
       endDate: '2026-06-04',
       startTime: '13:00',
       endTime: '14:30',
+      timeZone: 'Europe/Helsinki',
+      startAt: '2026-06-04T10:00:00.000Z',
+      endAt: '2026-06-04T11:30:00.000Z',
+      status: 'confirmed',
     },
     {
       reservationId: 'res-5',
@@ -177,6 +64,128 @@ export function resetReservations(): void {
       endDate: '2026-06-05',
       startTime: '15:00',
       endTime: '17:00',
-    }
+      timeZone: 'Europe/Helsinki',
+      startAt: '2026-06-05T12:00:00.000Z',
+      endAt: '2026-06-05T14:00:00.000Z',
+      status: 'confirmed',
+    },
+  ];
+}
+
+export function createReservationRepository(
+  store: RecordStore<Reservation>
+): ReservationRepository {
+  return {
+    findAll(): Reservation[] {
+      return [...store.read()];
+    },
+
+    findById(reservationId: string): Reservation | undefined {
+      return store.read().find((res) => res.reservationId === reservationId);
+    },
+
+    findByRoomId(roomId: string): Reservation[] {
+      return store.read().filter((res) => res.roomId === roomId);
+    },
+
+    findByUserId(userId: string): Reservation[] {
+      return store.read().filter((res) => res.userId === userId);
+    },
+
+    findByAttendeeUserId(userId: string): Reservation[] {
+      return store
+        .read()
+        .filter((res) =>
+          (res.attendees ?? []).some((attendee) => attendee.userId === userId)
+        );
+    },
+
+    findBySeriesId(seriesId: string): Reservation[] {
+      return store
+        .read()
+        .filter((res) => res.seriesId === seriesId)
+        .sort((a, b) => a.startDate.localeCompare(b.startDate));
+    },
+
+    findByRoomAndDate(roomId: string, date: string): Reservation[] {
+      return store
+        .read()
+        .filter(
+          (res) =>
+            res.status === 'confirmed' &&
+            res.roomId === roomId &&
+            res.startDate <= date &&
+            res.endDate >= date
+        );
+    },
+
+    findByRoomAndDateRange(
+      roomId: string,
+      startDate: string,
+      endDate: string
+    ): Reservation[] {
+      return store
+        .read()
+        .filter(
+          (res) =>
+            res.status === 'confirmed' &&
+            res.roomId === roomId &&
+            res.startDate <= endDate &&
+            res.endDate >= startDate
+        );
+    },
+
+    create(data: Omit<Reservation, 'reservationId' | 'status'>): Reservation {
+      const newReservation: Reservation = {
+        reservationId: uuidv4(),
+        ...data,
+        status: 'confirmed',
+      };
+      store.write([...store.read(), newReservation]);
+      return newReservation;
+    },
+
+    update(
+      reservationId: string,
+      data: Partial<Omit<Reservation, 'reservationId'>>
+    ): Reservation | undefined {
+      const existing = this.findById(reservationId);
+      if (!existing) {
+        return undefined;
+      }
+
+      const updated: Reservation = { ...existing, ...data };
+      store.write(
+        store
+          .read()
+          .map((res) => (res.reservationId === reservationId ? updated : res))
+      );
+      return updated;
+    },
+
+    delete(reservationId: string): boolean {
+      const records = store.read();
+      const remaining = records.filter(
+        (res) => res.reservationId !== reservationId
+      );
+      if (remaining.length === records.length) {
+        return false;
+      }
+      store.write(remaining);
+      return true;
+    },
+
+    reset(): void {
+      store.reset();
+    },
+  };
+}
+
+export const reservationRepository: ReservationRepository =
+  createReservationRepository(
+    createRecordStore('reservations', seedReservations)
   );
+
+export function resetReservations(): void {
+  reservationRepository.reset();
 }
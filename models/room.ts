@@ -1,28 +1,101 @@
-import { Room } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { Room, RoomRepository } from '../types';
+import { createRecordStore, RecordStore } from './store';
 
-const rooms: Room[] = [
-  { roomId: 'room-1', name: 'Conference Room A' },
-  { roomId: 'room-2', name: 'Meeting Room B' },
-  { roomId: 'room-3', name: 'Huddle Space C' },
-];
-
-export function getAllRooms(): Room[] {
-  return [...rooms];
+function seedRooms(): Room[] {
+  return [
+    {
+      roomId: 'room-1',
+      name: 'Conference Room A',
+      capacity: 12,
+      building: 'HQ',
+      floor: 2,
+      equipment: ['screen', 'video-conference', 'whiteboard'],
+      active: true,
+      timeZone: 'Europe/Helsinki',
+    },
+    {
+      roomId: 'room-2',
+      name: 'Meeting Room B',
+      capacity: 6,
+      building: 'HQ',
+      floor: 2,
+      equipment: ['screen', 'whiteboard'],
+      active: true,
+      timeZone: 'Europe/Helsinki',
+    },
+    {
+      roomId: 'room-3',
+      name: 'Huddle Space C',
+      capacity: 4,
+      building: 'HQ',
+      floor: 3,
+      equipment: ['whiteboard'],
+      active: true,
+      timeZone: 'Europe/Helsinki',
+    },
+  ];
 }
 
-export function findRoomById(roomId: string): Room | undefined {
-  return rooms.find((room) => room.roomId === roomId);
-}
+export function createRoomRepository(store: RecordStore<Room>): RoomRepository {
+  return {
+    findAll(): Room[] {
+      return [...store.read()];
+    },
+
+    findById(roomId: string): Room | undefined {
+      return store.read().find((room) => room.roomId === roomId);
+    },
+
+    exists(roomId: string): boolean {
+      return store.read().some((room) => room.roomId === roomId);
+    },
+
+    create(data: Omit<Room, 'roomId'>): Room {
+      const newRoom: Room = {
+        roomId: uuidv4(),
+        ...data,
+      };
+      store.write([...store.read(), newRoom]);
+      return newRoom;
+    },
 
-export function roomExists(roomId: string): boolean {
-  return rooms.some((room) => room.roomId === roomId);
+    update(
+      roomId: string,
+      data: Partial<Omit<Room, 'roomId'>>
+    ): Room | undefined {
+      const existing = this.findById(roomId);
+      if (!existing) {
+        return undefined;
+      }
+
+      const updated: Room = { ...existing, ...data };
+      store.write(
+        store.read().map((room) => (room.roomId === roomId ? updated : room))
+      );
+      return updated;
+    },
+
+    delete(roomId: string): boolean {
+      const records = store.read();
+      const remaining = records.filter((room) => room.roomId !== roomId);
+      if (remaining.length === records.length) {
+        return false;
+      }
+      store.write(remaining);
+      return true;
+    },
+
+    reset(): void {
+      store.reset();
+    },
+  };
 }
 
+export const roomRepository: RoomRepository = createRoomRepository(
+  createRecordStore('rooms', seedRooms)
+);
+
 export function resetRooms(): void {
-  rooms.length = 0;
-  rooms.push(
-    { roomId: 'room-1', name: 'Conference Room A' },
-    { roomId: 'room-2', name: 'Meeting Room B' },
-    { roomId: 'room-3', name: 'Huddle Space C' }
-  );
+  roomRepository.reset();
 }
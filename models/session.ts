@@ -0,0 +1,74 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Session, SessionRepository } from '../types';
+import { createRecordStore, RecordStore } from './store';
+
+export function createSessionRepository(
+  store: RecordStore<Session>
+): SessionRepository {
+  return {
+    findAll(): Session[] {
+      return [...store.read()];
+    },
+
+    findById(sessionId: string): Session | undefined {
+      return store.read().find((session) => session.sessionId === sessionId);
+    },
+
+    findByUserId(userId: string): Session[] {
+      return store.read().filter((session) => session.userId === userId);
+    },
+
+    create(data: Omit<Session, 'sessionId'>): Session {
+      const newSession: Session = {
+        sessionId: uuidv4(),
+        ...data,
+      };
+      store.write([...store.read(), newSession]);
+      return newSession;
+    },
+
+    update(
+      sessionId: string,
+      data: Partial<Omit<Session, 'sessionId'>>
+    ): Session | undefined {
+      const existing = this.findById(sessionId);
+      if (!existing) {
+        return undefined;
+      }
+
+      const updated: Session = { ...existing, ...data };
+      store.write(
+        store
+          .read()
+          .map((session) =>
+            session.sessionId === sessionId ? updated : session
+          )
+      );
+      return updated;
+    },
+
+    delete(sessionId: string): boolean {
+      const records = store.read();
+      const remaining = records.filter(
+        (session) => session.sessionId !== sessionId
+      );
+      if (remaining.length === records.length) {
+        return false;
+      }
+      store.write(remaining);
+      return true;
+    },
+
+    reset(): void {
+      store.reset();
+    },
+  };
+}
+
+export const sessionRepository: SessionRepository = createSessionRepository(
+  createRecordStore('sessions', () => [])
+);
+
+export function resetSessions(): void {
+  sessionRepository.reset();
+}
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import config, { StorageBackend } from '../utils/config';
+
+export interface RecordStore<T> {
+  read(): T[];
+  write(records: T[]): void;
+  reset(): void;
+}
+
+class MemoryRecordStore<T> implements RecordStore<T> {
+  private records: T[];
+
+  constructor(private readonly seed: () => T[]) {
+    this.records = seed();
+  }
+
+  read(): T[] {
+    return this.records;
+  }
+
+  write(records: T[]): void {
+    this.records = records;
+  }
+
+  reset(): void {
+    this.records = this.seed();
+  }
+}
+
+class JsonFileRecordStore<T> implements RecordStore<T> {
+  private records: T[];
+
+  constructor(
+    private readonly filePath: string,
+    private readonly seed: () => T[]
+  ) {
+    if (fs.existsSync(filePath)) {
+      this.records = JSON.parse(fs.readFileSync(filePath, 'utf8')) as T[];
+    } else {
+      this.records = seed();
+      this.persist();
+    }
+  }
+
+  read(): T[] {
+    return this.records;
+  }
+
+  write(records: T[]): void {
+    this.records = records;
+    this.persist();
+  }
+
+  reset(): void {
+    this.write(this.seed());
+  }
+
+  private persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.records, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+interface RecordStoreOptions {
+  backend?: StorageBackend;
+  dataDir?: string;
+}
+
+export function createRecordStore<T>(
+  name: string,
+  seed: () => T[],
+  options: RecordStoreOptions = {}
+): RecordStore<T> {
+  const backend = options.backend ?? config.STORAGE_BACKEND;
+  const dataDir = options.dataDir ?? config.DATA_DIR;
+
+  if (backend === 'file') {
+    return new JsonFileRecordStore(path.join(dataDir, `${name}.json`), seed);
+  }
+  return new MemoryRecordStore(seed);
+}
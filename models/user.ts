@@ -1,29 +1,111 @@
 import bcrypt from 'bcrypt';
-import { User } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { PublicUser, User, UserRepository } from '../types';
+import { createRecordStore, RecordStore } from './store';
 
 const SALT_ROUNDS = 10;
 
-const users: User[] = [
-  {
-    userId: 'user-1',
-    username: 'alice',
-    name: 'Alice Johnson',
-    passwordHash: bcrypt.hashSync('SecurePass123!', SALT_ROUNDS),
-  },
-  {
-    userId: 'user-2',
-    username: 'bob',
-    name: 'Bob Smith',
-    passwordHash: bcrypt.hashSync('BobSecure2026!', SALT_ROUNDS),
-  },
-];
-
-export function findUserByUsername(username: string): User | undefined {
-  return users.find((user) => user.username === username);
+// Hashed once when the module loads, since hashing is slow and the seed
+// users are recreated on every reset
+const seedPasswordHashes = {
+  alice: bcrypt.hashSync('SecurePass123!', SALT_ROUNDS),
+  bob: bcrypt.hashSync('BobSecure2026!', SALT_ROUNDS),
+  carol: bcrypt.hashSync('CarolAdmin2026!', SALT_ROUNDS),
+};
+
+function seedUsers(): User[] {
+  return [
+    {
+      userId: 'user-1',
+      username: 'alice',
+      name: 'Alice Johnson',
+      email: 'alice@example.com',
+      role: 'member',
+      active: true,
+      passwordHash: seedPasswordHashes.alice,
+    },
+    {
+      userId: 'user-2',
+      username: 'bob',
+      name: 'Bob Smith',
+      email: 'bob@example.com',
+      role: 'member',
+      active: true,
+      passwordHash: seedPasswordHashes.bob,
+    },
+    {
+      userId: 'user-3',
+      username: 'carol',
+      name: 'Carol Williams',
+      email: 'carol@example.com',
+      role: 'admin',
+      active: true,
+      passwordHash: seedPasswordHashes.carol,
+    },
+  ];
 }
 
-export function findUserById(userId: string): User | undefined {
-  return users.find((user) => user.userId === userId);
+export function createUserRepository(store: RecordStore<User>): UserRepository {
+  return {
+    findAll(): PublicUser[] {
+      return store
+        .read()
+        .map(({ passwordHash: _, feedTokenHash: __, ...user }) => user);
+    },
+
+    findById(userId: string): User | undefined {
+      return store.read().find((user) => user.userId === userId);
+    },
+
+    findByUsername(username: string): User | undefined {
+      return store.read().find((user) => user.username === username);
+    },
+
+    findByFeedTokenHash(feedTokenHash: string): User | undefined {
+      return store.read().find((user) => user.feedTokenHash === feedTokenHash);
+    },
+
+    exists(userId: string): boolean {
+      return store.read().some((user) => user.userId === userId);
+    },
+
+    create(data: Omit<User, 'userId'>): User {
+      const newUser: User = {
+        userId: uuidv4(),
+        ...data,
+      };
+      store.write([...store.read(), newUser]);
+      return newUser;
+    },
+
+    update(
+      userId: string,
+      data: Partial<Omit<User, 'userId'>>
+    ): User | undefined {
+      const existing = this.findById(userId);
+      if (!existing) {
+        return undefined;
+      }
+
+      const updated: User = { ...existing, ...data };
+      store.write(
+        store.read().map((user) => (user.userId === userId ? updated : user))
+      );
+      return updated;
+    },
+
+    reset(): void {
+      store.reset();
+    },
+  };
+}
+
+export const userRepository: UserRepository = createUserRepository(
+  createRecordStore('users', seedUsers)
+);
+
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, SALT_ROUNDS);
 }
 
 export async function verifyPassword(
@@ -33,28 +115,6 @@ export async function verifyPassword(
   return bcrypt.compare(password, hash);
 }
 
-export function userExists(userId: string): boolean {
-  return users.some((user) => user.userId === userId);
-}
-
-export function getAllUsers(): Omit<User, 'passwordHash'>[] {
-  return users.map(({ passwordHash: _, ...user }) => user);
-}
-
 export function resetUsers(): void {
-  users.length = 0;
-  users.push(
-    {
-      userId: 'user-1',
-      username: 'alice',
-      name: 'Alice Johnson',
-      passwordHash: bcrypt.hashSync('SecurePass123!', SALT_ROUNDS),
-    },
-    {
-      userId: 'user-2',
-      username: 'bob',
-      name: 'Bob Smith',
-      passwordHash: bcrypt.hashSync('BobSecure2026!', SALT_ROUNDS),
-    }
-  );
+  userRepository.reset();
 }
@@ -0,0 +1,64 @@
+import { v4 as uuidv4 } from 'uuid';
+import { WaitlistEntry, WaitlistRepository } from '../types';
+import { createRecordStore, RecordStore } from './store';
+
+export function createWaitlistRepository(
+  store: RecordStore<WaitlistEntry>
+): WaitlistRepository {
+  return {
+    findAll(): WaitlistEntry[] {
+      return [...store.read()];
+    },
+
+    findById(entryId: string): WaitlistEntry | undefined {
+      return store.read().find((entry) => entry.entryId === entryId);
+    },
+
+    findByUserId(userId: string): WaitlistEntry[] {
+      return store.read().filter((entry) => entry.userId === userId);
+    },
+
+    findByRoomId(roomId: string): WaitlistEntry[] {
+      return store.read().filter((entry) => entry.roomId === roomId);
+    },
+
+    create(data: Omit<WaitlistEntry, 'entryId'>): WaitlistEntry {
+      const newEntry: WaitlistEntry = {
+        entryId: uuidv4(),
+        ...data,
+      };
+      store.write([...store.read(), newEntry]);
+      return newEntry;
+    },
+
+    update(
+      entryId: string,
+      data: Partial<Omit<WaitlistEntry, 'entryId'>>
+    ): WaitlistEntry | undefined {
+      const existing = this.findById(entryId);
+      if (!existing) {
+        return undefined;
+      }
+
+      const updated: WaitlistEntry = { ...existing, ...data };
+      store.write(
+        store
+          .read()
+          .map((entry) => (entry.entryId === entryId ? updated : entry))
+      );
+      return updated;
+    },
+
+    reset(): void {
+      store.reset();
+    },
+  };
+}
+
+export const waitlistRepository: WaitlistRepository = createWaitlistRepository(
+  createRecordStore('waitlist', () => [])
+);
+
+export function resetWaitlist(): void {
+  waitlistRepository.reset();
+}
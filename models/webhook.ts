@@ -0,0 +1,156 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryRepository,
+  WebhookDeliveryStatus,
+  WebhookRepository,
+} from '../types';
+import { createRecordStore, RecordStore } from './store';
+
+export const MAX_WEBHOOK_DELIVERIES = 500;
+
+// Past MAX_WEBHOOK_DELIVERIES the oldest finished deliveries are dropped.
+// Pending ones are kept so their retries can still run.
+function dropOldestFinished(deliveries: WebhookDelivery[]): WebhookDelivery[] {
+  let excess = deliveries.length - MAX_WEBHOOK_DELIVERIES;
+  if (excess <= 0) {
+    return deliveries;
+  }
+
+  return deliveries.filter((delivery) => {
+    if (excess > 0 && delivery.status !== 'pending') {
+      excess -= 1;
+      return false;
+    }
+    return true;
+  });
+}
+
+export function createWebhookRepository(
+  store: RecordStore<Webhook>
+): WebhookRepository {
+  return {
+    findAll(): Webhook[] {
+      return [...store.read()];
+    },
+
+    findById(webhookId: string): Webhook | undefined {
+      return store.read().find((webhook) => webhook.webhookId === webhookId);
+    },
+
+    create(data: Omit<Webhook, 'webhookId'>): Webhook {
+      const newWebhook: Webhook = {
+        webhookId: uuidv4(),
+        ...data,
+      };
+      store.write([...store.read(), newWebhook]);
+      return newWebhook;
+    },
+
+    update(
+      webhookId: string,
+      data: Partial<Omit<Webhook, 'webhookId'>>
+    ): Webhook | undefined {
+      const existing = this.findById(webhookId);
+      if (!existing) {
+        return undefined;
+      }
+
+      const updated: Webhook = { ...existing, ...data };
+      store.write(
+        store
+          .read()
+          .map((webhook) =>
+            webhook.webhookId === webhookId ? updated : webhook
+          )
+      );
+      return updated;
+    },
+
+    delete(webhookId: string): boolean {
+      const records = store.read();
+      const remaining = records.filter(
+        (webhook) => webhook.webhookId !== webhookId
+      );
+      if (remaining.length === records.length) {
+        return false;
+      }
+      store.write(remaining);
+      return true;
+    },
+
+    reset(): void {
+      store.reset();
+    },
+  };
+}
+
+export function createWebhookDeliveryRepository(
+  store: RecordStore<WebhookDelivery>
+): WebhookDeliveryRepository {
+  return {
+    findById(deliveryId: string): WebhookDelivery | undefined {
+      return store
+        .read()
+        .find((delivery) => delivery.deliveryId === deliveryId);
+    },
+
+    findByWebhookId(webhookId: string): WebhookDelivery[] {
+      return store
+        .read()
+        .filter((delivery) => delivery.webhookId === webhookId);
+    },
+
+    findByStatus(status: WebhookDeliveryStatus): WebhookDelivery[] {
+      return store.read().filter((delivery) => delivery.status === status);
+    },
+
+    create(data: Omit<WebhookDelivery, 'deliveryId'>): WebhookDelivery {
+      const newDelivery: WebhookDelivery = {
+        deliveryId: uuidv4(),
+        ...data,
+      };
+      store.write(dropOldestFinished([...store.read(), newDelivery]));
+      return newDelivery;
+    },
+
+    update(
+      deliveryId: string,
+      data: Partial<Omit<WebhookDelivery, 'deliveryId'>>
+    ): WebhookDelivery | undefined {
+      const existing = this.findById(deliveryId);
+      if (!existing) {
+        return undefined;
+      }
+
+      const updated: WebhookDelivery = { ...existing, ...data };
+      store.write(
+        store
+          .read()
+          .map((delivery) =>
+            delivery.deliveryId === deliveryId ? updated : delivery
+          )
+      );
+      return updated;
+    },
+
+    reset(): void {
+      store.reset();
+    },
+  };
+}
+
+export const webhookRepository: WebhookRepository = createWebhookRepository(
+  createRecordStore('webhooks', () => [])
+);
+
+export const webhookDeliveryRepository: WebhookDeliveryRepository =
+  createWebhookDeliveryRepository(
+    createRecordStore('webhook-deliveries', () => [])
+  );
+
+export function resetWebhooks(): void {
+  webhookRepository.reset();
+  webhookDeliveryRepository.reset();
+}
@@ -0,0 +1,121 @@
+import {
+  Actor,
+  AuditAction,
+  AuditEvent,
+  AuditFilters,
+  Page,
+  PageRequest,
+  Reservation,
+} from '../types';
+import { auditRepository } from '../models/audit';
+import { reservationRepository } from '../models/reservation';
+import { ForbiddenError, NotFoundError } from '../errors/ApiError';
+import { paginate } from '../utils/pagination';
+import logger from '../utils/logger';
+
+// Actor ID for changes made by background jobs rather than a user
+export const SYSTEM_ACTOR_ID = 'system';
+
+export function recordReservationEvent(
+  action: AuditAction,
+  actorId: string,
+  before: Reservation | null,
+  after: Reservation | null,
+  reason?: string
+): AuditEvent {
+  const reservation = (after ?? before) as Reservation;
+
+  const event = auditRepository.append({
+    reservationId: reservation.reservationId,
+    seriesId: reservation.seriesId,
+    action,
+    actorId,
+    at: new Date().toISOString(),
+    before: before && { ...before },
+    after: after && { ...after },
+    reason,
+  });
+
+  logger.debug('Audit event recorded', {
+    eventId: event.eventId,
+    reservationId: event.reservationId,
+    action,
+    actorId,
+  });
+
+  return event;
+}
+
+function getSnapshot(event: AuditEvent): Reservation {
+  return (event.after ?? event.before) as Reservation;
+}
+
+function matchesAuditFilters(
+  event: AuditEvent,
+  filters: AuditFilters
+): boolean {
+  const snapshot = getSnapshot(event);
+  const date = event.at.slice(0, 10);
+
+  if (filters.action !== undefined && event.action !== filters.action) {
+    return false;
+  }
+  if (filters.actorId !== undefined && event.actorId !== filters.actorId) {
+    return false;
+  }
+  if (filters.userId !== undefined && snapshot.userId !== filters.userId) {
+    return false;
+  }
+  if (filters.roomId !== undefined && snapshot.roomId !== filters.roomId) {
+    return false;
+  }
+  if (filters.from !== undefined && date < filters.from) {
+    return false;
+  }
+  if (filters.to !== undefined && date > filters.to) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Returns a reservation's events, oldest first. The history outlives the
+ * reservation, so cancelled reservations can still be looked up.
+ */
+export function getReservationHistory(
+  reservationId: string,
+  actor: Actor
+): AuditEvent[] {
+  const events = auditRepository.findByReservationId(reservationId);
+  const current = reservationRepository.findById(reservationId);
+
+  const ownerId =
+    current?.userId ??
+    (events.length > 0
+      ? getSnapshot(events[events.length - 1]).userId
+      : undefined);
+
+  if (ownerId === undefined) {
+    throw new NotFoundError(`Reservation '${reservationId}' not found.`);
+  }
+
+  if (ownerId !== actor.userId && actor.role !== 'admin') {
+    throw new ForbiddenError(
+      'You can only view the history of your own reservations.'
+    );
+  }
+
+  return events;
+}
+
+export function queryAuditLog(
+  filters: AuditFilters,
+  page: PageRequest
+): Page<AuditEvent> {
+  const events = auditRepository
+    .findAll()
+    .filter((event) => matchesAuditFilters(event, filters))
+    .reverse();
+
+  return paginate(events, page);
+}
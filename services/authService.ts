@@ -1,68 +1,366 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import config from '../utils/config';
 import logger from '../utils/logger';
-import { TokenPayload } from '../types';
-import { findUserByUsername, verifyPassword } from '../models/user';
-import { UnauthorizedError } from '../errors/ApiError';
+import { Session, TokenPayload, User, UserRole } from '../types';
+import { userRepository, verifyPassword } from '../models/user';
+import { sessionRepository } from '../models/session';
+import { TooManyRequestsError, UnauthorizedError } from '../errors/ApiError';
+import { AttemptTracker, createAttemptTracker } from '../utils/rateLimit';
 
-interface LoginResult {
+const DEACTIVATED_MESSAGE =
+  'This account has been deactivated. Please contact an administrator.';
+
+const INVALID_CREDENTIALS_MESSAGE =
+  'Invalid username or password. Please check your credentials and try again.';
+
+// Usernames get few attempts; an IP address gets more, since several
+// people can share one
+const usernameAttempts = createLoginAttemptTracker(
+  () => config.LOGIN_MAX_FAILURES
+);
+const ipAttempts = createLoginAttemptTracker(
+  () => config.LOGIN_MAX_FAILURES_PER_IP
+);
+
+function createLoginAttemptTracker(maxFailures: () => number): AttemptTracker {
+  return createAttemptTracker(() => ({
+    maxFailures: maxFailures(),
+    baseLockoutMs: config.LOGIN_LOCKOUT_SECONDS * 1000,
+    maxLockoutMs: config.LOGIN_MAX_LOCKOUT_SECONDS * 1000,
+    resetAfterMs: config.LOGIN_MAX_LOCKOUT_SECONDS * 1000,
+  }));
+}
+
+export function resetLoginAttempts(): void {
+  usernameAttempts.reset();
+  ipAttempts.reset();
+}
+
+interface TokenPair {
   token: string;
+  refreshToken: string;
+  // Access token lifetime in seconds
+  expiresIn: number;
+}
+
+export interface LoginResult extends TokenPair {
   user: {
     userId: string;
     username: string;
     name: string;
+    role: UserRole;
   };
 }
 
+let lastSessionSweepAt = 0;
+
+// Sessions are never deleted otherwise, so stale ones are dropped at most
+// once per access token lifetime. A missing session is rejected like a
+// revoked one, but an expired session is kept until the access tokens
+// issued from it have expired too.
+function sweepSessions(now: number): void {
+  const accessTokenMs = config.JWT_EXPIRES_IN * 1000;
+  if (now - lastSessionSweepAt < accessTokenMs) {
+    return;
+  }
+  lastSessionSweepAt = now;
+
+  const stale = sessionRepository
+    .findAll()
+    .filter(
+      (session) =>
+        session.revokedAt !== undefined ||
+        Date.parse(session.expiresAt) + accessTokenMs <= now
+    );
+  for (const session of stale) {
+    sessionRepository.delete(session.sessionId);
+  }
+
+  if (stale.length > 0) {
+    logger.debug('Stale sessions purged', { count: stale.length });
+  }
+}
+
+function recordLoginFailure(username: string, clientIp: string): void {
+  usernameAttempts.recordFailure(username);
+  ipAttempts.recordFailure(clientIp);
+}
+
+/**
+ * Authenticates a user. Repeated failures for a username or from an IP
+ * address lock further attempts out for a period that doubles with each
+ * failure; locked-out attempts fail without checking the password.
+ */
 export async function login(
   username: string,
-  password: string
+  password: string,
+  clientIp: string
 ): Promise<LoginResult> {
-  logger.debug('Login attempt', { username });
+  logger.debug('Login attempt', { username, clientIp });
+
+  const retryAfterMs = Math.max(
+    usernameAttempts.getRetryAfterMs(username),
+    ipAttempts.getRetryAfterMs(clientIp)
+  );
+  if (retryAfterMs > 0) {
+    logger.info('Login rejected - too many failed attempts', {
+      username,
+      clientIp,
+    });
+    throw new TooManyRequestsError(
+      `Too many failed login attempts. Please try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`,
+      retryAfterMs
+    );
+  }
 
-  const user = findUserByUsername(username);
+  const user = userRepository.findByUsername(username);
 
   if (!user) {
     logger.debug('Login failed - user not found', { username });
-    throw new UnauthorizedError(
-      'Invalid username or password. Please check your credentials and try again.'
-    );
+    recordLoginFailure(username, clientIp);
+    throw new UnauthorizedError(INVALID_CREDENTIALS_MESSAGE);
   }
 
   const isValid = await verifyPassword(password, user.passwordHash);
 
   if (!isValid) {
     logger.debug('Login failed - invalid password', { username });
-    throw new UnauthorizedError(
-      'Invalid username or password. Please check your credentials and try again.'
-    );
+    recordLoginFailure(username, clientIp);
+    throw new UnauthorizedError(INVALID_CREDENTIALS_MESSAGE);
+  }
+
+  usernameAttempts.clear(username);
+
+  // Checked after the password so the response does not reveal which
+  // usernames exist
+  if (!user.active) {
+    logger.debug('Login failed - account deactivated', { username });
+    throw new UnauthorizedError(DEACTIVATED_MESSAGE);
   }
 
+  const now = Date.now();
+  sweepSessions(now);
+  const secret = generateSecret();
+  const session = sessionRepository.create({
+    userId: user.userId,
+    refreshTokenHash: hashToken(secret),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(
+      now + config.REFRESH_TOKEN_EXPIRES_IN * 1000
+    ).toISOString(),
+  });
+
+  logger.info('User logged in successfully', {
+    userId: user.userId,
+    sessionId: session.sessionId,
+  });
+
+  return {
+    ...issueTokenPair(user, session, secret),
+    user: {
+      userId: user.userId,
+      username: user.username,
+      name: user.name,
+      role: user.role,
+    },
+  };
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function generateSecret(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+// Refresh tokens are "<sessionId>.<secret>"; only the secret's hash is
+// stored, and it changes on every refresh
+function issueTokenPair(
+  user: User,
+  session: Session,
+  secret: string
+): TokenPair {
   const payload: TokenPayload = {
     userId: user.userId,
     username: user.username,
+    role: user.role,
+    sessionId: session.sessionId,
   };
 
   const token = jwt.sign(payload, config.JWT_SECRET, {
     expiresIn: config.JWT_EXPIRES_IN,
-  }) as string;
-
-  logger.info('User logged in successfully', { userId: user.userId });
+  });
 
   return {
     token,
-    user: {
-      userId: user.userId,
-      username: user.username,
-      name: user.name,
-    },
+    refreshToken: `${session.sessionId}.${secret}`,
+    expiresIn: config.JWT_EXPIRES_IN,
   };
 }
 
+function isSessionLive(session: Session): boolean {
+  return !session.revokedAt && Date.parse(session.expiresAt) > Date.now();
+}
+
+/**
+ * Exchanges a refresh token for a new access token and a new refresh
+ * token. Presenting a refresh token that has already been exchanged
+ * revokes the whole session, since it means the token was copied.
+ */
+export function refreshSession(refreshToken: string): TokenPair {
+  const separator = refreshToken.indexOf('.');
+  const sessionId = refreshToken.slice(0, separator);
+  const secret = refreshToken.slice(separator + 1);
+
+  const session =
+    separator > 0 ? sessionRepository.findById(sessionId) : undefined;
+
+  if (!session || !isSessionLive(session)) {
+    throw new UnauthorizedError(
+      'Invalid or expired refresh token. Please log in again.'
+    );
+  }
+
+  if (hashToken(secret) !== session.refreshTokenHash) {
+    revokeSession(sessionId);
+    logger.info('Refresh token reused - session revoked', {
+      userId: session.userId,
+      sessionId,
+    });
+    throw new UnauthorizedError(
+      'Refresh token has already been used. Please log in again.'
+    );
+  }
+
+  const user = assertAccountActive(session.userId);
+  sweepSessions(Date.now());
+
+  const nextSecret = generateSecret();
+  const updated = sessionRepository.update(sessionId, {
+    refreshTokenHash: hashToken(nextSecret),
+    lastRefreshedAt: new Date().toISOString(),
+  });
+  if (!updated) {
+    throw new Error('Failed to refresh session');
+  }
+
+  logger.debug('Session refreshed', { userId: user.userId, sessionId });
+
+  return issueTokenPair(user, updated, nextSecret);
+}
+
+export function revokeSession(sessionId: string): void {
+  const session = sessionRepository.findById(sessionId);
+  if (!session || session.revokedAt) {
+    return;
+  }
+
+  sessionRepository.update(sessionId, { revokedAt: new Date().toISOString() });
+
+  logger.info('Session revoked', { userId: session.userId, sessionId });
+}
+
+/**
+ * Revokes every live session of the user except `keepSessionId`, and
+ * returns how many were revoked.
+ */
+export function revokeAllSessions(
+  userId: string,
+  keepSessionId?: string
+): number {
+  const sessions = sessionRepository
+    .findByUserId(userId)
+    .filter(
+      (session) => isSessionLive(session) && session.sessionId !== keepSessionId
+    );
+
+  for (const session of sessions) {
+    revokeSession(session.sessionId);
+  }
+
+  return sessions.length;
+}
+
+/**
+ * Issues a new calendar feed token for the user. Only a hash is stored, so
+ * issuing a token replaces (and invalidates) any previous one.
+ */
+export function issueFeedToken(userId: string): string {
+  const feedToken = crypto.randomBytes(24).toString('base64url');
+
+  const user = userRepository.update(userId, {
+    feedTokenHash: hashToken(feedToken),
+  });
+  if (!user) {
+    throw new UnauthorizedError('User account no longer exists');
+  }
+
+  logger.info('Calendar feed token issued', { userId });
+
+  return feedToken;
+}
+
+export function verifyFeedToken(feedToken: string): TokenPayload {
+  const user = userRepository.findByFeedTokenHash(hashToken(feedToken));
+
+  if (!user) {
+    throw new UnauthorizedError(
+      'Invalid calendar feed token. Please generate a new feed URL.'
+    );
+  }
+  if (!user.active) {
+    throw new UnauthorizedError(DEACTIVATED_MESSAGE);
+  }
+
+  return { userId: user.userId, username: user.username, role: user.role };
+}
+
+/**
+ * Rejects tokens issued to accounts that have since been deactivated or
+ * removed, since JWTs stay valid until they expire.
+ */
+export function assertAccountActive(userId: string): User {
+  const user = userRepository.findById(userId);
+
+  if (!user) {
+    throw new UnauthorizedError('User account no longer exists');
+  }
+  if (!user.active) {
+    throw new UnauthorizedError(DEACTIVATED_MESSAGE);
+  }
+
+  return user;
+}
+
+/**
+ * Verifies an access token and checks it against the server-side state:
+ * the session must not be revoked and the account must still be active.
+ */
 export function verifyToken(token: string): TokenPayload {
+  let payload: TokenPayload;
   try {
-    return jwt.verify(token, config.JWT_SECRET) as TokenPayload;
-  } catch {
-    throw new UnauthorizedError('Invalid or expired token');
+    payload = jwt.verify(token, config.JWT_SECRET) as TokenPayload;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new UnauthorizedError(
+        'Token has expired. Please refresh it or log in again.'
+      );
+    }
+    throw new UnauthorizedError('Invalid token. Please log in again.');
   }
+
+  const session = payload.sessionId
+    ? sessionRepository.findById(payload.sessionId)
+    : undefined;
+  if (!session || session.revokedAt) {
+    throw new UnauthorizedError(
+      'This session has been logged out. Please log in again.'
+    );
+  }
+
+  assertAccountActive(payload.userId);
+
+  return payload;
 }
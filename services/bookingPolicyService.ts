@@ -0,0 +1,288 @@
+import { BookingPolicy, Reservation, Room } from '../types';
+import { reservationRepository } from '../models/reservation';
+import { ValidationError } from '../errors/ApiError';
+import { getWeekday } from '../utils/recurrence';
+import {
+  addDays,
+  minutesBetween,
+  timeToMinutes,
+  toZonedDateTime,
+} from '../utils/time';
+import {
+  MAX_BOOKING_DURATION_HOURS,
+  MIN_BOOKING_DURATION_MINUTES,
+} from '../validators/reservationValidator';
+
+type PolicySlot = Pick<
+  Reservation,
+  'startDate' | 'endDate' | 'startTime' | 'endTime' | 'startAt' | 'endAt'
+>;
+
+type EffectiveBookingPolicy = BookingPolicy &
+  Required<
+    Pick<
+      BookingPolicy,
+      | 'minDurationMinutes'
+      | 'maxDurationMinutes'
+      | 'slotGranularityMinutes'
+      | 'setupMinutes'
+      | 'teardownMinutes'
+    >
+  >;
+
+interface PolicyCheckOptions {
+  // Per-user limits are skipped without a user, e.g. when searching rooms
+  userId?: string;
+  excludeReservationIds?: string[];
+}
+
+const DAY_MINUTES = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+
+export function getBookingPolicy(room: Room): EffectiveBookingPolicy {
+  const policy = room.policy ?? {};
+  return {
+    ...policy,
+    minDurationMinutes:
+      policy.minDurationMinutes ?? MIN_BOOKING_DURATION_MINUTES,
+    maxDurationMinutes:
+      policy.maxDurationMinutes ?? MAX_BOOKING_DURATION_HOURS * 60,
+    slotGranularityMinutes: policy.slotGranularityMinutes ?? 1,
+    setupMinutes: policy.setupMinutes ?? 0,
+    teardownMinutes: policy.teardownMinutes ?? 0,
+  };
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  return `${minutes} minutes`;
+}
+
+function policyError(
+  field: keyof BookingPolicy,
+  message: string
+): ValidationError {
+  return new ValidationError(`${message} (policy: ${field})`);
+}
+
+function getTodayInRoom(room: Room): string {
+  return toZonedDateTime(new Date(), room.timeZone).date;
+}
+
+// The dates a booking occupies; one ending at midnight does not use the next
+function getBookingDates(slot: PolicySlot): string[] {
+  const lastDate =
+    slot.endDate !== slot.startDate && slot.endTime === '00:00'
+      ? addDays(slot.endDate, -1)
+      : slot.endDate;
+  const dates: string[] = [];
+  for (let date = slot.startDate; date <= lastDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * The time a booking keeps the room from other bookings: its slot plus the
+ * room's setup time before it and teardown time after it.
+ */
+function getOccupiedInterval(
+  room: Room,
+  slot: Pick<Reservation, 'startAt' | 'endAt'>
+): { start: number; end: number } {
+  const { setupMinutes, teardownMinutes } = getBookingPolicy(room);
+  return {
+    start: Date.parse(slot.startAt) - setupMinutes * MINUTE_MS,
+    end: Date.parse(slot.endAt) + teardownMinutes * MINUTE_MS,
+  };
+}
+
+export function doBookingsOverlap(
+  room: Room,
+  a: Pick<Reservation, 'startAt' | 'endAt'>,
+  b: Pick<Reservation, 'startAt' | 'endAt'>
+): boolean {
+  const first = getOccupiedInterval(room, a);
+  const second = getOccupiedInterval(room, b);
+  return first.start < second.end && first.end > second.start;
+}
+
+// e.g. "10 minutes of setup and 15 minutes of teardown"
+export function describeTurnaround(room: Room): string | undefined {
+  const { setupMinutes, teardownMinutes } = getBookingPolicy(room);
+  const parts = [
+    setupMinutes > 0 ? `${formatMinutes(setupMinutes)} of setup` : undefined,
+    teardownMinutes > 0
+      ? `${formatMinutes(teardownMinutes)} of teardown`
+      : undefined,
+  ].filter((part): part is string => part !== undefined);
+
+  return parts.length > 0 ? parts.join(' and ') : undefined;
+}
+
+export function assertDurationAllowed(
+  room: Room,
+  durationMinutes: number,
+  subject: string = 'Booking'
+): void {
+  const policy = getBookingPolicy(room);
+
+  if (durationMinutes > policy.maxDurationMinutes) {
+    throw policyError(
+      'maxDurationMinutes',
+      `${subject} duration cannot exceed ${formatMinutes(policy.maxDurationMinutes)}`
+    );
+  }
+  if (durationMinutes < policy.minDurationMinutes) {
+    throw policyError(
+      'minDurationMinutes',
+      `${subject} must be at least ${formatMinutes(policy.minDurationMinutes)} long`
+    );
+  }
+}
+
+/**
+ * Checks a resolved slot, expressed in the room's time zone, against the
+ * room's booking policy. Reservations that overlap the slot, setup and
+ * teardown included, are left to the conflict checks, so they do not count
+ * towards the per-user limit.
+ */
+export function assertBookingPolicy(
+  room: Room,
+  slot: PolicySlot,
+  { userId, excludeReservationIds = [] }: PolicyCheckOptions = {}
+): void {
+  const policy = getBookingPolicy(room);
+
+  assertDurationAllowed(
+    room,
+    minutesBetween(new Date(slot.startAt), new Date(slot.endAt))
+  );
+
+  const granularity = policy.slotGranularityMinutes;
+  if (
+    timeToMinutes(slot.startTime) % granularity !== 0 ||
+    timeToMinutes(slot.endTime) % granularity !== 0
+  ) {
+    throw policyError(
+      'slotGranularityMinutes',
+      `Bookings in ${room.name} must start and end on a ${granularity}-minute boundary`
+    );
+  }
+
+  const dates = getBookingDates(slot);
+
+  const { bookableWeekdays } = policy;
+  if (
+    bookableWeekdays &&
+    dates.some((date) => !bookableWeekdays.includes(getWeekday(date)))
+  ) {
+    throw policyError(
+      'bookableWeekdays',
+      `${room.name} can only be booked on ${bookableWeekdays.join(', ')}`
+    );
+  }
+
+  // A booking that ends at midnight still fits inside hours ending at 24:00
+  const { bookableHours } = policy;
+  const endsAtMidnight =
+    slot.endTime === '00:00' && slot.endDate === addDays(slot.startDate, 1);
+  const endTime = endsAtMidnight ? '24:00' : slot.endTime;
+  if (
+    bookableHours &&
+    ((slot.endDate !== slot.startDate && !endsAtMidnight) ||
+      slot.startTime < bookableHours.start ||
+      endTime > bookableHours.end)
+  ) {
+    throw policyError(
+      'bookableHours',
+      `${room.name} can only be booked between ${bookableHours.start} and ${bookableHours.end}`
+    );
+  }
+
+  const blackoutDate = dates.find((date) =>
+    policy.blackoutDates?.includes(date)
+  );
+  if (blackoutDate) {
+    throw policyError(
+      'blackoutDates',
+      `${room.name} cannot be booked on ${blackoutDate}`
+    );
+  }
+
+  if (policy.maxDaysInAdvance !== undefined) {
+    const lastDate = addDays(getTodayInRoom(room), policy.maxDaysInAdvance);
+    if (slot.startDate > lastDate) {
+      throw policyError(
+        'maxDaysInAdvance',
+        `${room.name} can be booked at most ${policy.maxDaysInAdvance} days in advance, up to ${lastDate}`
+      );
+    }
+  }
+
+  if (userId !== undefined && policy.maxActiveBookingsPerUser !== undefined) {
+    const now = Date.now();
+    const active = reservationRepository
+      .findByUserId(userId)
+      .filter(
+        (res) =>
+          res.roomId === room.roomId &&
+          res.status === 'confirmed' &&
+          Date.parse(res.endAt) > now &&
+          !excludeReservationIds.includes(res.reservationId) &&
+          !doBookingsOverlap(room, res, slot)
+      );
+    if (active.length >= policy.maxActiveBookingsPerUser) {
+      throw policyError(
+        'maxActiveBookingsPerUser',
+        `You can have at most ${policy.maxActiveBookingsPerUser} upcoming bookings in ${room.name}`
+      );
+    }
+  }
+}
+
+export function isAllowedByPolicy(room: Room, slot: PolicySlot): boolean {
+  try {
+    assertBookingPolicy(room, slot);
+    return true;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * The part of `date` in which the room's policy allows bookings, in
+ * minutes from midnight in the room's time zone, or `undefined` when the
+ * whole day is closed.
+ */
+export function getBookableRange(
+  room: Room,
+  date: string
+): { start: number; end: number } | undefined {
+  const policy = getBookingPolicy(room);
+
+  if (
+    (policy.bookableWeekdays &&
+      !policy.bookableWeekdays.includes(getWeekday(date))) ||
+    policy.blackoutDates?.includes(date) ||
+    (policy.maxDaysInAdvance !== undefined &&
+      date > addDays(getTodayInRoom(room), policy.maxDaysInAdvance))
+  ) {
+    return undefined;
+  }
+
+  if (!policy.bookableHours) {
+    return { start: 0, end: DAY_MINUTES };
+  }
+
+  return {
+    start: timeToMinutes(policy.bookableHours.start),
+    end: timeToMinutes(policy.bookableHours.end),
+  };
+}
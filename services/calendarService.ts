@@ -0,0 +1,85 @@
+import { Reservation, Room } from '../types';
+import { reservationRepository } from '../models/reservation';
+import { roomRepository } from '../models/room';
+import { userRepository } from '../models/user';
+import { NotFoundError } from '../errors/ApiError';
+import { findInvitations } from './reservationService';
+import { CalendarEvent, renderCalendar, toEventUid } from '../utils/ical';
+import logger from '../utils/logger';
+
+function compareByStart(a: Reservation, b: Reservation): number {
+  return Date.parse(a.startAt) - Date.parse(b.startAt);
+}
+
+function isConfirmed(reservation: Reservation): boolean {
+  return reservation.status === 'confirmed';
+}
+
+function formatLocation(room: Room): string {
+  return `${room.name}, ${room.building} floor ${room.floor}`;
+}
+
+function toCalendarEvent(
+  reservation: Reservation,
+  summary: string,
+  room: Room | undefined
+): CalendarEvent {
+  return {
+    uid: toEventUid(reservation.reservationId),
+    startAt: new Date(reservation.startAt),
+    endAt: new Date(reservation.endAt),
+    summary,
+    location: room ? formatLocation(room) : undefined,
+    description: `Reservation ${reservation.reservationId}`,
+  };
+}
+
+export function getRoomCalendar(roomId: string): string {
+  const room = roomRepository.findById(roomId);
+  if (!room) {
+    throw new NotFoundError(`Room '${roomId}' not found`);
+  }
+
+  const events = reservationRepository
+    .findByRoomId(roomId)
+    .filter(isConfirmed)
+    .sort(compareByStart)
+    .map((reservation) => {
+      const owner = userRepository.findById(reservation.userId);
+      return toCalendarEvent(
+        reservation,
+        `Reserved by ${owner?.name || 'Unknown User'}`,
+        room
+      );
+    });
+
+  logger.debug('Rendered room calendar', { roomId, events: events.length });
+
+  return renderCalendar(room.name, events);
+}
+
+export function getUserCalendar(userId: string): string {
+  const user = userRepository.findById(userId);
+  if (!user) {
+    throw new NotFoundError(`User '${userId}' not found`);
+  }
+
+  const events = [
+    ...reservationRepository.findByUserId(userId),
+    ...findInvitations(userId),
+  ]
+    .filter(isConfirmed)
+    .sort(compareByStart)
+    .map((reservation) => {
+      const room = roomRepository.findById(reservation.roomId);
+      return toCalendarEvent(
+        reservation,
+        room?.name ?? reservation.roomId,
+        room
+      );
+    });
+
+  logger.debug('Rendered user calendar', { userId, events: events.length });
+
+  return renderCalendar(`${user.name} - Reservations`, events);
+}
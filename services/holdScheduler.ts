@@ -0,0 +1,28 @@
+import config from '../utils/config';
+import logger from '../utils/logger';
+import { purgeExpiredHolds } from './holdService';
+
+/**
+ * Purges expired holds every HOLD_CHECK_INTERVAL_SECONDS, handing their
+ * time to the waitlist. Returns a function that stops the scheduler.
+ */
+export function startHoldScheduler(
+  intervalSeconds: number = config.HOLD_CHECK_INTERVAL_SECONDS
+): () => void {
+  const timer = setInterval(() => {
+    try {
+      purgeExpiredHolds();
+    } catch (error) {
+      logger.error('Failed to purge expired holds', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, intervalSeconds * 1000);
+
+  // The scheduler alone should not keep the process alive
+  timer.unref();
+
+  logger.info('Hold scheduler started', { intervalSeconds });
+
+  return () => clearInterval(timer);
+}
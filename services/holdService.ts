@@ -0,0 +1,199 @@
+import {
+  Actor,
+  ConfirmHoldRequest,
+  Hold,
+  PlaceHoldRequest,
+  Reservation,
+} from '../types';
+import { holdRepository } from '../models/hold';
+import {
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../errors/ApiError';
+import {
+  assertSlotAvailable,
+  createNewReservation,
+  expressInTimeZone,
+} from './reservationService';
+import { fillFreedSlots } from './waitlistService';
+import config from '../utils/config';
+import logger from '../utils/logger';
+
+interface ConfirmHoldResult {
+  reservation: Reservation;
+  wasUpdated: boolean;
+}
+
+function isExpired(hold: Hold, now: Date = new Date()): boolean {
+  return Date.parse(hold.expiresAt) <= now.getTime();
+}
+
+function findHold(holdId: string, actor: Actor): Hold {
+  const hold = holdRepository.findById(holdId);
+  if (!hold || isExpired(hold)) {
+    throw new NotFoundError(`Hold '${holdId}' not found or has expired`);
+  }
+
+  if (hold.userId !== actor.userId && actor.role !== 'admin') {
+    throw new ForbiddenError('You can only manage your own holds');
+  }
+
+  // Offer holds end with their waitlist offer, so they are managed there
+  if (hold.waitlistEntryId !== undefined) {
+    throw new ValidationError(
+      `Hold '${holdId}' keeps a waitlist offer open. Claim or leave waitlist entry '${hold.waitlistEntryId}' instead.`
+    );
+  }
+
+  return hold;
+}
+
+/**
+ * Removes holds past their expiry and hands their time to the waitlist.
+ * Expired holds already stop blocking the room, but entries waiting on one
+ * are only booked or offered the slot once it is purged. Run periodically
+ * by the hold scheduler and before each new hold.
+ */
+export function purgeExpiredHolds(now: Date = new Date()): Hold[] {
+  const expired = holdRepository
+    .findAll()
+    .filter((hold) => isExpired(hold, now));
+
+  for (const hold of expired) {
+    holdRepository.delete(hold.holdId);
+  }
+
+  if (expired.length > 0) {
+    logger.info('Expired holds purged', {
+      holdIds: expired.map((hold) => hold.holdId),
+    });
+    fillFreedSlots(expired, now);
+  }
+
+  return expired;
+}
+
+/**
+ * Holds a slot for HOLD_TTL_SECONDS so the user can finish filling in the
+ * booking. A user has one hold at a time: placing another releases the
+ * previous one.
+ */
+export function placeHold(data: PlaceHoldRequest, userId: string): Hold {
+  purgeExpiredHolds();
+
+  const { room, slot } = assertSlotAvailable(data, userId);
+
+  // Holds backing waitlist offers stay until the offer is claimed or lapses
+  const previousHolds = holdRepository
+    .findByUserId(userId)
+    .filter((previous) => previous.waitlistEntryId === undefined);
+  for (const previous of previousHolds) {
+    holdRepository.delete(previous.holdId);
+  }
+
+  const now = new Date();
+  const hold = holdRepository.create({
+    userId,
+    roomId: room.roomId,
+    ...slot,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(
+      now.getTime() + config.HOLD_TTL_SECONDS * 1000
+    ).toISOString(),
+  });
+
+  logger.info('Hold placed', {
+    holdId: hold.holdId,
+    roomId: hold.roomId,
+    startAt: hold.startAt,
+    endAt: hold.endAt,
+    expiresAt: hold.expiresAt,
+    userId,
+  });
+
+  // Whatever the new hold does not cover goes to the waitlist
+  fillFreedSlots(previousHolds);
+
+  return hold;
+}
+
+/**
+ * Books the held slot with the given details and releases the hold.
+ */
+export function confirmHold(
+  holdId: string,
+  details: ConfirmHoldRequest,
+  actor: Actor
+): ConfirmHoldResult {
+  const hold = findHold(holdId, actor);
+  if (hold.userId !== actor.userId) {
+    throw new ForbiddenError('Only the user who placed a hold can confirm it');
+  }
+
+  const { roomId, startDate, startTime, endTime, timeZone } = hold;
+  const result = createNewReservation(
+    { roomId, startDate, startTime, endTime, timeZone, ...details },
+    hold.userId
+  );
+
+  holdRepository.delete(holdId);
+  if (result.previous) {
+    fillFreedSlots([result.previous]);
+  }
+
+  logger.info('Hold confirmed', {
+    holdId,
+    reservationId: result.reservation.reservationId,
+  });
+
+  return result;
+}
+
+export function releaseHold(holdId: string, actor: Actor): void {
+  const hold = findHold(holdId, actor);
+
+  holdRepository.delete(holdId);
+
+  logger.info('Hold released', { holdId, userId: actor.userId });
+
+  fillFreedSlots([hold]);
+}
+
+export function convertRoomHoldsToTimeZone(
+  roomId: string,
+  timeZone: string
+): void {
+  const holds = holdRepository.findByRoomId(roomId);
+
+  for (const hold of holds) {
+    holdRepository.update(hold.holdId, expressInTimeZone(hold, timeZone));
+  }
+
+  logger.info('Converted room holds to new time zone', {
+    roomId,
+    timeZone,
+    count: holds.length,
+  });
+}
+
+/**
+ * Drops every hold on a room that is being deleted. Their time is not given
+ * to the waitlist, since the room's entries are closed with it.
+ */
+export function purgeRoomHolds(roomId: string): Hold[] {
+  const holds = holdRepository.findByRoomId(roomId);
+
+  for (const hold of holds) {
+    holdRepository.delete(hold.holdId);
+  }
+
+  if (holds.length > 0) {
+    logger.info('Purged holds for room', {
+      roomId,
+      holdIds: holds.map((hold) => hold.holdId),
+    });
+  }
+
+  return holds;
+}
@@ -0,0 +1,30 @@
+import config from '../utils/config';
+import logger from '../utils/logger';
+import { releaseNoShows } from './reservationService';
+import { fillFreedSlots } from './waitlistService';
+
+/**
+ * Checks for no-show reservations every NO_SHOW_CHECK_INTERVAL_SECONDS
+ * and hands the released time to the waitlist. Returns a function that
+ * stops the scheduler.
+ */
+export function startNoShowScheduler(
+  intervalSeconds: number = config.NO_SHOW_CHECK_INTERVAL_SECONDS
+): () => void {
+  const timer = setInterval(() => {
+    try {
+      fillFreedSlots(releaseNoShows());
+    } catch (error) {
+      logger.error('Failed to release no-show reservations', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, intervalSeconds * 1000);
+
+  // The scheduler alone should not keep the process alive
+  timer.unref();
+
+  logger.info('No-show scheduler started', { intervalSeconds });
+
+  return () => clearInterval(timer);
+}
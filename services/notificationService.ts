@@ -0,0 +1,397 @@
+import {
+  AuditAction,
+  OwnConflictMode,
+  Reservation,
+  WaitlistEntry,
+} from '../types';
+import { reservationRepository } from '../models/reservation';
+import { roomRepository } from '../models/room';
+import { userRepository } from '../models/user';
+import {
+  createFileTransport,
+  createMemoryTransport,
+  MailMessage,
+  MailTransport,
+} from '../utils/mail';
+import { createSmtpTransport } from '../utils/smtp';
+import {
+  EmailTemplateName,
+  renderTemplate,
+  TemplateValues,
+} from '../utils/emailTemplates';
+import { CalendarMethod, renderCalendar, toEventUid } from '../utils/ical';
+import { toZonedDateTime } from '../utils/time';
+import config from '../utils/config';
+import logger from '../utils/logger';
+
+interface Recipient {
+  name: string;
+  email: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+// setTimeout fires immediately for delays above 2^31 - 1 ms (about 24.8 days)
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Keyed by the audit reason, which names the onOwnConflict mode used
+const OVERLAP_REASONS: Record<
+  `onOwnConflict: ${Exclude<OwnConflictMode, 'reject'>}`,
+  string
+> = {
+  'onOwnConflict: merge':
+    'A booking you made overlapped this one, so the two were combined',
+  'onOwnConflict: replace':
+    'A booking you made overlapped this one, so it was moved to the new time and details',
+};
+
+function createMailTransport(): MailTransport {
+  switch (config.MAIL_TRANSPORT) {
+    case 'file':
+      return createFileTransport(config.MAIL_DIR, config.MAIL_FROM);
+    case 'smtp':
+      return createSmtpTransport({
+        host: config.SMTP_HOST,
+        port: config.SMTP_PORT,
+        secure: config.SMTP_SECURE,
+        user: config.SMTP_USER,
+        password: config.SMTP_PASSWORD,
+        from: config.MAIL_FROM,
+        timeoutMs: config.SMTP_TIMEOUT_SECONDS * 1000,
+      });
+    case 'memory':
+      return createMemoryTransport();
+  }
+}
+
+let transport: MailTransport = createMailTransport();
+const pendingMail = new Set<Promise<void>>();
+const reminders = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Replaces the transport chosen by MAIL_TRANSPORT, e.g. with a memory
+ * transport whose outbox a test can inspect.
+ */
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+// The organizer and everyone invited who has not declined, once per address
+function getRecipients(reservation: Reservation): Recipient[] {
+  const recipients = new Map<string, Recipient>();
+  const add = (name: string, email: string | undefined): void => {
+    if (email && !recipients.has(email)) {
+      recipients.set(email, { name, email });
+    }
+  };
+
+  const organizer = userRepository.findById(reservation.userId);
+  add(organizer?.name ?? reservation.userId, organizer?.email);
+
+  for (const attendee of reservation.attendees ?? []) {
+    if (attendee.status === 'declined') {
+      continue;
+    }
+    if (attendee.userId !== undefined) {
+      const user = userRepository.findById(attendee.userId);
+      if (user?.active) {
+        add(user.name, user.email);
+      }
+    } else {
+      add(attendee.email ?? '', attendee.email);
+    }
+  }
+
+  return [...recipients.values()];
+}
+
+type Slot = Pick<
+  Reservation,
+  'startDate' | 'endDate' | 'startTime' | 'endTime' | 'timeZone'
+>;
+
+function formatWhen(reservation: Slot): string {
+  const end =
+    reservation.endDate === reservation.startDate
+      ? reservation.endTime
+      : `${reservation.endDate} ${reservation.endTime}`;
+  return `${reservation.startDate} ${reservation.startTime}-${end} (${reservation.timeZone})`;
+}
+
+function formatLocation(roomId: string): string {
+  const room = roomRepository.findById(roomId);
+  return room ? `${room.name}, ${room.building} floor ${room.floor}` : roomId;
+}
+
+function getTitle(reservation: Pick<Reservation, 'roomId' | 'title'>): string {
+  const room = roomRepository.findById(reservation.roomId);
+  return (
+    reservation.title ?? `Reservation in ${room?.name ?? reservation.roomId}`
+  );
+}
+
+function renderInvite(
+  reservation: Reservation,
+  method: CalendarMethod
+): string {
+  const title = getTitle(reservation);
+
+  return renderCalendar(
+    title,
+    [
+      {
+        uid: toEventUid(reservation.reservationId),
+        startAt: new Date(reservation.startAt),
+        endAt: new Date(reservation.endAt),
+        summary: title,
+        location: formatLocation(reservation.roomId),
+        description: reservation.description,
+        status: method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED',
+      },
+    ],
+    new Date(),
+    method
+  );
+}
+
+function dispatch(message: MailMessage, template: EmailTemplateName): void {
+  const sending = transport.send(message).then(
+    () => logger.debug('Email sent', { to: message.to, template }),
+    (error: unknown) =>
+      logger.error('Failed to send email', {
+        to: message.to,
+        template,
+        error: error instanceof Error ? error.message : String(error),
+      })
+  );
+
+  pendingMail.add(sending);
+  void sending.then(() => pendingMail.delete(sending));
+}
+
+function sendToRecipients(
+  template: EmailTemplateName,
+  reservation: Reservation,
+  values: TemplateValues,
+  method: CalendarMethod = 'PUBLISH'
+): void {
+  const recipients = getRecipients(reservation);
+  if (recipients.length === 0) {
+    return;
+  }
+
+  const organizer = userRepository.findById(reservation.userId);
+  const invite = renderInvite(reservation, method);
+  const details: TemplateValues = {
+    title: getTitle(reservation),
+    location: formatLocation(reservation.roomId),
+    when: formatWhen(reservation),
+    date: reservation.startDate,
+    startTime: reservation.startTime,
+    organizer: organizer?.name ?? 'Unknown User',
+    ...values,
+  };
+
+  for (const recipient of recipients) {
+    const { subject, text } = renderTemplate(template, {
+      ...details,
+      recipient: recipient.name,
+    });
+
+    dispatch(
+      {
+        to: recipient.email,
+        subject,
+        text,
+        attachments: [
+          {
+            filename: 'invite.ics',
+            contentType: `text/calendar; charset=utf-8; method=${method}`,
+            content: invite,
+          },
+        ],
+      },
+      template
+    );
+  }
+}
+
+export function cancelReminder(reservationId: string): void {
+  const timer = reminders.get(reservationId);
+  if (timer) {
+    clearTimeout(timer);
+    reminders.delete(reservationId);
+  }
+}
+
+/**
+ * Schedules the reminder email REMINDER_MINUTES_BEFORE the start, replacing
+ * any earlier one. Reservations booked later than that get no reminder.
+ */
+export function scheduleReminder(reservation: Reservation): void {
+  const { reservationId } = reservation;
+  cancelReminder(reservationId);
+
+  if (
+    config.REMINDER_MINUTES_BEFORE <= 0 ||
+    reservation.status !== 'confirmed'
+  ) {
+    return;
+  }
+
+  const remindAt =
+    Date.parse(reservation.startAt) -
+    config.REMINDER_MINUTES_BEFORE * MINUTE_MS;
+  const delayMs = remindAt - Date.now();
+  if (delayMs < 0) {
+    return;
+  }
+
+  const timer = setTimeout(
+    () => {
+      reminders.delete(reservationId);
+
+      // Waits too long for one timer are covered by a chain of them
+      if (delayMs > MAX_TIMER_DELAY_MS) {
+        const latest = reservationRepository.findById(reservationId);
+        if (latest) {
+          scheduleReminder(latest);
+        }
+        return;
+      }
+
+      sendReminder(reservationId);
+    },
+    Math.min(delayMs, MAX_TIMER_DELAY_MS)
+  );
+
+  // Pending reminders should not keep the process alive
+  timer.unref();
+  reminders.set(reservationId, timer);
+}
+
+export function hasScheduledReminder(reservationId: string): boolean {
+  return reminders.has(reservationId);
+}
+
+/**
+ * Sends the reminder for a reservation, unless it is no longer confirmed
+ * or has already started.
+ */
+export function sendReminder(reservationId: string): void {
+  const reservation = reservationRepository.findById(reservationId);
+  if (!reservation || reservation.status !== 'confirmed') {
+    return;
+  }
+
+  const minutesLeft = Math.round(
+    (Date.parse(reservation.startAt) - Date.now()) / MINUTE_MS
+  );
+  if (minutesLeft <= 0) {
+    return;
+  }
+
+  sendToRecipients('reminder', reservation, { minutes: String(minutesLeft) });
+}
+
+/**
+ * Schedules reminders for every upcoming reservation, e.g. after a restart
+ * with file storage. Returns the number of reminders scheduled.
+ */
+export function scheduleUpcomingReminders(): number {
+  for (const reservation of reservationRepository.findAll()) {
+    scheduleReminder(reservation);
+  }
+
+  logger.info('Reservation reminders scheduled', { count: reminders.size });
+
+  return reminders.size;
+}
+
+/**
+ * Emails the organizer and attendees about a change recorded in the audit
+ * trail, and keeps the reservation's reminder in step with it.
+ */
+export function notifyReservationChange(
+  action: AuditAction,
+  before: Reservation | null,
+  after: Reservation | null,
+  reason?: string
+): void {
+  const reservation = (after ?? before) as Reservation;
+
+  switch (action) {
+    case 'created':
+    case 'restored':
+      sendToRecipients('confirmation', reservation, {});
+      scheduleReminder(reservation);
+      break;
+
+    case 'updated-by-overlap':
+    case 'rescheduled': {
+      const moved =
+        before !== null &&
+        (before.startAt !== reservation.startAt ||
+          before.endAt !== reservation.endAt ||
+          before.roomId !== reservation.roomId);
+
+      sendToRecipients('change', reservation, {
+        previousWhen: moved ? formatWhen(before) : undefined,
+        previousLocation: moved ? formatLocation(before.roomId) : undefined,
+        reason:
+          action === 'updated-by-overlap' && reason && reason in OVERLAP_REASONS
+            ? OVERLAP_REASONS[reason as keyof typeof OVERLAP_REASONS]
+            : reason,
+      });
+      scheduleReminder(reservation);
+      break;
+    }
+
+    case 'cancelled':
+    case 'no-show':
+      cancelReminder(reservation.reservationId);
+      sendToRecipients('cancellation', reservation, { reason }, 'CANCEL');
+      break;
+
+    case 'checked-in':
+      cancelReminder(reservation.reservationId);
+      break;
+  }
+}
+
+/**
+ * Tells a waitlisted user that their slot is free and until when they can
+ * claim it.
+ */
+export function notifyWaitlistOffer(entry: WaitlistEntry): void {
+  const user = userRepository.findById(entry.userId);
+  if (!user?.email || !entry.claimBy) {
+    return;
+  }
+
+  const claimBy = toZonedDateTime(new Date(entry.claimBy), entry.timeZone);
+  const { subject, text } = renderTemplate('waitlist-offer', {
+    recipient: user.name,
+    title: getTitle(entry),
+    location: formatLocation(entry.roomId),
+    when: formatWhen(entry),
+    date: entry.startDate,
+    claimBy: `${claimBy.date} ${claimBy.time} (${entry.timeZone})`,
+  });
+
+  dispatch({ to: user.email, subject, text }, 'waitlist-offer');
+}
+
+/**
+ * Resolves once every email queued so far has been handed to the transport.
+ */
+export async function drainNotifications(): Promise<void> {
+  await Promise.all([...pendingMail]);
+}
+
+export function resetNotifications(): void {
+  for (const timer of reminders.values()) {
+    clearTimeout(timer);
+  }
+  reminders.clear();
+  transport = createMailTransport();
+}
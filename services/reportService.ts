@@ -0,0 +1,59 @@
+import { NoShowReportEntry, Reservation } from '../types';
+import { reservationRepository } from '../models/reservation';
+import { userRepository } from '../models/user';
+import logger from '../utils/logger';
+
+interface ReportDateRange {
+  from?: string;
+  to?: string;
+}
+
+function isInDateRange(
+  reservation: Reservation,
+  { from, to }: ReportDateRange
+): boolean {
+  return (
+    (from === undefined || reservation.startDate >= from) &&
+    (to === undefined || reservation.startDate <= to)
+  );
+}
+
+/**
+ * Counts released no-show reservations per user, most no-shows first.
+ * Users without no-shows in the range are left out.
+ */
+export function getNoShowReport(range: ReportDateRange): NoShowReportEntry[] {
+  const byUser = new Map<string, NoShowReportEntry>();
+
+  const noShows = reservationRepository
+    .findAll()
+    .filter((res) => res.status === 'no-show' && isInDateRange(res, range));
+
+  for (const reservation of noShows) {
+    const entry = byUser.get(reservation.userId);
+    if (entry) {
+      entry.noShowCount += 1;
+      if (reservation.startDate > entry.lastNoShowDate) {
+        entry.lastNoShowDate = reservation.startDate;
+      }
+      continue;
+    }
+
+    const user = userRepository.findById(reservation.userId);
+    byUser.set(reservation.userId, {
+      userId: reservation.userId,
+      username: user?.username ?? 'unknown',
+      name: user?.name ?? 'Unknown User',
+      noShowCount: 1,
+      lastNoShowDate: reservation.startDate,
+    });
+  }
+
+  const report = [...byUser.values()].sort(
+    (a, b) => b.noShowCount - a.noShowCount || a.name.localeCompare(b.name)
+  );
+
+  logger.debug('Built no-show report', { range, users: report.length });
+
+  return report;
+}
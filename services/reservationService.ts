@@ -1,14 +1,34 @@
-import { Reservation, CreateReservationRequest } from '../types';
+import { v4 as uuidv4 } from 'uuid';
 import {
-  createReservation,
-  deleteReservation,
-  findReservationById,
-  findReservationsByRoomAndDateRange,
-  getReservationsByRoomId,
-  updateReservation,
-} from '../models/reservation';
-import { findRoomById, roomExists } from '../models/room';
-import { findUserById, userExists } from '../models/user';
+  Actor,
+  Attendee,
+  AttendeeInput,
+  AuditAction,
+  AvailabilityWindow,
+  ConflictDetails,
+  DayAvailability,
+  Hold,
+  OccurrenceConflict,
+  OwnConflictMode,
+  Page,
+  PageRequest,
+  RecurrenceRule,
+  Reservation,
+  ReservationFilters,
+  Room,
+  RoomAttributes,
+  RsvpResponse,
+  SeriesScope,
+  SlotSuggestions,
+  SuggestedSlot,
+  CreateReservationRequest,
+  UpdateReservationRequest,
+  WebhookEventType,
+} from '../types';
+import { reservationRepository } from '../models/reservation';
+import { holdRepository } from '../models/hold';
+import { roomRepository } from '../models/room';
+import { userRepository } from '../models/user';
 import {
   ConflictError,
   ForbiddenError,
@@ -16,22 +36,69 @@ import {
   ValidationError,
 } from '../errors/ApiError';
 import logger from '../utils/logger';
+import config from '../utils/config';
+import { recordReservationEvent, SYSTEM_ACTOR_ID } from './auditService';
+import { publishWebhookEvent } from './webhookService';
+import { notifyReservationChange } from './notificationService';
+import {
+  assertBookingPolicy,
+  assertDurationAllowed,
+  describeTurnaround,
+  doBookingsOverlap,
+  getBookableRange,
+  getBookingPolicy,
+  isAllowedByPolicy,
+} from './bookingPolicyService';
+import { expandRecurrence, MAX_OCCURRENCES } from '../utils/recurrence';
+import { paginate } from '../utils/pagination';
+import {
+  addDays,
+  fromZonedDateTime,
+  minutesBetween,
+  timeToMinutes,
+  toZonedDateTime,
+} from '../utils/time';
+import {
+  createReservationSchema,
+  getFirstZodError,
+} from '../validators/reservationValidator';
 
 interface CreateReservationResult {
   reservation: Reservation;
   wasUpdated: boolean;
+  // The user's existing reservation as it was before being replaced or merged
+  previous?: Reservation;
+}
+
+// `previous` holds the reservations as they were before the update, so the
+// time they no longer cover can be handed to the waitlist
+interface UpdateReservationResult {
+  reservation: Reservation;
+  previous: Reservation;
+}
+
+interface UpdateSeriesResult {
+  reservations: Reservation[];
+  previous: Reservation[];
 }
 
-function isTimeSlotInPast(startDate: string, startTime: string): boolean {
-  const dateTimeString = `${startDate}T${startTime}:00`;
-  const slotTime = new Date(dateTimeString);
-  const now = new Date();
-  return slotTime <= now;
+export interface RecurringReservationResult {
+  seriesId: string;
+  reservations: Reservation[];
+  conflicts: OccurrenceConflict[];
 }
 
-function timeToMinutes(time: string): number {
-  const [hours, minutes] = time.split(':').map(Number);
-  return hours * 60 + minutes;
+interface ReservationDetails {
+  title?: string;
+  description?: string;
+  attendees?: Attendee[];
+}
+
+const MINUTE_MS = 60 * 1000;
+const MAX_SUGGESTION_SEARCH_DAYS = 366;
+
+function isInstantInPast(instant: string): boolean {
+  return new Date(instant) <= new Date();
 }
 
 function minutesToTime(minutes: number): string {
@@ -52,27 +119,58 @@ function calculateEndDate(startDate: string, startTime: string, endTime: string)
 }
 
 function getPreviousDate(date: string): string {
-  const d = new Date(date);
-  d.setDate(d.getDate() - 1);
-  return d.toISOString().split('T')[0];
+  return addDays(date, -1);
 }
 
 function getNextDate(date: string): string {
-  const d = new Date(date);
-  d.setDate(d.getDate() + 1);
-  return d.toISOString().split('T')[0];
+  return addDays(date, 1);
+}
+
+function isDateInPast(date: string, timeZone: string): boolean {
+  return date < toZonedDateTime(new Date(), timeZone).date;
 }
 
-function isDateInPast(date: string): boolean {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const checkDate = new Date(date);
-  return checkDate < today;
+// Released no-shows free the room just like a cancellation does
+const WEBHOOK_EVENTS: Record<AuditAction, WebhookEventType> = {
+  created: 'reservation.created',
+  'updated-by-overlap': 'reservation.updated',
+  rescheduled: 'reservation.updated',
+  cancelled: 'reservation.cancelled',
+  restored: 'reservation.updated',
+  'checked-in': 'reservation.updated',
+  'no-show': 'reservation.cancelled',
+};
+
+/**
+ * Records a change in the audit trail, notifies webhooks subscribed to the
+ * matching reservation event and emails the people taking part.
+ */
+function recordChange(
+  action: AuditAction,
+  actorId: string,
+  before: Reservation | null,
+  after: Reservation | null,
+  reason?: string
+): void {
+  recordReservationEvent(action, actorId, before, after, reason);
+  publishWebhookEvent(WEBHOOK_EVENTS[action], {
+    action,
+    actorId,
+    reason,
+    reservation: after ?? before,
+    previous: before,
+  });
+  notifyReservationChange(action, before, after, reason);
 }
 
-interface SlotSuggestion {
-  time: string;
-  date?: string;
+export interface ReservationSlot {
+  startDate: string;
+  endDate: string;
+  startTime: string;
+  endTime: string;
+  timeZone: string;
+  startAt: string;
+  endAt: string;
 }
 
 interface BookedInterval {
@@ -80,23 +178,54 @@ interface BookedInterval {
   end: number;
 }
 
+// Minutes from midnight on `date` to `time` on `otherDate`, which may be
+// a neighbouring day
+function minutesFromMidnight(
+  date: string,
+  otherDate: string,
+  time: string
+): number {
+  const days = Math.round(
+    (Date.parse(otherDate) - Date.parse(date)) / (24 * 60 * MINUTE_MS)
+  );
+  return days * 24 * 60 + timeToMinutes(time);
+}
+
 function getBookedIntervalsOnDate(
   roomId: string,
-  date: string
+  date: string,
+  excludeReservationId?: string
 ): BookedInterval[] {
-  const reservations = findReservationsByRoomAndDateRange(roomId, date, date);
+  // A new booking needs the room's setup and teardown time between it and
+  // each existing one, which can reach into this day from the days around it
+  const room = roomRepository.findById(roomId);
+  const { setupMinutes, teardownMinutes } = room
+    ? getBookingPolicy(room)
+    : { setupMinutes: 0, teardownMinutes: 0 };
+  const padding = setupMinutes + teardownMinutes;
+  const firstDate = getPreviousDate(date);
+  const lastDate = getNextDate(date);
+
+  const reservations = reservationRepository
+    .findByRoomAndDateRange(roomId, firstDate, lastDate)
+    .filter((res) => res.reservationId !== excludeReservationId);
+  const holds = findActiveHolds(roomId).filter(
+    (hold) => hold.startDate <= lastDate && hold.endDate >= firstDate
+  );
   const intervals: BookedInterval[] = [];
 
-  for (const res of reservations) {
-    const startMin = timeToMinutes(res.startTime);
-    const endMin = timeToMinutes(res.endTime);
+  for (const res of [...reservations, ...holds]) {
+    const start = Math.max(
+      minutesFromMidnight(date, res.startDate, res.startTime) - padding,
+      0
+    );
+    const end = Math.min(
+      minutesFromMidnight(date, res.endDate, res.endTime) + padding,
+      24 * 60
+    );
 
-    if (res.startDate === date && res.endDate === date) {
-      intervals.push({ start: startMin, end: endMin });
-    } else if (res.startDate === date && res.endDate !== date) {
-      intervals.push({ start: startMin, end: 24 * 60 });
-    } else if (res.startDate !== date && res.endDate === date) {
-      intervals.push({ start: 0, end: endMin });
+    if (start < end) {
+      intervals.push({ start, end });
     }
   }
 
@@ -107,9 +236,22 @@ function getBookedIntervalsOnDate(
 function findAvailableWindowsOnDate(
   roomId: string,
   date: string,
-  durationMinutes: number
+  durationMinutes: number,
+  excludeReservationId?: string
 ): Array<{ start: number; end: number }> {
-  const bookedIntervals = getBookedIntervalsOnDate(roomId, date);
+  const room = roomRepository.findById(roomId);
+  const bookable = room
+    ? getBookableRange(room, date)
+    : { start: 0, end: 24 * 60 };
+  if (!bookable) {
+    return [];
+  }
+
+  const bookedIntervals = getBookedIntervalsOnDate(
+    roomId,
+    date,
+    excludeReservationId
+  );
   const windows: Array<{ start: number; end: number }> = [];
 
   const mergedIntervals: BookedInterval[] = [];
@@ -142,52 +284,91 @@ function findAvailableWindowsOnDate(
     }
   }
 
-  return windows;
+  // Keep only the part of each gap the room's policy lets users book
+  const granularity = room ? getBookingPolicy(room).slotGranularityMinutes : 1;
+  return windows
+    .map((window) => ({
+      start:
+        Math.ceil(Math.max(window.start, bookable.start) / granularity) *
+        granularity,
+      end:
+        Math.floor(Math.min(window.end, bookable.end) / granularity) *
+        granularity,
+    }))
+    .filter((window) => window.end - window.start >= durationMinutes);
+}
+
+function toSuggestedSlot(
+  date: string,
+  startMinutes: number,
+  durationMinutes: number,
+  timeZone: string
+): SuggestedSlot {
+  const endMinutes = startMinutes + durationMinutes;
+  return {
+    startDate: date,
+    startTime: minutesToTime(startMinutes),
+    endDate: endMinutes >= 24 * 60 ? getNextDate(date) : date,
+    endTime: minutesToTime(endMinutes),
+    timeZone,
+  };
 }
 
 function findNearestAvailableSlots(
   roomId: string,
   date: string,
   attemptedStartMinutes: number,
-  durationMinutes: number
-): { before: SlotSuggestion | null; after: SlotSuggestion | null } {
-  let before: SlotSuggestion | null = null;
-  let after: SlotSuggestion | null = null;
-
-  const sameDayWindows = findAvailableWindowsOnDate(roomId, date, durationMinutes);
+  durationMinutes: number,
+  timeZone: string,
+  excludeReservationId?: string
+): SlotSuggestions {
+  let before: SuggestedSlot | null = null;
+  let after: SuggestedSlot | null = null;
+
+  const sameDayWindows = findAvailableWindowsOnDate(
+    roomId,
+    date,
+    durationMinutes,
+    excludeReservationId
+  );
 
   for (const window of sameDayWindows) {
     if (window.end <= attemptedStartMinutes && window.end - window.start >= durationMinutes) {
       const latestStart = window.end - durationMinutes;
-      const endTime = minutesToTime(latestStart + durationMinutes);
-      before = { time: `${minutesToTime(latestStart)}-${endTime}` };
+      before = toSuggestedSlot(date, latestStart, durationMinutes, timeZone);
     }
   }
 
   for (const window of sameDayWindows) {
     if (window.start > attemptedStartMinutes) {
-      const endTime = minutesToTime(window.start + durationMinutes);
-      after = { time: `${minutesToTime(window.start)}-${endTime}` };
+      after = toSuggestedSlot(date, window.start, durationMinutes, timeZone);
       break;
     }
   }
 
   if (!before) {
     let searchDate = date;
-    while (true) {
+    // Booking far ahead would otherwise walk back through every closed day
+    for (let day = 0; day < MAX_SUGGESTION_SEARCH_DAYS; day++) {
       searchDate = getPreviousDate(searchDate);
-      if (isDateInPast(searchDate)) {
+      if (isDateInPast(searchDate, timeZone)) {
         break;
       }
-      const dayWindows = findAvailableWindowsOnDate(roomId, searchDate, durationMinutes);
+      const dayWindows = findAvailableWindowsOnDate(
+        roomId,
+        searchDate,
+        durationMinutes,
+        excludeReservationId
+      );
       if (dayWindows.length > 0) {
         const lastWindow = dayWindows[dayWindows.length - 1];
         const latestStart = lastWindow.end - durationMinutes;
-        const endTime = minutesToTime(latestStart + durationMinutes);
-        before = {
-          time: `${minutesToTime(latestStart)}-${endTime}`,
-          date: searchDate,
-        };
+        before = toSuggestedSlot(
+          searchDate,
+          latestStart,
+          durationMinutes,
+          timeZone
+        );
         break;
       }
     }
@@ -195,16 +376,22 @@ function findNearestAvailableSlots(
 
   if (!after) {
     let searchDate = date;
-    while (true) {
+    // A booking policy can close every later day, so give up after a year
+    for (let day = 0; day < MAX_SUGGESTION_SEARCH_DAYS; day++) {
       searchDate = getNextDate(searchDate);
-      const dayWindows = findAvailableWindowsOnDate(roomId, searchDate, durationMinutes);
+      const dayWindows = findAvailableWindowsOnDate(
+        roomId,
+        searchDate,
+        durationMinutes,
+        excludeReservationId
+      );
       if (dayWindows.length > 0) {
-        const firstWindow = dayWindows[0];
-        const endTime = minutesToTime(firstWindow.start + durationMinutes);
-        after = {
-          time: `${minutesToTime(firstWindow.start)}-${endTime}`,
-          date: searchDate,
-        };
+        after = toSuggestedSlot(
+          searchDate,
+          dayWindows[0].start,
+          durationMinutes,
+          timeZone
+        );
         break;
       }
     }
@@ -213,259 +400,1649 @@ function findNearestAvailableSlots(
   return { before, after };
 }
 
-function formatSlotSuggestion(slot: SlotSuggestion): string {
-  if (slot.date) {
-    return `${slot.date} at ${slot.time}`;
+function getEarliestBookableMinute(date: string, timeZone: string): number {
+  const now = toZonedDateTime(new Date(), timeZone);
+  if (date > now.date) {
+    return 0;
+  }
+  return timeToMinutes(now.time) + 1;
+}
+
+function toAvailabilityWindow(
+  date: string,
+  window: { start: number; end: number },
+  timeZone: string
+): AvailabilityWindow {
+  return {
+    startDate: date,
+    startTime: minutesToTime(window.start),
+    endDate: window.end >= 24 * 60 ? getNextDate(date) : date,
+    endTime: minutesToTime(window.end),
+    timeZone,
+    durationMinutes: window.end - window.start,
+  };
+}
+
+function formatSlotTime(slot: SuggestedSlot): string {
+  return `${slot.startTime}-${slot.endTime}`;
+}
+
+function formatSlotSuggestion(slot: SuggestedSlot, date: string): string {
+  if (slot.startDate !== date) {
+    return `${slot.startDate} at ${formatSlotTime(slot)}`;
   }
-  return slot.time;
+  return formatSlotTime(slot);
 }
 
 function buildSuggestionMessage(
-  before: SlotSuggestion | null,
-  after: SlotSuggestion | null
+  { before, after }: SlotSuggestions,
+  date: string
 ): string {
-  const beforeOnDifferentDay = before?.date !== undefined;
-  const afterOnDifferentDay = after?.date !== undefined;
+  const beforeOnDifferentDay = before !== null && before.startDate !== date;
+  const afterOnDifferentDay = after !== null && after.startDate !== date;
 
   if (before && after) {
     if (!beforeOnDifferentDay && !afterOnDifferentDay) {
-      return ` Nearest available slots: ${before.time} (earlier) or ${after.time} (later).`;
+      return ` Nearest available slots: ${formatSlotTime(before)} (earlier) or ${formatSlotTime(after)} (later).`;
     } else {
-      return ` Nearest available slots: ${formatSlotSuggestion(before)} or ${formatSlotSuggestion(after)}.`;
+      return ` Nearest available slots: ${formatSlotSuggestion(before, date)} or ${formatSlotSuggestion(after, date)}.`;
     }
   } else if (before) {
-    return ` Nearest available slot: ${formatSlotSuggestion(before)}.`;
+    return ` Nearest available slot: ${formatSlotSuggestion(before, date)}.`;
   } else if (after) {
-    return ` Nearest available slot: ${formatSlotSuggestion(after)}.`;
+    return ` Nearest available slot: ${formatSlotSuggestion(after, date)}.`;
   }
   return ' No available slots found.';
 }
 
-function dateTimeToAbsoluteMinutes(date: string, time: string): number {
-  const d = new Date(date);
-  const daysSinceEpoch = Math.floor(d.getTime() / (24 * 60 * 60 * 1000));
-  return daysSinceEpoch * 24 * 60 + timeToMinutes(time);
+function toInstant(date: string, time: string, timeZone: string): Date {
+  const instant = fromZonedDateTime(date, time, timeZone);
+  if (!instant) {
+    throw new ValidationError(
+      `${time} on ${date} does not exist in ${timeZone} because of a daylight saving time change. Please choose another time.`
+    );
+  }
+  return instant;
 }
 
-function doReservationsOverlap(
-  res1StartDate: string,
-  res1EndDate: string,
-  res1StartTime: string,
-  res1EndTime: string,
-  res2StartDate: string,
-  res2EndDate: string,
-  res2StartTime: string,
-  res2EndTime: string
-): boolean {
-  const res1Start = dateTimeToAbsoluteMinutes(res1StartDate, res1StartTime);
-  const res1End = dateTimeToAbsoluteMinutes(res1EndDate, res1EndTime);
-  const res2Start = dateTimeToAbsoluteMinutes(res2StartDate, res2StartTime);
-  const res2End = dateTimeToAbsoluteMinutes(res2EndDate, res2EndTime);
+function toSlot(startAt: Date, endAt: Date, timeZone: string): ReservationSlot {
+  const start = toZonedDateTime(startAt, timeZone);
+  const end = toZonedDateTime(endAt, timeZone);
+  return {
+    startDate: start.date,
+    endDate: end.date,
+    startTime: start.time,
+    endTime: end.time,
+    timeZone,
+    startAt: startAt.toISOString(),
+    endAt: endAt.toISOString(),
+  };
+}
+
+/**
+ * Converts a wall-clock slot entered in `inputTimeZone` to instants and
+ * expresses it in the room's time zone. Duration limits are left to the
+ * room's booking policy, which measures the elapsed time between the
+ * instants because a daylight saving change can make it differ from the
+ * wall-clock difference.
+ */
+function resolveSlot(
+  room: Room,
+  startDate: string,
+  startTime: string,
+  endTime: string,
+  inputTimeZone: string = room.timeZone
+): ReservationSlot {
+  const startAt = toInstant(startDate, startTime, inputTimeZone);
+  const endAt = toInstant(
+    calculateEndDate(startDate, startTime, endTime),
+    endTime,
+    inputTimeZone
+  );
+
+  return toSlot(startAt, endAt, room.timeZone);
+}
+
+// Checked ahead of the other rules so a slot that can never be booked is
+// reported as such rather than, say, as being in the past
+function assertSlotDuration(room: Room, slot: ReservationSlot): void {
+  assertDurationAllowed(
+    room,
+    minutesBetween(new Date(slot.startAt), new Date(slot.endAt))
+  );
+}
+
+// Also used for holds and waitlist entries, which store their slot the same way
+export function expressInTimeZone<T extends ReservationSlot>(
+  record: T,
+  timeZone: string = record.timeZone
+): T {
+  return {
+    ...record,
+    ...toSlot(new Date(record.startAt), new Date(record.endAt), timeZone),
+  };
+}
+
+function canManageReservation(reservation: Reservation, actor: Actor): boolean {
+  return reservation.userId === actor.userId || actor.role === 'admin';
+}
 
-  return res1Start < res2End && res1End > res2Start;
+// Bookings closer together than the room's setup and teardown time conflict
+function findConflictingReservations(
+  room: Room,
+  slot: Pick<ReservationSlot, 'startAt' | 'endAt'>,
+  excludeReservationIds: string[] = []
+): Reservation[] {
+  return reservationRepository
+    .findByRoomId(room.roomId)
+    .filter(
+      (res) =>
+        res.status === 'confirmed' &&
+        !excludeReservationIds.includes(res.reservationId) &&
+        doBookingsOverlap(room, res, slot)
+    );
+}
+
+// Expired holds stop blocking the room even before they are purged
+function findActiveHolds(roomId: string): Hold[] {
+  const now = Date.now();
+  return holdRepository
+    .findByRoomId(roomId)
+    .filter((hold) => Date.parse(hold.expiresAt) > now);
+}
+
+// A hold only keeps other users out; its owner can book over it. Without a
+// user every hold counts.
+function findConflictingHold(
+  room: Room,
+  slot: Pick<ReservationSlot, 'startAt' | 'endAt'>,
+  userId?: string
+): Hold | undefined {
+  return findActiveHolds(room.roomId).find(
+    (hold) => hold.userId !== userId && doBookingsOverlap(room, hold, slot)
+  );
 }
 
-function calculateDurationMinutes(startTime: string, endTime: string): number {
-  const startMinutes = timeToMinutes(startTime);
-  const endMinutes = timeToMinutes(endTime);
+function findConflictingReservation(
+  room: Room,
+  slot: Pick<ReservationSlot, 'startAt' | 'endAt'>,
+  excludeReservationIds: string[] = []
+): Reservation | undefined {
+  return findConflictingReservations(room, slot, excludeReservationIds)[0];
+}
 
-  if (endMinutes > startMinutes) {
-    return endMinutes - startMinutes;
-  } else {
-    return (24 * 60 - startMinutes) + endMinutes;
+function assertRoomBookable(room: Room): void {
+  if (!room.active) {
+    throw new ValidationError(
+      `${room.name} is not available for booking. Please select another room.`
+    );
   }
 }
 
-export async function createNewReservation(
-  data: CreateReservationRequest,
-  userId: string
-): Promise<CreateReservationResult> {
-  const { roomId, startDate, startTime, endTime } = data;
+function isSameAttendee(attendee: Attendee, input: AttendeeInput): boolean {
+  return 'userId' in input
+    ? attendee.userId === input.userId
+    : attendee.email === input.email;
+}
 
-  const endDate = calculateEndDate(startDate, startTime, endTime);
-  const durationMinutes = calculateDurationMinutes(startTime, endTime);
+// Attendees already on the reservation keep their RSVP; new ones start
+// as pending
+function toAttendees(
+  inputs: AttendeeInput[],
+  organizerId: string,
+  existing: Attendee[] = []
+): Attendee[] {
+  return inputs.map((input) => {
+    if ('userId' in input) {
+      if (input.userId === organizerId) {
+        throw new ValidationError(
+          'The organizer is always included and should not be listed as an attendee.'
+        );
+      }
 
-  logger.debug('Creating reservation', {
-    roomId,
-    startDate,
-    endDate,
-    startTime,
-    endTime,
-    durationMinutes,
-    userId,
+      const user = userRepository.findById(input.userId);
+      if (!user || !user.active) {
+        throw new ValidationError(
+          `Attendee '${input.userId}' is not an active user. Invite external guests by email instead.`
+        );
+      }
+    }
+
+    const previous = existing.find((attendee) =>
+      isSameAttendee(attendee, input)
+    );
+    return previous ?? { ...input, status: 'pending' };
   });
+}
 
-  if (isTimeSlotInPast(startDate, startTime)) {
-    throw new ValidationError(
-      'Cannot create a reservation in the past. Please select a future date and time.'
+function resolveReservationDetails(
+  data: Pick<CreateReservationRequest, 'title' | 'description' | 'attendees'>,
+  organizerId: string,
+  existing?: Reservation
+): ReservationDetails {
+  const details: ReservationDetails = {};
+
+  if (data.title !== undefined) {
+    details.title = data.title;
+  }
+  if (data.description !== undefined) {
+    details.description = data.description;
+  }
+  if (data.attendees !== undefined) {
+    details.attendees = toAttendees(
+      data.attendees,
+      organizerId,
+      existing?.attendees
     );
   }
 
-  const room = findRoomById(roomId);
-  if (!room) {
-    throw new NotFoundError(
-      `Room '${roomId}' not found. Please select a valid room.`
+  return details;
+}
+
+// The organizer plus everyone who has not declined
+function countHeadcount(attendees: Attendee[] = []): number {
+  return (
+    1 + attendees.filter((attendee) => attendee.status !== 'declined').length
+  );
+}
+
+function assertRoomFits(room: Room, attendees: Attendee[] | undefined): void {
+  const headcount = countHeadcount(attendees);
+
+  if (headcount > room.capacity) {
+    throw new ValidationError(
+      `${room.name} has room for ${room.capacity} people, but this meeting has ${headcount} including the organizer. Please choose a larger room.`
     );
   }
+}
 
-  if (!userExists(userId)) {
-    throw new NotFoundError('User not found');
+function scoreRoomMatch(room: Room, attributes: RoomAttributes): number {
+  let score = 0;
+  if (
+    attributes.minCapacity !== undefined &&
+    room.capacity >= attributes.minCapacity
+  ) {
+    score += 1;
+  }
+  if (
+    attributes.building !== undefined &&
+    room.building === attributes.building
+  ) {
+    score += 1;
+  }
+  if (attributes.floor !== undefined && room.floor === attributes.floor) {
+    score += 1;
+  }
+  for (const item of attributes.equipment ?? []) {
+    if (room.equipment.includes(item)) {
+      score += 1;
+    }
   }
+  return score;
+}
 
-  const existingReservations = findReservationsByRoomAndDateRange(roomId, startDate, endDate);
-  const conflictingReservation = existingReservations.find((res) =>
-    doReservationsOverlap(
-      startDate,
-      endDate,
-      startTime,
-      endTime,
-      res.startDate,
-      res.endDate,
-      res.startTime,
-      res.endTime
-    )
+function rankRoomsByAttributes(
+  rooms: Room[],
+  attributes: RoomAttributes
+): Room[] {
+  const { minCapacity } = attributes;
+  return rooms
+    .map((room) => ({ room, score: scoreRoomMatch(room, attributes) }))
+    .sort((a, b) => {
+      if (a.score !== b.score) {
+        return b.score - a.score;
+      }
+      if (minCapacity === undefined) {
+        return 0;
+      }
+      // Prefer the smallest room that still fits, so large rooms stay free
+      const aSurplus = a.room.capacity - minCapacity;
+      const bSurplus = b.room.capacity - minCapacity;
+      if (aSurplus >= 0 && bSurplus >= 0) {
+        return aSurplus - bSurplus;
+      }
+      return bSurplus - aSurplus;
+    })
+    .map(({ room }) => room);
+}
+
+function findRoomsFreeForSlot(
+  slot: ReservationSlot,
+  userId: string,
+  excludeReservationId?: string
+): Room[] {
+  return roomRepository
+    .findAll()
+    .filter(
+      (room) =>
+        room.active &&
+        isAllowedByPolicy(room, slot) &&
+        !findConflictingReservation(
+          room,
+          slot,
+          excludeReservationId ? [excludeReservationId] : []
+        ) &&
+        !findConflictingHold(room, slot, userId)
+    );
+}
+
+function toExistingReservationDetails(
+  reservation: Reservation,
+  userName: string
+): NonNullable<ConflictDetails['existingReservation']> {
+  return {
+    reservationId: reservation.reservationId,
+    userId: reservation.userId,
+    userName,
+    startDate: reservation.startDate,
+    endDate: reservation.endDate,
+    startTime: reservation.startTime,
+    endTime: reservation.endTime,
+    timeZone: reservation.timeZone,
+  };
+}
+
+function describeReservationDates(
+  reservation: Pick<Reservation, 'startDate' | 'endDate'>
+): string {
+  return reservation.startDate === reservation.endDate
+    ? `on ${reservation.startDate}`
+    : `from ${reservation.startDate} to ${reservation.endDate}`;
+}
+
+function buildConflictError(
+  room: Room,
+  conflictingReservation: Reservation,
+  slot: ReservationSlot,
+  userId: string,
+  excludeReservationId?: string
+): ConflictError {
+  const { startDate, startTime } = slot;
+  const durationMinutes = minutesBetween(
+    new Date(slot.startAt),
+    new Date(slot.endAt)
   );
+  const conflictOwner = userRepository.findById(conflictingReservation.userId);
+  const ownerName = conflictOwner?.name || 'Unknown User';
 
-  if (conflictingReservation) {
-    const conflictOwner = findUserById(conflictingReservation.userId);
-    const ownerName = conflictOwner?.name || 'Unknown User';
-
-    if (conflictingReservation.userId === userId) {
-      logger.info('Updating existing reservation for same user', {
-        reservationId: conflictingReservation.reservationId,
-        oldTime: `${conflictingReservation.startTime}-${conflictingReservation.endTime}`,
-        newTime: `${startTime}-${endTime}`,
-      });
+  const attemptedStartMinutes = timeToMinutes(startTime);
+  const suggestedSlots = findNearestAvailableSlots(
+    room.roomId,
+    startDate,
+    attemptedStartMinutes,
+    durationMinutes,
+    room.timeZone,
+    excludeReservationId
+  );
+  const suggestionMessage = buildSuggestionMessage(suggestedSlots, startDate);
 
-      const updated = updateReservation(conflictingReservation.reservationId, {
-        startDate,
-        endDate,
-        startTime,
-        endTime,
-      });
+  const alternativeRooms = findRoomsFreeForSlot(
+    slot,
+    userId,
+    excludeReservationId
+  )
+    .filter((candidate) => candidate.roomId !== room.roomId)
+    .map(({ roomId, name }) => ({ roomId, name }));
+  const alternativeRoomsMessage =
+    alternativeRooms.length > 0
+      ? ` Other rooms free at this time: ${alternativeRooms.map((r) => r.name).join(', ')}.`
+      : '';
+
+  const dateInfo = describeReservationDates(conflictingReservation);
+
+  // Say why when only the setup or teardown time is in the way
+  const turnaround = describeTurnaround(room);
+  const turnaroundMessage =
+    turnaround &&
+    (Date.parse(conflictingReservation.endAt) <= Date.parse(slot.startAt) ||
+      Date.parse(conflictingReservation.startAt) >= Date.parse(slot.endAt))
+      ? ` Bookings in ${room.name} need ${turnaround} between them.`
+      : '';
+
+  return new ConflictError(
+    `${room.name} is already booked from ${conflictingReservation.startTime}-${conflictingReservation.endTime} ${dateInfo} by ${ownerName}.${turnaroundMessage}${suggestionMessage}${alternativeRoomsMessage}`,
+    {
+      existingReservation: toExistingReservationDetails(
+        conflictingReservation,
+        ownerName
+      ),
+      suggestedSlots,
+      alternativeRooms,
+    }
+  );
+}
 
-      if (!updated) {
-        throw new Error('Failed to update reservation');
-      }
+function buildHoldConflictError(
+  room: Room,
+  hold: Hold,
+  slot: ReservationSlot,
+  excludeReservationId?: string
+): ConflictError {
+  const holder = userRepository.findById(hold.userId);
+  const holderName = holder?.name || 'Unknown User';
+  const heldUntil = toZonedDateTime(new Date(hold.expiresAt), room.timeZone);
+
+  const suggestedSlots = findNearestAvailableSlots(
+    room.roomId,
+    slot.startDate,
+    timeToMinutes(slot.startTime),
+    minutesBetween(new Date(slot.startAt), new Date(slot.endAt)),
+    room.timeZone,
+    excludeReservationId
+  );
+  const suggestionMessage = buildSuggestionMessage(
+    suggestedSlots,
+    slot.startDate
+  );
 
-      return {
-        reservation: updated,
-        wasUpdated: true,
-      };
-    } else {
-      const attemptedStartMinutes = timeToMinutes(startTime);
-      const { before, after } = findNearestAvailableSlots(
-        roomId,
-        startDate,
-        attemptedStartMinutes,
-        durationMinutes
-      );
-      const suggestionMessage = buildSuggestionMessage(before, after);
-
-      const dateInfo = conflictingReservation.startDate === conflictingReservation.endDate
-        ? `on ${conflictingReservation.startDate}`
-        : `from ${conflictingReservation.startDate} to ${conflictingReservation.endDate}`;
-
-      throw new ConflictError(
-        `${room.name} is already booked from ${conflictingReservation.startTime}-${conflictingReservation.endTime} ${dateInfo} by ${ownerName}.${suggestionMessage}`,
-        {
-          existingReservation: {
-            reservationId: conflictingReservation.reservationId,
-            userId: conflictingReservation.userId,
-            userName: ownerName,
-            startDate: conflictingReservation.startDate,
-            endDate: conflictingReservation.endDate,
-            startTime: conflictingReservation.startTime,
-            endTime: conflictingReservation.endTime,
-          },
-        }
-      );
+  return new ConflictError(
+    `${room.name} is being held from ${hold.startTime}-${hold.endTime} ${describeReservationDates(hold)} by ${holderName} until ${heldUntil.time} ${hold.waitlistEntryId ? 'while they claim it from the waitlist' : 'while they finish booking'}.${suggestionMessage}`,
+    {
+      existingHold: {
+        userId: hold.userId,
+        userName: holderName,
+        startDate: hold.startDate,
+        endDate: hold.endDate,
+        startTime: hold.startTime,
+        endTime: hold.endTime,
+        timeZone: hold.timeZone,
+        expiresAt: hold.expiresAt,
+      },
+      suggestedSlots,
     }
+  );
+}
+
+function assertNotHeld(
+  room: Room,
+  slot: ReservationSlot,
+  userId: string,
+  excludeReservationId?: string
+): void {
+  const hold = findConflictingHold(room, slot, userId);
+  if (hold) {
+    throw buildHoldConflictError(room, hold, slot, excludeReservationId);
+  }
+}
+
+function mergeSlots(
+  room: Room,
+  reservation: Reservation,
+  slot: ReservationSlot
+): ReservationSlot {
+  const startAt = new Date(
+    Math.min(Date.parse(reservation.startAt), Date.parse(slot.startAt))
+  );
+  const endAt = new Date(
+    Math.max(Date.parse(reservation.endAt), Date.parse(slot.endAt))
+  );
+
+  assertDurationAllowed(room, minutesBetween(startAt, endAt), 'Merged booking');
+
+  return toSlot(startAt, endAt, slot.timeZone);
+}
+
+/**
+ * Handles a new booking that overlaps only the requester's own
+ * reservations. `replace` moves the existing reservation to the new slot
+ * and `merge` extends it to cover both; either needs a single overlap.
+ */
+function resolveOwnConflict(
+  room: Room,
+  ownReservations: Reservation[],
+  slot: ReservationSlot,
+  mode: OwnConflictMode,
+  details: ReservationDetails
+): CreateReservationResult {
+  const [existing] = ownReservations;
+
+  if (mode === 'reject') {
+    const owner = userRepository.findById(existing.userId);
+    throw new ConflictError(
+      `You already have ${room.name} booked from ${existing.startTime}-${existing.endTime} ${describeReservationDates(existing)}. Set onOwnConflict to "replace" to move that reservation or "merge" to extend it.`,
+      {
+        existingReservation: toExistingReservationDetails(
+          existing,
+          owner?.name || 'Unknown User'
+        ),
+      }
+    );
   }
 
-  const newReservation = createReservation({
-    roomId,
-    userId,
-    startDate,
-    endDate,
-    startTime,
-    endTime,
-  });
+  if (ownReservations.length > 1) {
+    throw new ConflictError(
+      `This slot overlaps ${ownReservations.length} of your reservations in ${room.name}. Cancel the extra reservations first, or choose a slot that overlaps only one.`
+    );
+  }
 
-  logger.info('Reservation created', {
-    reservationId: newReservation.reservationId,
-    roomId,
-    startDate,
-    endDate,
-    time: `${startTime}-${endTime}`,
+  // Merging only extends the existing booking; replacing also takes over
+  // the new title, description and attendees
+  const updatedSlot =
+    mode === 'merge' ? mergeSlots(room, existing, slot) : slot;
+  const changes = mode === 'merge' ? updatedSlot : { ...slot, ...details };
+
+  logger.info('Updating existing reservation for same user', {
+    reservationId: existing.reservationId,
+    mode,
+    oldTime: `${existing.startTime}-${existing.endTime}`,
+    newTime: `${updatedSlot.startTime}-${updatedSlot.endTime}`,
   });
 
+  const updated = reservationRepository.update(existing.reservationId, changes);
+
+  if (!updated) {
+    throw new Error('Failed to update reservation');
+  }
+
+  recordChange(
+    'updated-by-overlap',
+    existing.userId,
+    existing,
+    updated,
+    `onOwnConflict: ${mode}`
+  );
+
   return {
-    reservation: newReservation,
-    wasUpdated: false,
+    reservation: updated,
+    wasUpdated: true,
+    previous: existing,
   };
 }
 
-export async function cancelReservation(
-  reservationId: string,
-  userId: string
-): Promise<void> {
-  logger.debug('Attempting to delete reservation', { reservationId, userId });
+function resolveUpdatedSlot(
+  reservation: Reservation,
+  changes: UpdateReservationRequest,
+  excludeReservationIds: string[] = [reservation.reservationId]
+): { room: Room; slot: ReservationSlot } {
+  // Unchanged fields keep their current values as seen in the client's zone
+  const timeZone = changes.timeZone ?? reservation.timeZone;
+  const current = expressInTimeZone(reservation, timeZone);
+
+  const parsed = createReservationSchema.safeParse({
+    roomId: changes.roomId ?? current.roomId,
+    startDate: changes.startDate ?? current.startDate,
+    startTime: changes.startTime ?? current.startTime,
+    endTime: changes.endTime ?? current.endTime,
+  });
 
-  const reservation = findReservationById(reservationId);
+  if (!parsed.success) {
+    throw new ValidationError(getFirstZodError(parsed.error));
+  }
 
-  if (!reservation) {
+  const { roomId, startDate, startTime, endTime } = parsed.data;
+
+  const room = roomRepository.findById(roomId);
+  if (!room) {
     throw new NotFoundError(
-      `Reservation '${reservationId}' not found. It may have already been cancelled.`
+      `Room '${roomId}' not found. Please select a valid room.`
     );
   }
 
-  if (reservation.userId !== userId) {
-    const owner = findUserById(reservation.userId);
-    throw new ForbiddenError(
-      `You cannot cancel this reservation. It belongs to ${owner?.name || 'another user'}.`
+  assertRoomBookable(room);
+
+  const slot = resolveSlot(room, startDate, startTime, endTime, timeZone);
+
+  // Edits that keep the booked time are not held to a policy set since
+  const isMoved =
+    room.roomId !== reservation.roomId ||
+    slot.startAt !== reservation.startAt ||
+    slot.endAt !== reservation.endAt;
+  if (isMoved) {
+    assertSlotDuration(room, slot);
+  }
+
+  if (isInstantInPast(slot.startAt)) {
+    throw new ValidationError(
+      'Cannot move a reservation into the past. Please select a future date and time.'
     );
   }
 
-  const deleted = deleteReservation(reservationId);
+  if (isMoved) {
+    assertBookingPolicy(room, slot, {
+      userId: reservation.userId,
+      excludeReservationIds,
+    });
+  }
+
+  return { room, slot };
+}
 
-  if (!deleted) {
-    throw new Error('Failed to delete reservation');
+function getOccurrencesInScope(
+  reservation: Reservation,
+  scope: SeriesScope
+): Reservation[] {
+  if (scope === 'occurrence' || !reservation.seriesId) {
+    return [reservation];
   }
 
-  logger.info('Reservation cancelled', { reservationId, userId });
+  return reservationRepository
+    .findBySeriesId(reservation.seriesId)
+    .filter(
+      (occurrence) =>
+        occurrence.status === 'confirmed' &&
+        (scope === 'series' || occurrence.startDate >= reservation.startDate) &&
+        !isInstantInPast(occurrence.startAt)
+    );
 }
 
-export async function getRoomReservations(
-  roomId: string
-): Promise<Reservation[]> {
-  logger.debug('Getting reservations for room', { roomId });
+function hasEnded(reservation: Reservation): boolean {
+  return isInstantInPast(reservation.endAt);
+}
+
+function matchesReservationFilters(
+  reservation: Reservation,
+  filters: ReservationFilters
+): boolean {
+  if (reservation.status !== (filters.status ?? 'confirmed')) {
+    return false;
+  }
+  if (filters.from !== undefined && reservation.startDate < filters.from) {
+    return false;
+  }
+  if (filters.to !== undefined && reservation.startDate > filters.to) {
+    return false;
+  }
+  if (filters.roomId !== undefined && reservation.roomId !== filters.roomId) {
+    return false;
+  }
+  if (filters.period === 'upcoming' && hasEnded(reservation)) {
+    return false;
+  }
+  if (filters.period === 'past' && !hasEnded(reservation)) {
+    return false;
+  }
+  return true;
+}
+
+// Chronological order, except past reservations which list the most recent
+// first
+function filterAndPaginateReservations(
+  reservations: Reservation[],
+  filters: ReservationFilters,
+  page: PageRequest
+): Page<Reservation> {
+  const direction = filters.period === 'past' ? -1 : 1;
+  const matching = reservations
+    .filter((res) => matchesReservationFilters(res, filters))
+    .sort(
+      (a, b) => direction * (Date.parse(a.startAt) - Date.parse(b.startAt))
+    );
+
+  return paginate(matching, page);
+}
 
-  if (!roomExists(roomId)) {
-    const rooms = ['room-1', 'room-2', 'room-3'];
+function assertCanManageReservation(
+  reservation: Reservation,
+  actor: Actor,
+  action: 'cancel' | 'modify' | 'restore' | 'check in to'
+): void {
+  if (!canManageReservation(reservation, actor)) {
+    const owner = userRepository.findById(reservation.userId);
+    throw new ForbiddenError(
+      `You cannot ${action} this reservation. It belongs to ${owner?.name || 'another user'}.`
+    );
+  }
+}
+
+function findManageableReservation(
+  reservationId: string,
+  actor: Actor,
+  action: 'cancel' | 'modify'
+): Reservation {
+  const reservation = reservationRepository.findById(reservationId);
+
+  if (!reservation || reservation.status !== 'confirmed') {
     throw new NotFoundError(
-      `Room '${roomId}' not found. Available rooms: ${rooms.join(', ')}`
+      action === 'cancel'
+        ? `Reservation '${reservationId}' not found. It may have already been cancelled.`
+        : `Reservation '${reservationId}' not found. It may have been cancelled.`
     );
   }
 
-  const reservations = getReservationsByRoomId(roomId);
+  assertCanManageReservation(reservation, actor, action);
 
-  logger.debug('Retrieved room reservations', {
-    roomId,
-    count: reservations.length,
+  return reservation;
+}
+
+function markCancelled(
+  reservation: Reservation,
+  actorId: string,
+  reason?: string
+): Reservation {
+  const cancelled = reservationRepository.update(reservation.reservationId, {
+    status: 'cancelled',
+    cancelledAt: new Date().toISOString(),
+    cancelledBy: actorId,
+    cancellationReason: reason,
   });
 
-  return reservations;
+  if (!cancelled) {
+    throw new Error('Failed to cancel reservation');
+  }
+
+  recordChange('cancelled', actorId, reservation, cancelled, reason);
+
+  return cancelled;
 }
 
-export async function getReservation(
-  reservationId: string
-): Promise<Reservation> {
-  const reservation = findReservationById(reservationId);
+interface PreparedReservation {
+  room: Room;
+  slot: ReservationSlot;
+  details: ReservationDetails;
+}
 
-  if (!reservation) {
-    throw new NotFoundError(`Reservation '${reservationId}' not found.`);
+// Everything a single booking must pass apart from the conflict check
+function prepareReservation(
+  data: CreateReservationRequest,
+  userId: string
+): PreparedReservation {
+  const { roomId, startDate, startTime, endTime, timeZone } = data;
+
+  const room = roomRepository.findById(roomId);
+  if (!room) {
+    throw new NotFoundError(
+      `Room '${roomId}' not found. Please select a valid room.`
+    );
   }
 
-  return reservation;
+  assertRoomBookable(room);
+
+  const slot = resolveSlot(room, startDate, startTime, endTime, timeZone);
+  assertSlotDuration(room, slot);
+
+  if (isInstantInPast(slot.startAt)) {
+    throw new ValidationError(
+      'Cannot create a reservation in the past. Please select a future date and time.'
+    );
+  }
+
+  if (!userRepository.exists(userId)) {
+    throw new NotFoundError('User not found');
+  }
+
+  assertBookingPolicy(room, slot, { userId });
+
+  const details = resolveReservationDetails(data, userId);
+  assertRoomFits(room, details.attendees);
+
+  return { room, slot, details };
+}
+
+/**
+ * Runs the checks createNewReservation would without booking anything.
+ * Returns the resolved slot and the other users' reservations and holds in
+ * its way.
+ */
+export function checkReservationRequest(
+  data: CreateReservationRequest,
+  userId: string
+): {
+  room: Room;
+  slot: ReservationSlot;
+  conflicts: Reservation[];
+  hold?: Hold;
+} {
+  const { room, slot } = prepareReservation(data, userId);
+  const conflicts = findConflictingReservations(room, slot).filter(
+    (res) => res.userId !== userId
+  );
+  const hold = findConflictingHold(room, slot, userId);
+
+  return { room, slot, conflicts, hold };
+}
+
+/**
+ * Throws the error createNewReservation would if another user's booking or
+ * hold is in the way. The user's own reservations do not count.
+ */
+export function assertSlotAvailable(
+  data: CreateReservationRequest,
+  userId: string
+): { room: Room; slot: ReservationSlot } {
+  const { room, slot } = prepareReservation(data, userId);
+
+  const othersReservation = findConflictingReservations(room, slot).find(
+    (res) => res.userId !== userId
+  );
+  if (othersReservation) {
+    throw buildConflictError(room, othersReservation, slot, userId);
+  }
+  assertNotHeld(room, slot, userId);
+
+  return { room, slot };
+}
+
+export function createNewReservation(
+  data: CreateReservationRequest,
+  userId: string
+): CreateReservationResult {
+  const {
+    roomId,
+    startDate,
+    startTime,
+    endTime,
+    timeZone,
+    onOwnConflict = 'reject',
+  } = data;
+
+  logger.debug('Creating reservation', {
+    roomId,
+    startDate,
+    startTime,
+    endTime,
+    timeZone,
+    onOwnConflict,
+    userId,
+  });
+
+  const { room, slot, details } = prepareReservation(data, userId);
+  const conflicts = findConflictingReservations(room, slot);
+
+  // Other users' bookings always win, whatever the requested mode
+  const othersReservation = conflicts.find((res) => res.userId !== userId);
+  if (othersReservation) {
+    throw buildConflictError(room, othersReservation, slot, userId);
+  }
+  assertNotHeld(room, slot, userId);
+
+  if (conflicts.length > 0) {
+    return resolveOwnConflict(room, conflicts, slot, onOwnConflict, details);
+  }
+
+  const newReservation = reservationRepository.create({
+    roomId,
+    userId,
+    ...slot,
+    ...details,
+  });
+
+  recordChange('created', userId, null, newReservation);
+
+  logger.info('Reservation created', {
+    reservationId: newReservation.reservationId,
+    roomId,
+    startAt: slot.startAt,
+    endAt: slot.endAt,
+    time: `${slot.startTime}-${slot.endTime} ${slot.timeZone}`,
+  });
+
+  return {
+    reservation: newReservation,
+    wasUpdated: false,
+  };
+}
+
+export function createRecurringReservation(
+  data: CreateReservationRequest,
+  recurrence: RecurrenceRule,
+  userId: string
+): RecurringReservationResult {
+  const { roomId, startDate, startTime, endTime } = data;
+
+  logger.debug('Creating recurring reservation', {
+    roomId,
+    startDate,
+    startTime,
+    endTime,
+    timeZone: data.timeZone,
+    recurrence,
+    userId,
+  });
+
+  const room = roomRepository.findById(roomId);
+  if (!room) {
+    throw new NotFoundError(
+      `Room '${roomId}' not found. Please select a valid room.`
+    );
+  }
+
+  assertRoomBookable(room);
+
+  // Occurrences repeat at the same wall-clock time in the client's zone,
+  // so their UTC instants shift across daylight saving changes
+  const timeZone = data.timeZone ?? room.timeZone;
+  const firstSlot = resolveSlot(room, startDate, startTime, endTime, timeZone);
+  assertSlotDuration(room, firstSlot);
+
+  if (isInstantInPast(firstSlot.startAt)) {
+    throw new ValidationError(
+      'Cannot create a reservation in the past. Please select a future date and time.'
+    );
+  }
+
+  if (!userRepository.exists(userId)) {
+    throw new NotFoundError('User not found');
+  }
+
+  const details = resolveReservationDetails(data, userId);
+  assertRoomFits(room, details.attendees);
+
+  const occurrenceDates = expandRecurrence(startDate, recurrence);
+  if (!occurrenceDates) {
+    throw new ValidationError(
+      `A series cannot have more than ${MAX_OCCURRENCES} occurrences. Please choose an earlier end date.`
+    );
+  }
+
+  const seriesId = uuidv4();
+  const reservations: Reservation[] = [];
+  const conflicts: OccurrenceConflict[] = [];
+
+  for (const occurrenceDate of occurrenceDates) {
+    const occurrence = {
+      startDate: occurrenceDate,
+      endDate: calculateEndDate(occurrenceDate, startTime, endTime),
+      startTime,
+      endTime,
+    };
+
+    let slot: ReservationSlot;
+    try {
+      slot = resolveSlot(room, occurrenceDate, startTime, endTime, timeZone);
+      assertBookingPolicy(room, slot, { userId });
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+      conflicts.push({ ...occurrence, reason: error.message });
+      continue;
+    }
+
+    const conflictingReservation = findConflictingReservation(room, slot);
+
+    if (conflictingReservation) {
+      const owner = userRepository.findById(conflictingReservation.userId);
+      conflicts.push({
+        ...occurrence,
+        reason: `${room.name} is already booked from ${conflictingReservation.startTime}-${conflictingReservation.endTime} by ${owner?.name || 'Unknown User'}.`,
+        existingReservationId: conflictingReservation.reservationId,
+      });
+      continue;
+    }
+
+    const hold = findConflictingHold(room, slot, userId);
+    if (hold) {
+      const holder = userRepository.findById(hold.userId);
+      conflicts.push({
+        ...occurrence,
+        reason: `${room.name} is being held from ${hold.startTime}-${hold.endTime} by ${holder?.name || 'Unknown User'}.`,
+      });
+      continue;
+    }
+
+    const reservation = reservationRepository.create({
+      roomId,
+      userId,
+      ...slot,
+      ...details,
+      seriesId,
+    });
+    recordChange('created', userId, null, reservation);
+    reservations.push(reservation);
+  }
+
+  if (reservations.length === 0) {
+    throw new ConflictError(
+      `None of the ${occurrenceDates.length} occurrence(s) could be booked. ${conflicts[0].reason}`,
+      { occurrenceConflicts: conflicts }
+    );
+  }
+
+  logger.info('Recurring reservation created', {
+    seriesId,
+    roomId,
+    created: reservations.length,
+    conflicts: conflicts.length,
+  });
+
+  return { seriesId, reservations, conflicts };
+}
+
+export function cancelReservation(
+  reservationId: string,
+  actor: Actor,
+  scope: SeriesScope = 'occurrence',
+  reason?: string
+): Reservation[] {
+  const { userId } = actor;
+  logger.debug('Attempting to cancel reservation', {
+    reservationId,
+    userId,
+    scope,
+  });
+
+  const reservation = findManageableReservation(reservationId, actor, 'cancel');
+  const occurrences = getOccurrencesInScope(reservation, scope);
+
+  const cancelled = occurrences.map((occurrence) =>
+    markCancelled(occurrence, userId, reason)
+  );
+
+  logger.info('Reservation cancelled', {
+    reservationIds: occurrences.map((res) => res.reservationId),
+    seriesId: reservation.seriesId,
+    scope,
+    userId,
+    ownerId: reservation.userId,
+  });
+
+  return cancelled;
+}
+
+export function updateReservation(
+  reservationId: string,
+  changes: UpdateReservationRequest,
+  actor: Actor
+): UpdateReservationResult {
+  const { userId } = actor;
+  logger.debug('Attempting to update reservation', {
+    reservationId,
+    userId,
+    changes,
+  });
+
+  const reservation = findManageableReservation(reservationId, actor, 'modify');
+  const { room, slot } = resolveUpdatedSlot(reservation, changes);
+  const details = resolveReservationDetails(
+    changes,
+    reservation.userId,
+    reservation
+  );
+  assertRoomFits(room, details.attendees ?? reservation.attendees);
+
+  const conflictingReservation = findConflictingReservation(room, slot, [
+    reservationId,
+  ]);
+
+  if (conflictingReservation) {
+    throw buildConflictError(
+      room,
+      conflictingReservation,
+      slot,
+      reservation.userId,
+      reservationId
+    );
+  }
+  assertNotHeld(room, slot, reservation.userId, reservationId);
+
+  const updated = reservationRepository.update(reservationId, {
+    roomId: room.roomId,
+    ...slot,
+    ...details,
+  });
+
+  if (!updated) {
+    throw new Error('Failed to update reservation');
+  }
+
+  recordChange('rescheduled', userId, reservation, updated);
+
+  logger.info('Reservation rescheduled', {
+    reservationId,
+    userId,
+    ownerId: reservation.userId,
+    oldSlot: `${reservation.roomId} ${reservation.startDate} ${reservation.startTime}-${reservation.endTime}`,
+    newSlot: `${room.roomId} ${slot.startDate} ${slot.startTime}-${slot.endTime}`,
+  });
+
+  return { reservation: updated, previous: reservation };
+}
+
+export function updateReservationSeries(
+  reservationId: string,
+  changes: UpdateReservationRequest,
+  actor: Actor,
+  scope: Exclude<SeriesScope, 'occurrence'>
+): UpdateSeriesResult {
+  const { userId } = actor;
+  logger.debug('Attempting to update reservation series', {
+    reservationId,
+    userId,
+    changes,
+    scope,
+  });
+
+  const reservation = findManageableReservation(reservationId, actor, 'modify');
+  const occurrences = getOccurrencesInScope(reservation, scope);
+
+  if (occurrences.length === 0) {
+    throw new ValidationError(
+      'This series has no upcoming occurrences left to update.'
+    );
+  }
+
+  const occurrenceIds = occurrences.map((res) => res.reservationId);
+  const plannedUpdates = occurrences.map((occurrence) => {
+    const { room, slot } = resolveUpdatedSlot(
+      occurrence,
+      changes,
+      occurrenceIds
+    );
+    const details = resolveReservationDetails(
+      changes,
+      occurrence.userId,
+      occurrence
+    );
+    assertRoomFits(room, details.attendees ?? occurrence.attendees);
+
+    const conflictingReservation = findConflictingReservation(
+      room,
+      slot,
+      occurrenceIds
+    );
+
+    if (conflictingReservation) {
+      throw buildConflictError(
+        room,
+        conflictingReservation,
+        slot,
+        occurrence.userId,
+        occurrence.reservationId
+      );
+    }
+    assertNotHeld(room, slot, occurrence.userId, occurrence.reservationId);
+
+    return { occurrence, room, slot, details };
+  });
+
+  const updated = plannedUpdates.map(({ occurrence, room, slot, details }) => {
+    const result = reservationRepository.update(occurrence.reservationId, {
+      roomId: room.roomId,
+      ...slot,
+      ...details,
+    });
+
+    if (!result) {
+      throw new Error('Failed to update reservation');
+    }
+
+    recordChange('rescheduled', userId, occurrence, result);
+
+    return result;
+  });
+
+  logger.info('Reservation series rescheduled', {
+    seriesId: reservation.seriesId,
+    scope,
+    userId,
+    ownerId: reservation.userId,
+    reservationIds: occurrenceIds,
+  });
+
+  return { reservations: updated, previous: occurrences };
+}
+
+export async function getRoomReservations(
+  roomId: string,
+  filters: ReservationFilters,
+  page: PageRequest
+): Promise<Page<Reservation>> {
+  logger.debug('Getting reservations for room', { roomId, filters, page });
+
+  if (!roomRepository.exists(roomId)) {
+    const rooms = roomRepository.findAll().map((room) => room.roomId);
+    throw new NotFoundError(
+      `Room '${roomId}' not found. Available rooms: ${rooms.join(', ')}`
+    );
+  }
+
+  const result = filterAndPaginateReservations(
+    reservationRepository.findByRoomId(roomId),
+    filters,
+    page
+  );
+
+  logger.debug('Retrieved room reservations', {
+    roomId,
+    count: result.items.length,
+    total: result.pagination.total,
+  });
+
+  return result;
+}
+
+/**
+ * Reservations the user is invited to and has not declined.
+ */
+export function findInvitations(userId: string): Reservation[] {
+  return reservationRepository
+    .findByAttendeeUserId(userId)
+    .filter((res) =>
+      (res.attendees ?? []).some(
+        (attendee) =>
+          attendee.userId === userId && attendee.status !== 'declined'
+      )
+    );
+}
+
+export function getUserReservations(
+  userId: string,
+  filters: ReservationFilters,
+  page: PageRequest
+): Page<Reservation> {
+  logger.debug('Getting reservations for user', { userId, filters, page });
+
+  return filterAndPaginateReservations(
+    [...reservationRepository.findByUserId(userId), ...findInvitations(userId)],
+    filters,
+    page
+  );
+}
+
+export function getRoomAvailability(
+  roomId: string,
+  startDate: string,
+  endDate: string,
+  duration?: number
+): DayAvailability[] {
+  logger.debug('Getting room availability', {
+    roomId,
+    startDate,
+    endDate,
+    duration,
+  });
+
+  const room = roomRepository.findById(roomId);
+  if (!room) {
+    throw new NotFoundError(
+      `Room '${roomId}' not found. Please select a valid room.`
+    );
+  }
+
+  assertRoomBookable(room);
+
+  if (isDateInPast(endDate, room.timeZone)) {
+    throw new ValidationError(
+      'Cannot check availability in the past. Please select a future date.'
+    );
+  }
+
+  const { minDurationMinutes, slotGranularityMinutes: granularity } =
+    getBookingPolicy(room);
+  const durationMinutes = duration ?? minDurationMinutes;
+  assertDurationAllowed(room, durationMinutes);
+
+  const days: DayAvailability[] = [];
+
+  for (let date = startDate; date <= endDate; date = getNextDate(date)) {
+    if (isDateInPast(date, room.timeZone)) {
+      continue;
+    }
+
+    const earliestStart =
+      Math.ceil(getEarliestBookableMinute(date, room.timeZone) / granularity) *
+      granularity;
+    const windows = findAvailableWindowsOnDate(roomId, date, durationMinutes)
+      .map((window) => ({
+        start: Math.max(window.start, earliestStart),
+        end: window.end,
+      }))
+      .filter((window) => window.end - window.start >= durationMinutes)
+      .map((window) => toAvailabilityWindow(date, window, room.timeZone));
+
+    days.push({ date, windows });
+  }
+
+  return days;
+}
+
+export function findAvailableRooms(
+  startDate: string,
+  startTime: string,
+  endTime: string,
+  attributes: RoomAttributes = {},
+  timeZone?: string,
+  userId?: string
+): Room[] {
+  logger.debug('Searching for available rooms', {
+    startDate,
+    startTime,
+    endTime,
+    timeZone,
+  });
+
+  // Without a client time zone the slot is read in each room's own zone
+  const rooms = roomRepository
+    .findAll()
+    .filter((room) => room.active)
+    .filter((room) => {
+      const slot = resolveSlot(room, startDate, startTime, endTime, timeZone);
+
+      if (isInstantInPast(slot.startAt)) {
+        throw new ValidationError(
+          'Cannot search for rooms in the past. Please select a future date and time.'
+        );
+      }
+
+      // Rooms other users are holding are as taken as booked ones
+      return (
+        isAllowedByPolicy(room, slot) &&
+        !findConflictingReservation(room, slot) &&
+        !findConflictingHold(room, slot, userId)
+      );
+    });
+
+  return rankRoomsByAttributes(rooms, attributes);
+}
+
+export function cancelFutureRoomReservations(
+  roomId: string,
+  actor: Actor,
+  reason: string
+): Reservation[] {
+  const upcoming = reservationRepository
+    .findByRoomId(roomId)
+    .filter(
+      (res) => res.status === 'confirmed' && !isInstantInPast(res.startAt)
+    );
+
+  for (const reservation of upcoming) {
+    markCancelled(reservation, actor.userId, reason);
+  }
+
+  if (upcoming.length > 0) {
+    logger.info('Cancelled future reservations for room', {
+      roomId,
+      reservationIds: upcoming.map((res) => res.reservationId),
+    });
+  }
+
+  return upcoming;
+}
+
+/**
+ * Undoes a cancellation. Only possible within RESTORE_WINDOW_SECONDS of
+ * cancelling, before the reservation starts, and while the slot is free.
+ */
+export function restoreReservation(
+  reservationId: string,
+  actor: Actor
+): Reservation {
+  const { userId } = actor;
+  logger.debug('Attempting to restore reservation', { reservationId, userId });
+
+  const reservation = reservationRepository.findById(reservationId);
+
+  if (!reservation) {
+    throw new NotFoundError(`Reservation '${reservationId}' not found.`);
+  }
+
+  assertCanManageReservation(reservation, actor, 'restore');
+
+  if (reservation.status !== 'cancelled') {
+    throw new ValidationError(
+      `Reservation '${reservationId}' is not cancelled.`
+    );
+  }
+
+  const cancelledAt = reservation.cancelledAt
+    ? Date.parse(reservation.cancelledAt)
+    : 0;
+  if (Date.now() - cancelledAt > config.RESTORE_WINDOW_SECONDS * 1000) {
+    throw new ValidationError(
+      'The restore window for this cancellation has passed. Please make a new booking instead.'
+    );
+  }
+
+  if (isInstantInPast(reservation.startAt)) {
+    throw new ValidationError(
+      'Cannot restore a reservation that has already started.'
+    );
+  }
+
+  const room = roomRepository.findById(reservation.roomId);
+  if (!room) {
+    throw new NotFoundError(
+      `Room '${reservation.roomId}' no longer exists. Please make a new booking instead.`
+    );
+  }
+
+  assertRoomBookable(room);
+  assertBookingPolicy(room, reservation, { userId: reservation.userId });
+
+  const conflictingReservation = findConflictingReservation(room, reservation);
+
+  if (conflictingReservation) {
+    throw buildConflictError(
+      room,
+      conflictingReservation,
+      reservation,
+      reservation.userId
+    );
+  }
+  assertNotHeld(room, reservation, reservation.userId);
+
+  const restored = reservationRepository.update(reservationId, {
+    status: 'confirmed',
+    cancelledAt: undefined,
+    cancelledBy: undefined,
+    cancellationReason: undefined,
+  });
+
+  if (!restored) {
+    throw new Error('Failed to restore reservation');
+  }
+
+  recordChange('restored', userId, reservation, restored);
+
+  logger.info('Reservation restored', {
+    reservationId,
+    userId,
+    ownerId: reservation.userId,
+  });
+
+  return restored;
+}
+
+export function checkInReservation(
+  reservationId: string,
+  actor: Actor,
+  now: Date = new Date()
+): Reservation {
+  const { userId } = actor;
+  logger.debug('Attempting to check in', { reservationId, userId });
+
+  const reservation = reservationRepository.findById(reservationId);
+
+  if (!reservation || reservation.status === 'cancelled') {
+    throw new NotFoundError(
+      `Reservation '${reservationId}' not found. It may have been cancelled.`
+    );
+  }
+
+  assertCanManageReservation(reservation, actor, 'check in to');
+
+  if (reservation.status === 'no-show') {
+    throw new ValidationError(
+      'This reservation was released because nobody checked in. Please make a new booking if you still need the room.'
+    );
+  }
+
+  if (reservation.checkedInAt) {
+    throw new ValidationError('You have already checked in.');
+  }
+
+  const windowMs = config.CHECK_IN_WINDOW_MINUTES * MINUTE_MS;
+  const opensAt = Date.parse(reservation.startAt) - windowMs;
+  const closesAt = Date.parse(reservation.startAt) + windowMs;
+
+  if (now.getTime() < opensAt) {
+    const { date, time } = toZonedDateTime(
+      new Date(opensAt),
+      reservation.timeZone
+    );
+    throw new ValidationError(
+      `Check-in opens at ${time} on ${date} (${reservation.timeZone}), ${config.CHECK_IN_WINDOW_MINUTES} minutes before the reservation starts.`
+    );
+  }
+
+  if (now.getTime() > closesAt) {
+    throw new ValidationError(
+      'The check-in window for this reservation has closed.'
+    );
+  }
+
+  const checkedIn = reservationRepository.update(reservationId, {
+    checkedInAt: now.toISOString(),
+  });
+
+  if (!checkedIn) {
+    throw new Error('Failed to check in');
+  }
+
+  recordChange('checked-in', userId, reservation, checkedIn);
+
+  logger.info('Checked in to reservation', {
+    reservationId,
+    userId,
+    ownerId: reservation.userId,
+  });
+
+  return checkedIn;
+}
+
+/**
+ * Releases reservations that nobody checked in to within
+ * NO_SHOW_RELEASE_MINUTES of their start, so the room becomes available
+ * for the rest of the slot. Run periodically by the no-show scheduler.
+ */
+export function releaseNoShows(now: Date = new Date()): Reservation[] {
+  const releaseAfterMs = config.NO_SHOW_RELEASE_MINUTES * MINUTE_MS;
+
+  const due = reservationRepository
+    .findAll()
+    .filter(
+      (res) =>
+        res.status === 'confirmed' &&
+        !res.checkedInAt &&
+        Date.parse(res.startAt) + releaseAfterMs <= now.getTime() &&
+        Date.parse(res.endAt) > now.getTime()
+    );
+
+  const released: Reservation[] = [];
+
+  for (const reservation of due) {
+    const noShow = reservationRepository.update(reservation.reservationId, {
+      status: 'no-show',
+    });
+
+    if (!noShow) {
+      continue;
+    }
+
+    recordChange(
+      'no-show',
+      SYSTEM_ACTOR_ID,
+      reservation,
+      noShow,
+      `Not checked in within ${config.NO_SHOW_RELEASE_MINUTES} minutes of the start`
+    );
+    released.push(noShow);
+  }
+
+  if (released.length > 0) {
+    logger.info('Released no-show reservations', {
+      reservationIds: released.map((res) => res.reservationId),
+    });
+  }
+
+  return released;
+}
+
+export function respondToInvitation(
+  reservationId: string,
+  userId: string,
+  response: RsvpResponse
+): Reservation {
+  logger.debug('Responding to invitation', {
+    reservationId,
+    userId,
+    response,
+  });
+
+  const reservation = reservationRepository.findById(reservationId);
+
+  if (!reservation || reservation.status !== 'confirmed') {
+    throw new NotFoundError(
+      `Reservation '${reservationId}' not found. It may have been cancelled.`
+    );
+  }
+
+  const attendees = reservation.attendees ?? [];
+  const invitation = attendees.find((attendee) => attendee.userId === userId);
+
+  if (!invitation) {
+    throw new ForbiddenError('You are not invited to this reservation.');
+  }
+
+  if (hasEnded(reservation)) {
+    throw new ValidationError('This reservation has already ended.');
+  }
+
+  const updatedAttendees = attendees.map((attendee) =>
+    attendee === invitation
+      ? {
+          ...attendee,
+          status: response,
+          respondedAt: new Date().toISOString(),
+        }
+      : attendee
+  );
+
+  const room = roomRepository.findById(reservation.roomId);
+  if (room && response === 'accepted') {
+    assertRoomFits(room, updatedAttendees);
+  }
+
+  const updated = reservationRepository.update(reservationId, {
+    attendees: updatedAttendees,
+  });
+
+  if (!updated) {
+    throw new Error('Failed to update invitation');
+  }
+
+  publishWebhookEvent('reservation.updated', {
+    action: 'rsvp',
+    actorId: userId,
+    response,
+    reservation: updated,
+    previous: reservation,
+  });
+
+  logger.info('Invitation answered', { reservationId, userId, response });
+
+  return updated;
+}
+
+export async function getReservation(
+  reservationId: string
+): Promise<Reservation> {
+  const reservation = reservationRepository.findById(reservationId);
+
+  if (!reservation) {
+    throw new NotFoundError(`Reservation '${reservationId}' not found.`);
+  }
+
+  return reservation;
+}
+
+export function convertRoomReservationsToTimeZone(
+  roomId: string,
+  timeZone: string
+): void {
+  const reservations = reservationRepository.findByRoomId(roomId);
+
+  for (const reservation of reservations) {
+    reservationRepository.update(
+      reservation.reservationId,
+      expressInTimeZone(reservation, timeZone)
+    );
+  }
+
+  logger.info('Converted room reservations to new time zone', {
+    roomId,
+    timeZone,
+    count: reservations.length,
+  });
 }
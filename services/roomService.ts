@@ -0,0 +1,148 @@
+import {
+  Actor,
+  CreateRoomRequest,
+  Reservation,
+  Room,
+  RoomFilters,
+  UpdateRoomRequest,
+} from '../types';
+import { roomRepository } from '../models/room';
+import { NotFoundError } from '../errors/ApiError';
+import {
+  cancelFutureRoomReservations,
+  convertRoomReservationsToTimeZone,
+} from './reservationService';
+import { convertRoomHoldsToTimeZone, purgeRoomHolds } from './holdService';
+import {
+  closeRoomWaitlist,
+  convertRoomWaitlistToTimeZone,
+} from './waitlistService';
+import { publishWebhookEvent } from './webhookService';
+import logger from '../utils/logger';
+
+export interface RoomChangeResult {
+  room: Room;
+  cancelledReservations: Reservation[];
+}
+
+function matchesFilters(room: Room, filters: RoomFilters): boolean {
+  if (!filters.includeInactive && !room.active) {
+    return false;
+  }
+  if (
+    filters.minCapacity !== undefined &&
+    room.capacity < filters.minCapacity
+  ) {
+    return false;
+  }
+  if (filters.building !== undefined && room.building !== filters.building) {
+    return false;
+  }
+  if (filters.floor !== undefined && room.floor !== filters.floor) {
+    return false;
+  }
+  if (
+    filters.equipment !== undefined &&
+    !filters.equipment.every((item) => room.equipment.includes(item))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function findRoomOrThrow(roomId: string): Room {
+  const room = roomRepository.findById(roomId);
+  if (!room) {
+    throw new NotFoundError(
+      `Room '${roomId}' not found. Please select a valid room.`
+    );
+  }
+  return room;
+}
+
+export function listRooms(filters: RoomFilters): Room[] {
+  logger.debug('Listing rooms', { filters });
+
+  return roomRepository
+    .findAll()
+    .filter((room) => matchesFilters(room, filters));
+}
+
+export function getRoom(roomId: string): Room {
+  return findRoomOrThrow(roomId);
+}
+
+export function createRoom(data: CreateRoomRequest): Room {
+  const room = roomRepository.create(data);
+
+  logger.info('Room created', { roomId: room.roomId, name: room.name });
+
+  return room;
+}
+
+export function updateRoom(
+  roomId: string,
+  changes: UpdateRoomRequest,
+  actor: Actor
+): RoomChangeResult {
+  const existing = findRoomOrThrow(roomId);
+
+  const room = roomRepository.update(roomId, changes);
+  if (!room) {
+    throw new Error('Failed to update room');
+  }
+
+  if (room.timeZone !== existing.timeZone) {
+    convertRoomReservationsToTimeZone(roomId, room.timeZone);
+    convertRoomHoldsToTimeZone(roomId, room.timeZone);
+    convertRoomWaitlistToTimeZone(roomId, room.timeZone);
+  }
+
+  const cancelledReservations =
+    existing.active && !room.active
+      ? cancelFutureRoomReservations(roomId, actor, 'Room deactivated')
+      : [];
+
+  publishWebhookEvent('room.updated', {
+    actorId: actor.userId,
+    room,
+    previous: existing,
+    changes,
+  });
+
+  logger.info('Room updated', {
+    roomId,
+    changes,
+    cancelledReservations: cancelledReservations.length,
+  });
+
+  return { room, cancelledReservations };
+}
+
+export function deleteRoom(roomId: string, actor: Actor): RoomChangeResult {
+  const room = findRoomOrThrow(roomId);
+
+  const cancelledReservations = cancelFutureRoomReservations(
+    roomId,
+    actor,
+    'Room deleted'
+  );
+  const closedWaitlistEntries = closeRoomWaitlist(roomId, 'Room deleted');
+  const purgedHolds = purgeRoomHolds(roomId);
+
+  const deleted = roomRepository.delete(roomId);
+  if (!deleted) {
+    throw new Error('Failed to delete room');
+  }
+
+  publishWebhookEvent('room.deleted', { actorId: actor.userId, room });
+
+  logger.info('Room deleted', {
+    roomId,
+    cancelledReservations: cancelledReservations.length,
+    closedWaitlistEntries: closedWaitlistEntries.length,
+    purgedHolds: purgedHolds.length,
+  });
+
+  return { room, cancelledReservations };
+}
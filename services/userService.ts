@@ -0,0 +1,162 @@
+import {
+  Actor,
+  CreateUserRequest,
+  PublicUser,
+  UpdateProfileRequest,
+  UpdateUserRequest,
+  User,
+} from '../types';
+import { hashPassword, userRepository, verifyPassword } from '../models/user';
+import { revokeAllSessions } from './authService';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '../errors/ApiError';
+import config from '../utils/config';
+import logger from '../utils/logger';
+
+function toPublicUser({
+  passwordHash: _,
+  feedTokenHash: __,
+  ...user
+}: User): PublicUser {
+  return user;
+}
+
+function findUserOrThrow(userId: string): User {
+  const user = userRepository.findById(userId);
+  if (!user) {
+    throw new NotFoundError(`User '${userId}' not found`);
+  }
+  return user;
+}
+
+/**
+ * Creates a user account. With REGISTRATION_MODE=invite only admins can
+ * create accounts; with "open" anyone can sign up as a member.
+ */
+export async function registerUser(
+  data: CreateUserRequest,
+  actor?: Actor
+): Promise<PublicUser> {
+  const isAdmin = actor?.role === 'admin';
+
+  if (config.REGISTRATION_MODE === 'invite' && !isAdmin) {
+    if (!actor) {
+      throw new UnauthorizedError(
+        'Registration is by invitation only. Please ask an administrator to create your account.'
+      );
+    }
+    throw new ForbiddenError('Only administrators can create user accounts');
+  }
+
+  if (data.role !== undefined && data.role !== 'member' && !isAdmin) {
+    throw new ForbiddenError('Only administrators can assign roles');
+  }
+
+  if (userRepository.findByUsername(data.username)) {
+    throw new ConflictError(`Username '${data.username}' is already taken`);
+  }
+
+  const user = userRepository.create({
+    username: data.username,
+    name: data.name,
+    email: data.email,
+    role: data.role ?? 'member',
+    active: true,
+    passwordHash: await hashPassword(data.password),
+  });
+
+  logger.info('User created', {
+    userId: user.userId,
+    username: user.username,
+    role: user.role,
+    createdBy: actor?.userId ?? 'self-registration',
+  });
+
+  return toPublicUser(user);
+}
+
+export function listUsers(): PublicUser[] {
+  return userRepository.findAll();
+}
+
+export function getProfile(userId: string): PublicUser {
+  return toPublicUser(findUserOrThrow(userId));
+}
+
+export function updateProfile(
+  userId: string,
+  changes: UpdateProfileRequest
+): PublicUser {
+  findUserOrThrow(userId);
+
+  const user = userRepository.update(userId, changes);
+  if (!user) {
+    throw new Error('Failed to update user');
+  }
+
+  logger.info('Profile updated', { userId, fields: Object.keys(changes) });
+
+  return toPublicUser(user);
+}
+
+/**
+ * Changes the password and logs out every other session, so a leaked
+ * password or refresh token stops working.
+ */
+export async function changePassword(
+  userId: string,
+  currentPassword: string,
+  newPassword: string,
+  currentSessionId?: string
+): Promise<void> {
+  const user = findUserOrThrow(userId);
+
+  const isValid = await verifyPassword(currentPassword, user.passwordHash);
+  if (!isValid) {
+    throw new ValidationError('Current password is incorrect');
+  }
+
+  userRepository.update(userId, {
+    passwordHash: await hashPassword(newPassword),
+  });
+
+  const revokedSessions = revokeAllSessions(userId, currentSessionId);
+
+  logger.info('Password changed', { userId, revokedSessions });
+}
+
+export function updateUser(
+  actor: Actor,
+  userId: string,
+  changes: UpdateUserRequest
+): PublicUser {
+  findUserOrThrow(userId);
+
+  if (changes.active === false && userId === actor.userId) {
+    throw new ValidationError('You cannot deactivate your own account');
+  }
+
+  const user = userRepository.update(userId, changes);
+  if (!user) {
+    throw new Error('Failed to update user');
+  }
+
+  if (!user.active) {
+    revokeAllSessions(userId);
+  }
+
+  logger.info('User updated', { userId, changes, updatedBy: actor.userId });
+
+  return toPublicUser(user);
+}
+
+export function revokeUserSessions(userId: string): number {
+  findUserOrThrow(userId);
+
+  return revokeAllSessions(userId);
+}
@@ -0,0 +1,29 @@
+import config from '../utils/config';
+import logger from '../utils/logger';
+import { expireWaitlistEntries } from './waitlistService';
+
+/**
+ * Expires waitlist entries and missed offers every
+ * WAITLIST_CHECK_INTERVAL_SECONDS. Returns a function that stops the
+ * scheduler.
+ */
+export function startWaitlistScheduler(
+  intervalSeconds: number = config.WAITLIST_CHECK_INTERVAL_SECONDS
+): () => void {
+  const timer = setInterval(() => {
+    try {
+      expireWaitlistEntries();
+    } catch (error) {
+      logger.error('Failed to expire waitlist entries', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, intervalSeconds * 1000);
+
+  // The scheduler alone should not keep the process alive
+  timer.unref();
+
+  logger.info('Waitlist scheduler started', { intervalSeconds });
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,484 @@
+import {
+  Actor,
+  JoinWaitlistRequest,
+  Reservation,
+  WaitlistEntry,
+  WaitlistStatus,
+} from '../types';
+import { waitlistRepository } from '../models/waitlist';
+import { holdRepository } from '../models/hold';
+import { roomRepository } from '../models/room';
+import {
+  ApiError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../errors/ApiError';
+import {
+  checkReservationRequest,
+  createNewReservation,
+  expressInTimeZone,
+} from './reservationService';
+import { notifyWaitlistOffer } from './notificationService';
+import { doBookingsOverlap } from './bookingPolicyService';
+import config from '../utils/config';
+import logger from '../utils/logger';
+
+type Slot = Pick<WaitlistEntry, 'roomId' | 'startAt' | 'endAt'>;
+
+const MINUTE_MS = 60 * 1000;
+
+function isOpen(entry: WaitlistEntry): boolean {
+  return entry.status === 'waiting' || entry.status === 'offered';
+}
+
+function overlaps(a: Slot, b: Slot): boolean {
+  return (
+    a.roomId === b.roomId &&
+    Date.parse(a.startAt) < Date.parse(b.endAt) &&
+    Date.parse(a.endAt) > Date.parse(b.startAt)
+  );
+}
+
+function toBookingRequest(entry: WaitlistEntry): JoinWaitlistRequest {
+  const { roomId, startDate, startTime, endTime, timeZone } = entry;
+  const { title, description, attendees } = entry;
+  return {
+    roomId,
+    startDate,
+    startTime,
+    endTime,
+    timeZone,
+    title,
+    description,
+    attendees,
+  };
+}
+
+function updateEntry(
+  entryId: string,
+  changes: Partial<Omit<WaitlistEntry, 'entryId'>>
+): WaitlistEntry {
+  const updated = waitlistRepository.update(entryId, changes);
+  if (!updated) {
+    throw new Error('Failed to update waitlist entry');
+  }
+  return updated;
+}
+
+function closeEntry(
+  entry: WaitlistEntry,
+  status: Extract<WaitlistStatus, 'cancelled' | 'expired'>,
+  reason: string,
+  now: Date = new Date()
+): WaitlistEntry {
+  return updateEntry(entry.entryId, {
+    status,
+    closedAt: now.toISOString(),
+    closedReason: reason,
+  });
+}
+
+// Frees the slot an offer was keeping for the entry's user
+function releaseOfferHold(entry: WaitlistEntry): void {
+  for (const hold of holdRepository.findByUserId(entry.userId)) {
+    if (hold.waitlistEntryId === entry.entryId) {
+      holdRepository.delete(hold.holdId);
+    }
+  }
+}
+
+function findEntry(entryId: string, actor: Actor): WaitlistEntry {
+  const entry = waitlistRepository.findById(entryId);
+  if (!entry) {
+    throw new NotFoundError(`Waitlist entry '${entryId}' not found`);
+  }
+
+  if (entry.userId !== actor.userId && actor.role !== 'admin') {
+    throw new ForbiddenError('You can only manage your own waitlist entries');
+  }
+
+  return entry;
+}
+
+function bookEntry(entry: WaitlistEntry): WaitlistEntry | undefined {
+  try {
+    const { reservation } = createNewReservation(
+      toBookingRequest(entry),
+      entry.userId
+    );
+
+    logger.info('Waitlist entry booked', {
+      entryId: entry.entryId,
+      reservationId: reservation.reservationId,
+    });
+
+    return updateEntry(entry.entryId, {
+      status: 'booked',
+      reservationId: reservation.reservationId,
+    });
+  } catch (error) {
+    // Still taken by someone else: keep waiting for the next cancellation
+    if (error instanceof ConflictError) {
+      return undefined;
+    }
+    // The request can never be booked as it stands, e.g. the room was closed
+    if (error instanceof ApiError) {
+      closeEntry(entry, 'expired', error.message);
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+function offerEntry(
+  entry: WaitlistEntry,
+  now: Date
+): WaitlistEntry | undefined {
+  // Only one person at a time is offered any part of the freed time
+  const hasOpenOffer = waitlistRepository
+    .findByRoomId(entry.roomId)
+    .some((other) => other.status === 'offered' && overlaps(other, entry));
+  if (hasOpenOffer) {
+    return undefined;
+  }
+
+  try {
+    const { conflicts, hold } = checkReservationRequest(
+      toBookingRequest(entry),
+      entry.userId
+    );
+    if (conflicts.length > 0 || hold) {
+      return undefined;
+    }
+  } catch (error) {
+    if (error instanceof ApiError) {
+      closeEntry(entry, 'expired', error.message, now);
+      return undefined;
+    }
+    throw error;
+  }
+
+  const claimBy = Math.min(
+    now.getTime() + config.WAITLIST_CLAIM_MINUTES * MINUTE_MS,
+    Date.parse(entry.startAt)
+  );
+  const offered = updateEntry(entry.entryId, {
+    status: 'offered',
+    offeredAt: now.toISOString(),
+    claimBy: new Date(claimBy).toISOString(),
+  });
+
+  // Hold the slot so nobody else can book it while the offer is open
+  const { roomId, startDate, endDate, startTime, endTime, timeZone } = entry;
+  holdRepository.create({
+    userId: entry.userId,
+    roomId,
+    startDate,
+    endDate,
+    startTime,
+    endTime,
+    timeZone,
+    startAt: entry.startAt,
+    endAt: entry.endAt,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(claimBy).toISOString(),
+    waitlistEntryId: entry.entryId,
+  });
+
+  notifyWaitlistOffer(offered);
+
+  logger.info('Waitlist slot offered', {
+    entryId: entry.entryId,
+    claimBy: offered.claimBy,
+  });
+
+  return offered;
+}
+
+/**
+ * Gives freed time to the waitlist entries it overlaps, oldest first. With
+ * WAITLIST_CLAIM_MINUTES set the slot is offered instead of booked outright.
+ * An entry just outside the freed slot may have been waiting on the room's
+ * setup or teardown time, so those count as part of the slot.
+ */
+function fillSlot(freed: Slot, now: Date): WaitlistEntry[] {
+  const room = roomRepository.findById(freed.roomId);
+  if (!room) {
+    return [];
+  }
+
+  const candidates = waitlistRepository
+    .findByRoomId(freed.roomId)
+    .filter(
+      (entry) =>
+        entry.status === 'waiting' &&
+        Date.parse(entry.startAt) > now.getTime() &&
+        doBookingsOverlap(room, entry, freed)
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const filled: WaitlistEntry[] = [];
+
+  for (const entry of candidates) {
+    const result =
+      config.WAITLIST_CLAIM_MINUTES > 0
+        ? offerEntry(entry, now)
+        : bookEntry(entry);
+    if (result) {
+      filled.push(result);
+    }
+  }
+
+  return filled;
+}
+
+/**
+ * Adds the user to the waitlist for a slot that another user has booked.
+ * The request is checked like a booking, so it can be made as soon as the
+ * slot is freed.
+ */
+export function joinWaitlist(
+  data: JoinWaitlistRequest,
+  userId: string
+): WaitlistEntry {
+  const { room, slot, conflicts, hold } = checkReservationRequest(data, userId);
+
+  if (conflicts.length === 0 && !hold) {
+    throw new ValidationError(
+      `${room.name} is not booked or held by anyone else at this time. Book it directly instead of joining the waitlist.`
+    );
+  }
+
+  const existing = waitlistRepository
+    .findByUserId(userId)
+    .find(
+      (entry) =>
+        isOpen(entry) && overlaps(entry, { roomId: room.roomId, ...slot })
+    );
+  if (existing) {
+    throw new ConflictError(
+      `You are already on the waitlist for ${room.name} from ${existing.startTime}-${existing.endTime} on ${existing.startDate}`
+    );
+  }
+
+  const entry = waitlistRepository.create({
+    userId,
+    roomId: room.roomId,
+    ...slot,
+    title: data.title,
+    description: data.description,
+    attendees: data.attendees,
+    status: 'waiting',
+    createdAt: new Date().toISOString(),
+  });
+
+  logger.info('Joined waitlist', {
+    entryId: entry.entryId,
+    roomId: entry.roomId,
+    startAt: entry.startAt,
+    endAt: entry.endAt,
+    userId,
+  });
+
+  return entry;
+}
+
+export function getUserWaitlist(
+  userId: string,
+  status?: WaitlistStatus
+): WaitlistEntry[] {
+  return waitlistRepository
+    .findByUserId(userId)
+    .filter((entry) => status === undefined || entry.status === status)
+    .sort((a, b) => a.startAt.localeCompare(b.startAt));
+}
+
+export function cancelWaitlistEntry(
+  entryId: string,
+  actor: Actor
+): WaitlistEntry {
+  const entry = findEntry(entryId, actor);
+  if (!isOpen(entry)) {
+    throw new ValidationError(`This waitlist entry is already ${entry.status}`);
+  }
+
+  const now = new Date();
+  const cancelled = closeEntry(entry, 'cancelled', 'Left the waitlist', now);
+
+  // A declined offer goes to the next person in line
+  if (entry.status === 'offered') {
+    releaseOfferHold(entry);
+    fillSlot(entry, now);
+  }
+
+  logger.info('Left waitlist', { entryId, userId: actor.userId });
+
+  return cancelled;
+}
+
+/**
+ * Books an offered slot for the user it was offered to. If someone else has
+ * booked the time in the meantime the entry goes back to waiting; if it can
+ * no longer be booked at all the entry expires.
+ */
+export function claimWaitlistOffer(entryId: string, actor: Actor): Reservation {
+  const entry = findEntry(entryId, actor);
+  if (entry.userId !== actor.userId) {
+    throw new ForbiddenError('Only the waitlisted user can claim this offer');
+  }
+  if (entry.status !== 'offered') {
+    throw new ValidationError('This waitlist entry has no open offer to claim');
+  }
+
+  const now = new Date();
+  if (entry.claimBy && Date.parse(entry.claimBy) <= now.getTime()) {
+    closeEntry(entry, 'expired', 'The offer was not claimed in time', now);
+    releaseOfferHold(entry);
+    fillSlot(entry, now);
+    throw new ValidationError('This offer has expired');
+  }
+
+  try {
+    const { reservation } = createNewReservation(
+      toBookingRequest(entry),
+      entry.userId
+    );
+    updateEntry(entryId, {
+      status: 'booked',
+      reservationId: reservation.reservationId,
+    });
+    releaseOfferHold(entry);
+
+    logger.info('Waitlist offer claimed', {
+      entryId,
+      reservationId: reservation.reservationId,
+    });
+
+    return reservation;
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      updateEntry(entryId, {
+        status: 'waiting',
+        offeredAt: undefined,
+        claimBy: undefined,
+      });
+      releaseOfferHold(entry);
+    } else if (error instanceof ApiError) {
+      // The request can never be booked as it stands, so the slot is passed
+      // on to the next person in line
+      closeEntry(entry, 'expired', error.message, now);
+      releaseOfferHold(entry);
+      fillSlot(entry, now);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Offers or books the time freed by cancelled or released reservations and
+ * by released or expired holds to the waitlist. Returns the entries that
+ * were offered or booked.
+ */
+export function fillFreedSlots(
+  freed: Slot[],
+  now: Date = new Date()
+): WaitlistEntry[] {
+  const filled: WaitlistEntry[] = [];
+
+  for (const slot of freed) {
+    filled.push(...fillSlot(slot, now));
+  }
+
+  return filled;
+}
+
+/**
+ * Expires entries whose slot has started and offers that were not claimed
+ * in time, passing the latter on to the next person in line. Run
+ * periodically by the waitlist scheduler.
+ */
+export function expireWaitlistEntries(now: Date = new Date()): WaitlistEntry[] {
+  const expired: WaitlistEntry[] = [];
+  const missedOffers: WaitlistEntry[] = [];
+
+  for (const entry of waitlistRepository.findAll()) {
+    if (!isOpen(entry)) {
+      continue;
+    }
+
+    if (Date.parse(entry.startAt) <= now.getTime()) {
+      expired.push(
+        closeEntry(entry, 'expired', 'The requested time has passed', now)
+      );
+      releaseOfferHold(entry);
+    } else if (
+      entry.status === 'offered' &&
+      entry.claimBy !== undefined &&
+      Date.parse(entry.claimBy) <= now.getTime()
+    ) {
+      expired.push(
+        closeEntry(entry, 'expired', 'The offer was not claimed in time', now)
+      );
+      releaseOfferHold(entry);
+      missedOffers.push(entry);
+    }
+  }
+
+  for (const entry of missedOffers) {
+    fillSlot(entry, now);
+  }
+
+  if (expired.length > 0) {
+    logger.info('Expired waitlist entries', {
+      entryIds: expired.map((entry) => entry.entryId),
+    });
+  }
+
+  return expired;
+}
+
+export function convertRoomWaitlistToTimeZone(
+  roomId: string,
+  timeZone: string
+): void {
+  const entries = waitlistRepository.findByRoomId(roomId);
+
+  for (const entry of entries) {
+    waitlistRepository.update(
+      entry.entryId,
+      expressInTimeZone(entry, timeZone)
+    );
+  }
+
+  logger.info('Converted room waitlist to new time zone', {
+    roomId,
+    timeZone,
+    count: entries.length,
+  });
+}
+
+/**
+ * Expires the open entries for a room that is being deleted. Offer holds
+ * are left to the caller, which drops all of the room's holds.
+ */
+export function closeRoomWaitlist(
+  roomId: string,
+  reason: string,
+  now: Date = new Date()
+): WaitlistEntry[] {
+  const closed = waitlistRepository
+    .findByRoomId(roomId)
+    .filter(isOpen)
+    .map((entry) => closeEntry(entry, 'expired', reason, now));
+
+  if (closed.length > 0) {
+    logger.info('Closed waitlist entries for room', {
+      roomId,
+      entryIds: closed.map((entry) => entry.entryId),
+    });
+  }
+
+  return closed;
+}
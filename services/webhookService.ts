@@ -0,0 +1,316 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Actor,
+  CreateWebhookRequest,
+  Page,
+  PageRequest,
+  PublicWebhook,
+  UpdateWebhookRequest,
+  Webhook,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookPayload,
+} from '../types';
+import {
+  webhookDeliveryRepository,
+  webhookRepository,
+} from '../models/webhook';
+import { NotFoundError } from '../errors/ApiError';
+import { paginate } from '../utils/pagination';
+import config from '../utils/config';
+import logger from '../utils/logger';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+// Attempts that are running or waiting for a retry timer
+const pendingAttempts = new Set<Promise<void>>();
+
+function generateSecret(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function toPublicWebhook({ secret: _, ...webhook }: Webhook): PublicWebhook {
+  return webhook;
+}
+
+function findWebhookOrThrow(webhookId: string): Webhook {
+  const webhook = webhookRepository.findById(webhookId);
+  if (!webhook) {
+    throw new NotFoundError(`Webhook '${webhookId}' not found`);
+  }
+  return webhook;
+}
+
+/**
+ * Signs `<timestamp>.<body>` so receivers can check both the payload and
+ * that the request is recent.
+ */
+export function signPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+function getRetryDelayMs(attempts: number): number {
+  return config.WEBHOOK_RETRY_BASE_SECONDS * 1000 * 2 ** (attempts - 1);
+}
+
+async function postPayload(
+  webhook: Webhook,
+  delivery: WebhookDelivery
+): Promise<{ responseStatus?: number; error?: string }> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Event': delivery.payload.type,
+        'X-Webhook-Delivery': delivery.deliveryId,
+        'X-Webhook-Timestamp': timestamp,
+        [SIGNATURE_HEADER]: signPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(config.WEBHOOK_TIMEOUT_SECONDS * 1000),
+    });
+    await response.body?.cancel();
+
+    return response.ok
+      ? { responseStatus: response.status }
+      : {
+          responseStatus: response.status,
+          error: `Endpoint responded with status ${response.status}`,
+        };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function attemptDelivery(deliveryId: string): Promise<void> {
+  const delivery = webhookDeliveryRepository.findById(deliveryId);
+  if (!delivery) {
+    return;
+  }
+
+  // The webhook may have been deleted or paused while this attempt waited
+  const webhook = webhookRepository.findById(delivery.webhookId);
+  if (!webhook || !webhook.active) {
+    webhookDeliveryRepository.update(deliveryId, {
+      status: 'failed',
+      nextAttemptAt: undefined,
+      error: 'Webhook is no longer active',
+    });
+    return;
+  }
+
+  const { responseStatus, error } = await postPayload(webhook, delivery);
+  const attempts = delivery.attempts + 1;
+  const lastAttemptAt = new Date().toISOString();
+
+  if (!error) {
+    webhookDeliveryRepository.update(deliveryId, {
+      status: 'succeeded',
+      attempts,
+      lastAttemptAt,
+      nextAttemptAt: undefined,
+      responseStatus,
+      error: undefined,
+    });
+    logger.debug('Webhook delivered', { deliveryId, attempts });
+    return;
+  }
+
+  if (attempts >= config.WEBHOOK_MAX_ATTEMPTS) {
+    webhookDeliveryRepository.update(deliveryId, {
+      status: 'failed',
+      attempts,
+      lastAttemptAt,
+      nextAttemptAt: undefined,
+      responseStatus,
+      error,
+    });
+    logger.warn('Webhook delivery failed', {
+      deliveryId,
+      webhookId: webhook.webhookId,
+      attempts,
+      error,
+    });
+    return;
+  }
+
+  const delayMs = getRetryDelayMs(attempts);
+  webhookDeliveryRepository.update(deliveryId, {
+    attempts,
+    lastAttemptAt,
+    nextAttemptAt: new Date(Date.now() + delayMs).toISOString(),
+    responseStatus,
+    error,
+  });
+  logger.debug('Webhook delivery will be retried', {
+    deliveryId,
+    attempts,
+    delayMs,
+  });
+  scheduleAttempt(deliveryId, delayMs);
+}
+
+function scheduleAttempt(deliveryId: string, delayMs: number): void {
+  const attempt = new Promise<void>((resolve) => {
+    // Retry timers must not keep the process alive on shutdown
+    setTimeout(() => {
+      attemptDelivery(deliveryId).then(resolve, (error: unknown) => {
+        logger.error('Webhook delivery attempt crashed', { deliveryId, error });
+        resolve();
+      });
+    }, delayMs).unref();
+  });
+
+  pendingAttempts.add(attempt);
+  void attempt.then(() => pendingAttempts.delete(attempt));
+}
+
+/**
+ * Queues a delivery of the event to every active webhook subscribed to it.
+ * Returns immediately; deliveries happen in the background.
+ */
+export function publishWebhookEvent(
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): void {
+  const subscribers = webhookRepository
+    .findAll()
+    .filter((webhook) => webhook.active && webhook.events.includes(type));
+  if (subscribers.length === 0) {
+    return;
+  }
+
+  const payload: WebhookPayload = {
+    eventId: uuidv4(),
+    type,
+    occurredAt: new Date().toISOString(),
+    data,
+  };
+
+  for (const webhook of subscribers) {
+    const delivery = webhookDeliveryRepository.create({
+      webhookId: webhook.webhookId,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      createdAt: payload.occurredAt,
+    });
+    scheduleAttempt(delivery.deliveryId, 0);
+  }
+
+  logger.debug('Webhook event published', {
+    eventId: payload.eventId,
+    type,
+    webhooks: subscribers.length,
+  });
+}
+
+/**
+ * Schedules deliveries left pending by a previous run, whose retry timers
+ * were lost when the process stopped. Attempts that are already due run
+ * straight away; the rest keep their retry time. Called once on startup.
+ */
+export function resumePendingWebhookDeliveries(now: Date = new Date()): number {
+  const pending = webhookDeliveryRepository.findByStatus('pending');
+
+  for (const delivery of pending) {
+    const dueAt = delivery.nextAttemptAt
+      ? Date.parse(delivery.nextAttemptAt)
+      : now.getTime();
+    scheduleAttempt(delivery.deliveryId, Math.max(dueAt - now.getTime(), 0));
+  }
+
+  if (pending.length > 0) {
+    logger.info('Resumed pending webhook deliveries', {
+      count: pending.length,
+    });
+  }
+
+  return pending.length;
+}
+
+/**
+ * Resolves once every queued delivery has succeeded or failed, including
+ * retries scheduled along the way.
+ */
+export async function drainWebhookDeliveries(): Promise<void> {
+  while (pendingAttempts.size > 0) {
+    await Promise.all([...pendingAttempts]);
+  }
+}
+
+export function createWebhook(
+  data: CreateWebhookRequest,
+  actor: Actor
+): Webhook {
+  const webhook = webhookRepository.create({
+    url: data.url,
+    events: data.events,
+    secret: data.secret ?? generateSecret(),
+    active: true,
+    createdBy: actor.userId,
+    createdAt: new Date().toISOString(),
+  });
+
+  logger.info('Webhook registered', {
+    webhookId: webhook.webhookId,
+    url: webhook.url,
+    events: webhook.events,
+  });
+
+  return webhook;
+}
+
+export function listWebhooks(): PublicWebhook[] {
+  return webhookRepository.findAll().map(toPublicWebhook);
+}
+
+export function updateWebhook(
+  webhookId: string,
+  changes: UpdateWebhookRequest
+): PublicWebhook {
+  findWebhookOrThrow(webhookId);
+
+  const webhook = webhookRepository.update(webhookId, changes);
+  if (!webhook) {
+    throw new Error('Failed to update webhook');
+  }
+
+  logger.info('Webhook updated', { webhookId, changes });
+
+  return toPublicWebhook(webhook);
+}
+
+export function deleteWebhook(webhookId: string): void {
+  findWebhookOrThrow(webhookId);
+
+  webhookRepository.delete(webhookId);
+
+  logger.info('Webhook deleted', { webhookId });
+}
+
+export function getWebhookDeliveries(
+  webhookId: string,
+  page: PageRequest
+): Page<WebhookDelivery> {
+  findWebhookOrThrow(webhookId);
+
+  const deliveries = webhookDeliveryRepository
+    .findByWebhookId(webhookId)
+    .reverse();
+
+  return paginate(deliveries, page);
+}
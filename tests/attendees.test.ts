@@ -0,0 +1,253 @@
+import request from 'supertest';
+import { createApp } from '../app';
+import { Express } from 'express';
+import { Reservation } from '../types';
+import { getAuthToken, TestResponse } from './helpers';
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+function guests(count: number): { email: string }[] {
+  return Array.from({ length: count }, (_, index) => ({
+    email: `guest${index + 1}@example.com`,
+  }));
+}
+
+const meeting = {
+  roomId: 'room-3',
+  startDate: '2030-10-07',
+  startTime: '10:00',
+  endTime: '11:00',
+  title: 'Sprint planning',
+  description: 'Plan the next two weeks',
+};
+
+function book(token: string, body: Record<string, unknown>): request.Test {
+  return request(app)
+    .post('/api/reservations')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+}
+
+function rsvp(token: string, id: string, response: string): request.Test {
+  return request(app)
+    .post(`/api/reservations/${id}/rsvp`)
+    .set('Authorization', `Bearer ${token}`)
+    .send({ response });
+}
+
+describe('Reservation details and attendees', () => {
+  it('should store the title, description and pending attendees', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse<Reservation> = await book(token, {
+      ...meeting,
+      attendees: [{ userId: 'user-2' }, { email: 'Guest@Example.com' }],
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({
+      title: 'Sprint planning',
+      description: 'Plan the next two weeks',
+      attendees: [
+        { userId: 'user-2', status: 'pending' },
+        { email: 'guest@example.com', status: 'pending' },
+      ],
+    });
+  });
+
+  it('should return 400 when the meeting does not fit the room', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse = await book(token, {
+      ...meeting,
+      attendees: guests(4),
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe(
+      'Huddle Space C has room for 4 people, but this meeting has 5 including the organizer. Please choose a larger room.'
+    );
+  });
+
+  it('should return 400 for an unknown attendee user', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse = await book(token, {
+      ...meeting,
+      attendees: [{ userId: 'user-999' }],
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('is not an active user');
+  });
+
+  it('should return 400 when the organizer is listed as an attendee', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse = await book(token, {
+      ...meeting,
+      attendees: [{ userId: 'user-1' }],
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('organizer');
+  });
+
+  it('should return 400 for duplicate or malformed attendees', async () => {
+    const token = await getAuthToken();
+
+    const duplicate: TestResponse = await book(token, {
+      ...meeting,
+      attendees: [{ email: 'a@example.com' }, { email: 'A@example.com' }],
+    });
+    const malformed = await book(token, {
+      ...meeting,
+      attendees: [{ email: 'not-an-email' }],
+    });
+
+    expect(duplicate.status).toBe(400);
+    expect(duplicate.body.message).toContain(
+      'Each attendee can only be listed once'
+    );
+    expect(malformed.status).toBe(400);
+  });
+
+  it('should keep existing RSVPs when attendees are updated', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const created: TestResponse<Reservation> = await book(token, {
+      ...meeting,
+      attendees: [{ userId: 'user-2' }],
+    });
+    const id = created.body.data.reservationId;
+    await rsvp(bobToken, id, 'accepted');
+
+    const response: TestResponse<Reservation> = await request(app)
+      .patch(`/api/reservations/${id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        title: 'Sprint review',
+        attendees: [{ userId: 'user-2' }, { userId: 'user-3' }],
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.title).toBe('Sprint review');
+    expect(response.body.data.attendees).toMatchObject([
+      { userId: 'user-2', status: 'accepted' },
+      { userId: 'user-3', status: 'pending' },
+    ]);
+  });
+
+  it('should return 400 when moving a meeting into a smaller room', async () => {
+    const token = await getAuthToken();
+    const created: TestResponse<Reservation> = await book(token, {
+      ...meeting,
+      roomId: 'room-2',
+      attendees: guests(5),
+    });
+
+    const response: TestResponse = await request(app)
+      .patch(`/api/reservations/${created.body.data.reservationId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ roomId: 'room-3' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('has room for 4 people');
+  });
+});
+
+describe('RSVP - POST /api/reservations/:id/rsvp', () => {
+  it('should record an attendee response', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const created: TestResponse<Reservation> = await book(token, {
+      ...meeting,
+      attendees: [{ userId: 'user-2' }],
+    });
+
+    const response: TestResponse<Reservation> = await rsvp(
+      bobToken,
+      created.body.data.reservationId,
+      'declined'
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.body.message).toBe('Invitation declined');
+    const [attendee] = response.body.data.attendees ?? [];
+    expect(attendee).toMatchObject({
+      userId: 'user-2',
+      status: 'declined',
+    });
+    expect(Date.parse(attendee.respondedAt ?? '')).not.toBeNaN();
+  });
+
+  it('should return 403 for users who are not invited', async () => {
+    const token = await getAuthToken();
+    const carolToken = await getAuthToken('carol', 'CarolAdmin2026!');
+    const created: TestResponse<Reservation> = await book(token, {
+      ...meeting,
+      attendees: [{ userId: 'user-2' }],
+    });
+
+    const response: TestResponse = await rsvp(
+      carolToken,
+      created.body.data.reservationId,
+      'accepted'
+    );
+
+    expect(response.status).toBe(403);
+    expect(response.body.message).toBe(
+      'You are not invited to this reservation.'
+    );
+  });
+
+  it('should return 400 for an unknown response', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+
+    const response: TestResponse = await rsvp(bobToken, 'res-1', 'maybe');
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain(
+      'Response must be accepted or declined'
+    );
+  });
+
+  it('should return 404 for an unknown reservation', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+
+    const response = await rsvp(bobToken, 'non-existent-id', 'accepted');
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Invitations in My Reservations - GET /api/me/reservations', () => {
+  it('should list reservations the user is invited to until declined', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const created: TestResponse<Reservation> = await book(token, {
+      ...meeting,
+      attendees: [{ userId: 'user-2' }],
+    });
+    const id = created.body.data.reservationId;
+
+    const invited: TestResponse<Reservation[]> = await request(app)
+      .get('/api/me/reservations?from=2030-10-01')
+      .set('Authorization', `Bearer ${bobToken}`);
+    await rsvp(bobToken, id, 'declined');
+    const declined: TestResponse<Reservation[]> = await request(app)
+      .get('/api/me/reservations?from=2030-10-01')
+      .set('Authorization', `Bearer ${bobToken}`);
+
+    expect(
+      invited.body.data.map(
+        (res: { reservationId: string }) => res.reservationId
+      )
+    ).toEqual([id]);
+    expect(declined.body.data).toEqual([]);
+  });
+});
@@ -0,0 +1,294 @@
+import request from 'supertest';
+import { createApp } from '../app';
+import { Express } from 'express';
+import { auditRepository, MAX_AUDIT_EVENTS } from '../models/audit';
+import { AuditEvent, Reservation } from '../types';
+import { getAuthToken, TestResponse } from './helpers';
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+async function getAdminToken(): Promise<string> {
+  return getAuthToken('carol', 'CarolAdmin2026!');
+}
+
+async function createReservation(
+  token: string,
+  body: Record<string, unknown> = {
+    roomId: 'room-1',
+    startDate: '2030-08-05',
+    startTime: '09:00',
+    endTime: '10:00',
+  }
+): Promise<string> {
+  const response: TestResponse<Reservation> = await request(app)
+    .post('/api/reservations')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+
+  return response.body.data.reservationId;
+}
+
+function getHistory(token: string, reservationId: string): request.Test {
+  return request(app)
+    .get(`/api/reservations/${reservationId}/history`)
+    .set('Authorization', `Bearer ${token}`);
+}
+
+describe('Reservation history - GET /api/reservations/:id/history', () => {
+  it('should record creation, rescheduling and cancellation in order', async () => {
+    const token = await getAuthToken();
+    const id = await createReservation(token);
+
+    await request(app)
+      .patch(`/api/reservations/${id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ startTime: '13:00', endTime: '14:00' });
+
+    await request(app)
+      .delete(`/api/reservations/${id}`)
+      .set('Authorization', `Bearer ${token}`);
+
+    const response: TestResponse<AuditEvent[]> = await getHistory(token, id);
+
+    expect(response.status).toBe(200);
+    expect(
+      response.body.data.map((event: { action: string }) => event.action)
+    ).toEqual(['created', 'rescheduled', 'cancelled']);
+
+    const [created, rescheduled, cancelled] = response.body.data;
+    expect(created).toMatchObject({ actorId: 'user-1', before: null });
+    expect(created.after?.startTime).toBe('09:00');
+    expect(rescheduled.before?.startTime).toBe('09:00');
+    expect(rescheduled.after?.startTime).toBe('13:00');
+    expect(cancelled.before?.startTime).toBe('13:00');
+    expect(cancelled.after).toMatchObject({
+      status: 'cancelled',
+      cancelledBy: 'user-1',
+    });
+    expect(Date.parse(cancelled.at)).not.toBeNaN();
+  });
+
+  it('should record the admin as the actor when an admin cancels', async () => {
+    const token = await getAuthToken();
+    const adminToken = await getAdminToken();
+    const id = await createReservation(token);
+
+    await request(app)
+      .delete(`/api/reservations/${id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    const response: TestResponse<AuditEvent[]> = await getHistory(token, id);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data[1]).toMatchObject({
+      action: 'cancelled',
+      actorId: 'user-3',
+    });
+    expect(response.body.data[1].before?.userId).toBe('user-1');
+  });
+
+  it('should record an own-overlap merge as updated-by-overlap', async () => {
+    const token = await getAuthToken();
+    const id = await createReservation(token);
+
+    await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        roomId: 'room-1',
+        startDate: '2030-08-05',
+        startTime: '09:30',
+        endTime: '11:00',
+        onOwnConflict: 'merge',
+      });
+
+    const response: TestResponse<AuditEvent[]> = await getHistory(token, id);
+
+    expect(response.body.data[1]).toMatchObject({
+      action: 'updated-by-overlap',
+      actorId: 'user-1',
+      reason: 'onOwnConflict: merge',
+    });
+    expect(response.body.data[1].before?.endTime).toBe('10:00');
+    expect(response.body.data[1].after?.endTime).toBe('11:00');
+  });
+
+  it('should record the reason when a room deactivation cancels a booking', async () => {
+    const token = await getAuthToken();
+    const adminToken = await getAdminToken();
+    const id = await createReservation(token, {
+      roomId: 'room-2',
+      startDate: '2030-08-06',
+      startTime: '09:00',
+      endTime: '10:00',
+    });
+
+    await request(app)
+      .patch('/api/rooms/room-2')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ active: false });
+
+    const response: TestResponse<AuditEvent[]> = await getHistory(token, id);
+
+    expect(response.body.data[1]).toMatchObject({
+      action: 'cancelled',
+      actorId: 'user-3',
+      reason: 'Room deactivated',
+    });
+  });
+
+  it("should return 403 for another user's reservation", async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const id = await createReservation(token);
+
+    const response: TestResponse = await getHistory(bobToken, id);
+
+    expect(response.status).toBe(403);
+    expect(response.body.message).toBe(
+      'You can only view the history of your own reservations.'
+    );
+  });
+
+  it('should return 404 for an unknown reservation', async () => {
+    const token = await getAuthToken();
+
+    const response = await getHistory(token, 'non-existent-id');
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Audit log - GET /api/audit-log', () => {
+  it('should list events newest first for admins', async () => {
+    const token = await getAuthToken();
+    const adminToken = await getAdminToken();
+    const id = await createReservation(token);
+
+    await request(app)
+      .delete(`/api/reservations/${id}`)
+      .set('Authorization', `Bearer ${token}`);
+
+    const response: TestResponse<AuditEvent[]> = await request(app)
+      .get('/api/audit-log')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data[0]).toMatchObject({
+      reservationId: id,
+      action: 'cancelled',
+    });
+    expect(response.body.pagination.total).toBe(2);
+  });
+
+  it('should filter by action, user and room', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const adminToken = await getAdminToken();
+    const aliceId = await createReservation(token);
+    await createReservation(bobToken, {
+      roomId: 'room-2',
+      startDate: '2030-08-05',
+      startTime: '09:00',
+      endTime: '10:00',
+    });
+
+    const response: TestResponse<AuditEvent[]> = await request(app)
+      .get('/api/audit-log?action=created&userId=user-1&roomId=room-1')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(1);
+    expect(response.body.data[0].reservationId).toBe(aliceId);
+  });
+
+  it('should paginate results', async () => {
+    const token = await getAuthToken();
+    const adminToken = await getAdminToken();
+    await createReservation(token);
+    await createReservation(token, {
+      roomId: 'room-1',
+      startDate: '2030-08-06',
+      startTime: '09:00',
+      endTime: '10:00',
+    });
+
+    const response: TestResponse<AuditEvent[]> = await request(app)
+      .get('/api/audit-log?limit=1&offset=1')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(1);
+    expect(response.body.pagination).toMatchObject({
+      total: 2,
+      limit: 1,
+      offset: 1,
+    });
+  });
+
+  it('should return 400 for an unknown action', async () => {
+    const adminToken = await getAdminToken();
+
+    const response = await request(app)
+      .get('/api/audit-log?action=deleted')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should record restored cancellations', async () => {
+    const token = await getAuthToken();
+    const adminToken = await getAdminToken();
+    const id = await createReservation(token);
+
+    await request(app)
+      .delete(`/api/reservations/${id}`)
+      .set('Authorization', `Bearer ${token}`);
+    await request(app)
+      .post(`/api/reservations/${id}/restore`)
+      .set('Authorization', `Bearer ${token}`);
+
+    const response: TestResponse<AuditEvent[]> = await request(app)
+      .get('/api/audit-log?action=restored')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.body.data).toHaveLength(1);
+    expect(response.body.data[0].before?.status).toBe('cancelled');
+    expect(response.body.data[0].after?.status).toBe('confirmed');
+  });
+
+  it('should return 403 for members', async () => {
+    const token = await getAuthToken();
+
+    const response = await request(app)
+      .get('/api/audit-log')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('Audit log retention', () => {
+  it('should drop the oldest events past the retention cap', () => {
+    const event = {
+      reservationId: 'res-1',
+      action: 'created' as const,
+      actorId: 'user-1',
+      at: '2026-05-21T12:00:00.000Z',
+      before: null,
+      after: null,
+    };
+    const oldest = auditRepository.append(event);
+    for (let i = 0; i < MAX_AUDIT_EVENTS; i++) {
+      auditRepository.append(event);
+    }
+
+    const events = auditRepository.findAll();
+    expect(events).toHaveLength(MAX_AUDIT_EVENTS);
+    expect(events).not.toContainEqual(oldest);
+  });
+});
@@ -0,0 +1,231 @@
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { createApp } from '../app';
+import { Express } from 'express';
+import config from '../utils/config';
+import { LoginResult } from '../services/authService';
+import { sessionRepository } from '../models/session';
+import { TestResponse } from './helpers';
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+interface Tokens {
+  token: string;
+  refreshToken: string;
+}
+
+interface RevokedSessions {
+  revokedSessions: number;
+}
+
+async function login(
+  username: string = 'alice',
+  password: string = 'SecurePass123!'
+): Promise<Tokens> {
+  const response: TestResponse<LoginResult> = await request(app)
+    .post('/api/login')
+    .send({ username, password });
+
+  return response.body.data;
+}
+
+function getMe(token: string): request.Test {
+  return request(app).get('/api/me').set('Authorization', `Bearer ${token}`);
+}
+
+function refresh(refreshToken: string): request.Test {
+  return request(app).post('/api/token/refresh').send({ refreshToken });
+}
+
+describe('Login tokens - POST /api/login', () => {
+  it('should return an access token and a refresh token', async () => {
+    const response: TestResponse<LoginResult> = await request(app)
+      .post('/api/login')
+      .send({ username: 'alice', password: 'SecurePass123!' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.token).toBeDefined();
+    expect(response.body.data.refreshToken).toBeDefined();
+    expect(response.body.data.expiresIn).toBe(config.JWT_EXPIRES_IN);
+  });
+
+  it('should reject an expired access token with a refresh hint', async () => {
+    const { token } = await login();
+    const payload = { ...(jwt.decode(token) as jwt.JwtPayload) };
+    delete payload.iat;
+    delete payload.exp;
+    const expired = jwt.sign(payload, config.JWT_SECRET, { expiresIn: -10 });
+
+    const response: TestResponse = await getMe(expired);
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toContain('Token has expired');
+  });
+});
+
+describe('Refresh - POST /api/token/refresh', () => {
+  it('should issue a new token pair that works', async () => {
+    const { refreshToken } = await login();
+
+    const response: TestResponse<Tokens> = await refresh(refreshToken);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.refreshToken).not.toBe(refreshToken);
+
+    const me = await getMe(response.body.data.token);
+    expect(me.status).toBe(200);
+  });
+
+  it('should revoke the session when a used refresh token is replayed', async () => {
+    const { refreshToken } = await login();
+    const rotated: TestResponse<Tokens> = await refresh(refreshToken);
+
+    const replay: TestResponse = await refresh(refreshToken);
+
+    expect(replay.status).toBe(401);
+    expect(replay.body.message).toContain('already been used');
+
+    const next = await refresh(rotated.body.data.refreshToken);
+    expect(next.status).toBe(401);
+    const me = await getMe(rotated.body.data.token);
+    expect(me.status).toBe(401);
+  });
+
+  it('should return 401 for an unknown refresh token', async () => {
+    const response = await refresh('not-a-session.secret');
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return 400 without a refresh token', async () => {
+    const response: TestResponse = await request(app)
+      .post('/api/token/refresh')
+      .send({});
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('Refresh token is required');
+  });
+});
+
+describe('Logout - POST /api/logout', () => {
+  it('should revoke the current session only', async () => {
+    const first = await login();
+    const second = await login();
+
+    const response = await request(app)
+      .post('/api/logout')
+      .set('Authorization', `Bearer ${first.token}`);
+
+    expect(response.status).toBe(200);
+
+    const revoked: TestResponse = await getMe(first.token);
+    expect(revoked.status).toBe(401);
+    expect(revoked.body.message).toContain('logged out');
+    expect((await refresh(first.refreshToken)).status).toBe(401);
+
+    expect((await getMe(second.token)).status).toBe(200);
+  });
+
+  it('should return 401 without a token', async () => {
+    const response = await request(app).post('/api/logout');
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('Logout everywhere', () => {
+  it("should revoke all of the user's sessions", async () => {
+    const first = await login();
+    const second = await login();
+    const bob = await login('bob', 'BobSecure2026!');
+
+    const response: TestResponse<RevokedSessions> = await request(app)
+      .post('/api/logout/all')
+      .set('Authorization', `Bearer ${first.token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.revokedSessions).toBe(2);
+    expect((await getMe(first.token)).status).toBe(401);
+    expect((await getMe(second.token)).status).toBe(401);
+    expect((await getMe(bob.token)).status).toBe(200);
+  });
+
+  it('should let an admin log out all sessions of another user', async () => {
+    const bob = await login('bob', 'BobSecure2026!');
+    const carol = await login('carol', 'CarolAdmin2026!');
+
+    const response: TestResponse<RevokedSessions> = await request(app)
+      .delete('/api/users/user-2/sessions')
+      .set('Authorization', `Bearer ${carol.token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.revokedSessions).toBe(1);
+    expect((await getMe(bob.token)).status).toBe(401);
+  });
+
+  it('should return 403 when a member logs out another user', async () => {
+    const alice = await login();
+
+    const response = await request(app)
+      .delete('/api/users/user-2/sessions')
+      .set('Authorization', `Bearer ${alice.token}`);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should log out other sessions when the password changes', async () => {
+    const current = await login();
+    const other = await login();
+
+    const response = await request(app)
+      .post('/api/me/password')
+      .set('Authorization', `Bearer ${current.token}`)
+      .send({
+        currentPassword: 'SecurePass123!',
+        newPassword: 'EvenMoreSecure2026!',
+      });
+
+    expect(response.status).toBe(200);
+    expect((await getMe(current.token)).status).toBe(200);
+    expect((await getMe(other.token)).status).toBe(401);
+    expect((await refresh(other.refreshToken)).status).toBe(401);
+  });
+});
+
+describe('Session cleanup', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should purge revoked and long expired sessions on login', async () => {
+    const revoked = await login();
+    const live = await login();
+    await request(app)
+      .post('/api/logout')
+      .set('Authorization', `Bearer ${revoked.token}`);
+    const expired = sessionRepository.create({
+      userId: 'user-2',
+      refreshTokenHash: 'unused',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      expiresAt: '2026-01-02T00:00:00.000Z',
+    });
+
+    // Sessions are swept at most once per access token lifetime
+    jest
+      .spyOn(Date, 'now')
+      .mockReturnValue(Date.now() + 2 * config.JWT_EXPIRES_IN * 1000);
+    const next = await login();
+
+    const sessionIds = sessionRepository
+      .findAll()
+      .map((session) => session.sessionId);
+    const idOf = (tokens: Tokens): string => tokens.refreshToken.split('.')[0];
+    expect(sessionIds).toEqual([idOf(live), idOf(next)]);
+    expect(sessionIds).not.toContain(expired.sessionId);
+    expect(sessionIds).not.toContain(idOf(revoked));
+  });
+});
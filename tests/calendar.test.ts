@@ -0,0 +1,174 @@
+import request from 'supertest';
+import { createApp } from '../app';
+import { Express } from 'express';
+import { renderCalendar } from '../utils/ical';
+import { Reservation } from '../types';
+import { getAuthToken, TestResponse } from './helpers';
+
+interface FeedTokenLinks {
+  feedToken: string;
+  myCalendarUrl: string;
+}
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+async function getFeedToken(authToken: string): Promise<string> {
+  const response: TestResponse<FeedTokenLinks> = await request(app)
+    .post('/api/me/feed-token')
+    .set('Authorization', `Bearer ${authToken}`);
+
+  return response.body.data.feedToken;
+}
+
+describe('Calendar Feed Token - POST /api/me/feed-token', () => {
+  it('should issue a feed token with calendar URLs', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse<FeedTokenLinks> = await request(app)
+      .post('/api/me/feed-token')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.feedToken).toEqual(expect.any(String));
+    expect(response.body.data.myCalendarUrl).toBe(
+      `/api/me/calendar.ics?token=${response.body.data.feedToken}`
+    );
+  });
+
+  it('should invalidate the previous feed token when a new one is issued', async () => {
+    const token = await getAuthToken();
+    const first = await getFeedToken(token);
+    await getFeedToken(token);
+
+    const response = await request(app).get(
+      `/api/me/calendar.ics?token=${first}`
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should return 401 without a bearer token', async () => {
+    const response = await request(app).post('/api/me/feed-token');
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('My Calendar - GET /api/me/calendar.ics', () => {
+  it("should render the user's reservations as VEVENTs", async () => {
+    const feedToken = await getFeedToken(await getAuthToken());
+
+    const response = await request(app).get(
+      `/api/me/calendar.ics?token=${feedToken}`
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/calendar');
+    expect(response.text).toMatch(/^BEGIN:VCALENDAR\r\nVERSION:2\.0\r\n/);
+    expect(response.text).toContain('UID:res-1@meeting-room-reservations');
+    expect(response.text).toContain('DTSTART:20260602T060000Z');
+    expect(response.text).toContain('DTEND:20260602T073000Z');
+    expect(response.text).toContain('LOCATION:Conference Room A\\, HQ floor 2');
+    expect(response.text).not.toContain('res-2@');
+    expect(response.text.match(/BEGIN:VEVENT/g)).toHaveLength(3);
+  });
+
+  it('should use the computed end date for midnight-spanning reservations', async () => {
+    const token = await getAuthToken();
+    const created: TestResponse<Reservation> = await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        roomId: 'room-2',
+        startDate: '2030-03-04',
+        startTime: '23:00',
+        endTime: '01:00',
+        timeZone: 'UTC',
+      });
+    const feedToken = await getFeedToken(token);
+
+    const response = await request(app).get(
+      `/api/me/calendar.ics?token=${feedToken}`
+    );
+
+    expect(response.text).toContain(
+      `UID:${created.body.data.reservationId}@meeting-room-reservations`
+    );
+    expect(response.text).toContain('DTSTART:20300304T230000Z');
+    expect(response.text).toContain('DTEND:20300305T010000Z');
+  });
+
+  it('should return 401 without a feed token', async () => {
+    const response: TestResponse = await request(app).get(
+      '/api/me/calendar.ics'
+    );
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toContain('feed token required');
+  });
+
+  it('should not accept a bearer token as a feed token', async () => {
+    const token = await getAuthToken();
+
+    const response = await request(app).get(
+      `/api/me/calendar.ics?token=${token}`
+    );
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('Room Calendar - GET /api/rooms/:roomId/calendar.ics', () => {
+  it("should render all of the room's reservations", async () => {
+    const feedToken = await getFeedToken(await getAuthToken());
+
+    const response = await request(app).get(
+      `/api/rooms/room-1/calendar.ics?token=${feedToken}`
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.text).toContain('X-WR-CALNAME:Conference Room A');
+    expect(response.text).toContain('UID:res-1@meeting-room-reservations');
+    expect(response.text).toContain('UID:res-2@meeting-room-reservations');
+    expect(response.text).toContain('SUMMARY:Reserved by Bob Smith');
+  });
+
+  it('should return 404 for an unknown room', async () => {
+    const feedToken = await getFeedToken(await getAuthToken());
+
+    const response = await request(app).get(
+      `/api/rooms/room-999/calendar.ics?token=${feedToken}`
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('renderCalendar', () => {
+  it('should escape text and fold long lines', () => {
+    const calendar = renderCalendar(
+      'Test',
+      [
+        {
+          uid: 'res-1@meeting-room-reservations',
+          startAt: new Date('2030-01-01T09:00:00.000Z'),
+          endAt: new Date('2030-01-01T10:00:00.000Z'),
+          summary: 'Planning; budget, roadmap',
+          description: 'x'.repeat(100),
+        },
+      ],
+      new Date('2030-01-01T08:00:00.000Z')
+    );
+    const lines = calendar.split('\r\n');
+
+    expect(lines).toContain('DTSTAMP:20300101T080000Z');
+    expect(lines).toContain('SUMMARY:Planning\\; budget\\, roadmap');
+    expect(lines).toContain(`DESCRIPTION:${'x'.repeat(63)}`);
+    expect(lines).toContain(` ${'x'.repeat(37)}`);
+    expect(lines.every((line) => line.length <= 75)).toBe(true);
+  });
+});
@@ -0,0 +1,235 @@
+import request from 'supertest';
+import { createApp } from '../app';
+import { Express } from 'express';
+import { reservationRepository } from '../models/reservation';
+import { releaseNoShows } from '../services/reservationService';
+import { toZonedDateTime } from '../utils/time';
+import { AuditEvent, NoShowReportEntry, Reservation } from '../types';
+import { getAuthToken, TestResponse } from './helpers';
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+const MINUTE_MS = 60 * 1000;
+
+// Books room-1 directly, starting `offsetMinutes` from now, so tests can
+// place reservations around the current time
+function bookRelativeToNow(
+  offsetMinutes: number,
+  userId: string = 'user-1',
+  durationMinutes: number = 60
+): Reservation {
+  const timeZone = 'Europe/Helsinki';
+  const startAt = new Date(
+    Math.floor(Date.now() / MINUTE_MS) * MINUTE_MS + offsetMinutes * MINUTE_MS
+  );
+  const endAt = new Date(startAt.getTime() + durationMinutes * MINUTE_MS);
+  const start = toZonedDateTime(startAt, timeZone);
+  const end = toZonedDateTime(endAt, timeZone);
+
+  return reservationRepository.create({
+    roomId: 'room-1',
+    userId,
+    startDate: start.date,
+    endDate: end.date,
+    startTime: start.time,
+    endTime: end.time,
+    timeZone,
+    startAt: startAt.toISOString(),
+    endAt: endAt.toISOString(),
+  });
+}
+
+function checkIn(token: string, reservationId: string): request.Test {
+  return request(app)
+    .post(`/api/reservations/${reservationId}/check-in`)
+    .set('Authorization', `Bearer ${token}`);
+}
+
+describe('Check-in - POST /api/reservations/:id/check-in', () => {
+  it('should check in within the window around the start time', async () => {
+    const token = await getAuthToken();
+    const reservation = bookRelativeToNow(5);
+
+    const response: TestResponse<Reservation> = await checkIn(
+      token,
+      reservation.reservationId
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.body.message).toBe('Checked in successfully');
+    expect(Date.parse(response.body.data.checkedInAt ?? '')).not.toBeNaN();
+  });
+
+  it('should allow checking in shortly after the start', async () => {
+    const token = await getAuthToken();
+    const reservation = bookRelativeToNow(-10);
+
+    const response = await checkIn(token, reservation.reservationId);
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should return 400 before check-in opens', async () => {
+    const token = await getAuthToken();
+    const reservation = bookRelativeToNow(60);
+
+    const response: TestResponse = await checkIn(
+      token,
+      reservation.reservationId
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('Check-in opens at');
+  });
+
+  it('should return 400 after check-in closes', async () => {
+    const token = await getAuthToken();
+    const reservation = bookRelativeToNow(-20, 'user-1', 120);
+
+    const response: TestResponse = await checkIn(
+      token,
+      reservation.reservationId
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('has closed');
+  });
+
+  it('should return 400 when already checked in', async () => {
+    const token = await getAuthToken();
+    const reservation = bookRelativeToNow(5);
+
+    await checkIn(token, reservation.reservationId);
+    const response: TestResponse = await checkIn(
+      token,
+      reservation.reservationId
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('You have already checked in.');
+  });
+
+  it("should return 403 for another user's reservation", async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const reservation = bookRelativeToNow(5);
+
+    const response = await checkIn(bobToken, reservation.reservationId);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should return 404 for an unknown reservation', async () => {
+    const token = await getAuthToken();
+
+    const response = await checkIn(token, 'non-existent-id');
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('No-show release', () => {
+  it('should release reservations not checked in after the grace period', () => {
+    const reservation = bookRelativeToNow(-20);
+
+    const released = releaseNoShows();
+
+    expect(released.map((res) => res.reservationId)).toEqual([
+      reservation.reservationId,
+    ]);
+    expect(reservationRepository.findById(reservation.reservationId)).toEqual(
+      expect.objectContaining({ status: 'no-show' })
+    );
+  });
+
+  it('should keep checked-in and not yet due reservations', async () => {
+    const token = await getAuthToken();
+    const checkedIn = bookRelativeToNow(-10);
+    await checkIn(token, checkedIn.reservationId);
+    bookRelativeToNow(90);
+
+    const released = releaseNoShows(new Date(Date.now() + 30 * MINUTE_MS));
+
+    expect(released).toEqual([]);
+  });
+
+  it('should stop the reservation from blocking the room', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const reservation = bookRelativeToNow(-20);
+
+    releaseNoShows();
+
+    const confirmed: TestResponse<Reservation[]> = await request(app)
+      .get('/api/rooms/room-1/reservations?period=upcoming')
+      .set('Authorization', `Bearer ${bobToken}`);
+    const noShows: TestResponse<Reservation[]> = await request(app)
+      .get('/api/rooms/room-1/reservations?status=no-show')
+      .set('Authorization', `Bearer ${bobToken}`);
+    const checkInResponse: TestResponse = await checkIn(
+      token,
+      reservation.reservationId
+    );
+
+    expect(
+      confirmed.body.data.map(
+        (res: { reservationId: string }) => res.reservationId
+      )
+    ).not.toContain(reservation.reservationId);
+    expect(noShows.body.data[0].reservationId).toBe(reservation.reservationId);
+    expect(checkInResponse.status).toBe(400);
+    expect(checkInResponse.body.message).toContain('released');
+  });
+
+  it('should record the release in the audit log as a system change', async () => {
+    const token = await getAuthToken();
+    const reservation = bookRelativeToNow(-20);
+
+    releaseNoShows();
+
+    const response: TestResponse<AuditEvent[]> = await request(app)
+      .get(`/api/reservations/${reservation.reservationId}/history`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.body.data).toContainEqual(
+      expect.objectContaining({ action: 'no-show', actorId: 'system' })
+    );
+  });
+});
+
+describe('No-show report - GET /api/reports/no-shows', () => {
+  it('should count no-shows per user, most first', async () => {
+    const adminToken = await getAuthToken('carol', 'CarolAdmin2026!');
+    bookRelativeToNow(-20, 'user-2', 90);
+    bookRelativeToNow(-140, 'user-1', 180);
+    bookRelativeToNow(10, 'user-1', 60);
+    releaseNoShows(new Date(Date.now() + 30 * MINUTE_MS));
+
+    const response: TestResponse<NoShowReportEntry[]> = await request(app)
+      .get('/api/reports/no-shows')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([
+      expect.objectContaining({
+        userId: 'user-1',
+        username: 'alice',
+        noShowCount: 2,
+      }),
+      expect.objectContaining({ userId: 'user-2', noShowCount: 1 }),
+    ]);
+  });
+
+  it('should return 403 for members', async () => {
+    const token = await getAuthToken();
+
+    const response = await request(app)
+      .get('/api/reports/no-shows')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,32 @@
+import request from 'supertest';
+import { createApp } from '../app';
+import { ConflictDetails, PaginationInfo } from '../types';
+
+// Only used to log in; the app keeps its state in the shared repositories
+const app = createApp();
+
+// The JSON body the API sends: data on success, error and details on failure.
+// Nothing is optional so tests can read fields after asserting the status.
+export interface TestBody<T> {
+  message: string;
+  data: T;
+  pagination: PaginationInfo;
+  error: string;
+  statusCode: number;
+  details: Required<ConflictDetails>;
+}
+
+export type TestResponse<T = undefined> = Omit<request.Response, 'body'> & {
+  body: TestBody<T>;
+};
+
+export async function getAuthToken(
+  username: string = 'alice',
+  password: string = 'SecurePass123!'
+): Promise<string> {
+  const response: TestResponse<{ token: string }> = await request(app)
+    .post('/api/login')
+    .send({ username, password });
+
+  return response.body.data.token;
+}
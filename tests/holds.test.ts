@@ -0,0 +1,326 @@
+import request from 'supertest';
+import { createApp } from '../app';
+import { Express } from 'express';
+import config from '../utils/config';
+import { purgeExpiredHolds } from '../services/holdService';
+import { holdRepository } from '../models/hold';
+import { Hold, Reservation, Room, WaitlistEntry } from '../types';
+import { getAuthToken, TestResponse } from './helpers';
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+const slot = {
+  roomId: 'room-2',
+  startDate: '2030-10-07',
+  startTime: '10:00',
+  endTime: '11:00',
+};
+
+function placeHold(
+  token: string,
+  body: Record<string, unknown>
+): Promise<TestResponse<Hold>> {
+  return request(app)
+    .post('/api/holds')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+}
+
+function confirmHold(
+  token: string,
+  holdId: string,
+  body: Record<string, unknown> = {}
+): Promise<TestResponse<Reservation>> {
+  return request(app)
+    .post(`/api/holds/${holdId}/confirm`)
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+}
+
+function book(token: string, body: Record<string, unknown>): request.Test {
+  return request(app)
+    .post('/api/reservations')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+}
+
+function joinWaitlist(
+  token: string,
+  body: Record<string, unknown>
+): request.Test {
+  return request(app)
+    .post('/api/waitlist')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+}
+
+async function getWaitlistStatus(token: string): Promise<string> {
+  const response: TestResponse<WaitlistEntry[]> = await request(app)
+    .get('/api/me/waitlist')
+    .set('Authorization', `Bearer ${token}`);
+  return response.body.data[0].status;
+}
+
+describe('POST /api/holds', () => {
+  it('should hold a slot for HOLD_TTL_SECONDS', async () => {
+    const token = await getAuthToken();
+
+    const response = await placeHold(token, slot);
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({ userId: 'user-1', ...slot });
+    const { createdAt, expiresAt } = response.body.data;
+    expect(Date.parse(expiresAt) - Date.parse(createdAt)).toBe(
+      config.HOLD_TTL_SECONDS * 1000
+    );
+  });
+
+  it('should keep other users from booking or holding the slot', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    await placeHold(token, slot);
+
+    const booking: TestResponse = await book(bobToken, {
+      ...slot,
+      startTime: '10:30',
+      endTime: '11:30',
+    });
+    const hold = await placeHold(bobToken, slot);
+
+    expect(booking.status).toBe(409);
+    expect(booking.body.message).toContain(
+      'Meeting Room B is being held from 10:00-11:00 on 2030-10-07 by Alice Johnson'
+    );
+    expect(booking.body.details.existingHold).toMatchObject({
+      userId: 'user-1',
+      startTime: '10:00',
+      endTime: '11:00',
+    });
+    expect(hold.status).toBe(409);
+  });
+
+  it('should not block the user who placed the hold', async () => {
+    const token = await getAuthToken();
+    await placeHold(token, slot);
+
+    const response = await book(token, slot);
+
+    expect(response.status).toBe(201);
+  });
+
+  it('should release the previous hold when the user holds another slot', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    await placeHold(token, slot);
+    await placeHold(token, { ...slot, startTime: '14:00', endTime: '15:00' });
+
+    const response = await book(bobToken, slot);
+
+    expect(response.status).toBe(201);
+  });
+
+  it('should reject slots that are already booked', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    await book(bobToken, slot);
+
+    const response = await placeHold(token, slot);
+
+    expect(response.status).toBe(409);
+    expect(response.body.message).toContain('is already booked');
+  });
+});
+
+describe('POST /api/holds/:holdId/confirm', () => {
+  it('should book the held slot with the given details', async () => {
+    const token = await getAuthToken();
+    const held = await placeHold(token, slot);
+    const { holdId } = held.body.data;
+
+    const response = await confirmHold(token, holdId, {
+      title: 'Design review',
+      attendees: [{ userId: 'user-2' }],
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({
+      userId: 'user-1',
+      ...slot,
+      title: 'Design review',
+      attendees: [{ userId: 'user-2', status: 'pending' }],
+    });
+
+    const again = await confirmHold(token, holdId);
+    expect(again.status).toBe(404);
+  });
+
+  it('should only let the user who placed the hold confirm it', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const held = await placeHold(token, slot);
+
+    const response = await confirmHold(bobToken, held.body.data.holdId);
+
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('Hold expiry and release', () => {
+  const defaultTtl = config.HOLD_TTL_SECONDS;
+
+  afterEach(() => {
+    config.HOLD_TTL_SECONDS = defaultTtl;
+  });
+
+  it('should stop blocking the slot once the hold expires', async () => {
+    config.HOLD_TTL_SECONDS = 0;
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const held = await placeHold(token, slot);
+
+    const booking = await book(bobToken, slot);
+    const confirmation = await confirmHold(token, held.body.data.holdId);
+
+    expect(booking.status).toBe(201);
+    expect(confirmation.status).toBe(404);
+    expect(confirmation.body.message).toContain('has expired');
+  });
+
+  it('should free the slot when the hold is released', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const held = await placeHold(token, slot);
+    const { holdId } = held.body.data;
+
+    const forbidden = await request(app)
+      .delete(`/api/holds/${holdId}`)
+      .set('Authorization', `Bearer ${bobToken}`);
+    const released = await request(app)
+      .delete(`/api/holds/${holdId}`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(forbidden.status).toBe(403);
+    expect(released.status).toBe(204);
+    expect((await book(bobToken, slot)).status).toBe(201);
+  });
+
+  it('should give a released hold to the waitlist', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const held = await placeHold(token, slot);
+    await joinWaitlist(bobToken, slot);
+
+    await request(app)
+      .delete(`/api/holds/${held.body.data.holdId}`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(await getWaitlistStatus(bobToken)).toBe('booked');
+  });
+
+  it('should give expired holds to the waitlist when they are purged', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const held = await placeHold(token, slot);
+    await joinWaitlist(bobToken, slot);
+
+    const purged = purgeExpiredHolds(
+      new Date(Date.parse(held.body.data.expiresAt) + 1000)
+    );
+
+    expect(purged).toEqual([
+      expect.objectContaining({ holdId: held.body.data.holdId }),
+    ]);
+    expect(await getWaitlistStatus(bobToken)).toBe('booked');
+  });
+});
+
+describe('Waitlist offer holds', () => {
+  const defaultClaimMinutes = config.WAITLIST_CLAIM_MINUTES;
+
+  beforeEach(() => {
+    config.WAITLIST_CLAIM_MINUTES = 30;
+  });
+
+  afterEach(() => {
+    config.WAITLIST_CLAIM_MINUTES = defaultClaimMinutes;
+  });
+
+  async function offerSlot(token: string): Promise<string> {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const booked: TestResponse<Reservation> = await book(bobToken, slot);
+    await joinWaitlist(token, slot);
+    await request(app)
+      .delete(`/api/reservations/${booked.body.data.reservationId}`)
+      .set('Authorization', `Bearer ${bobToken}`);
+
+    const [hold] = holdRepository.findByUserId('user-1');
+    return hold.holdId;
+  }
+
+  it('should not confirm the hold behind a waitlist offer', async () => {
+    const token = await getAuthToken();
+    const holdId = await offerSlot(token);
+
+    const response = await confirmHold(token, holdId);
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('keeps a waitlist offer open');
+    expect(await getWaitlistStatus(token)).toBe('offered');
+  });
+
+  it('should not release the hold behind a waitlist offer', async () => {
+    const token = await getAuthToken();
+    const holdId = await offerSlot(token);
+
+    const response: TestResponse = await request(app)
+      .delete(`/api/holds/${holdId}`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('keeps a waitlist offer open');
+    expect(await getWaitlistStatus(token)).toBe('offered');
+    expect(holdRepository.findById(holdId)).toBeDefined();
+  });
+});
+
+describe('Holds in room search', () => {
+  it('should leave out rooms held by other users', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    await placeHold(token, slot);
+
+    const search = (authToken: string): Promise<TestResponse<Room[]>> =>
+      request(app)
+        .get(
+          '/api/rooms/available?startDate=2030-10-07&startTime=10:00&endTime=11:00'
+        )
+        .set('Authorization', `Bearer ${authToken}`);
+    const roomIds = async (authToken: string): Promise<string[]> =>
+      (await search(authToken)).body.data.map((room) => room.roomId);
+
+    expect(await roomIds(bobToken)).not.toContain('room-2');
+    expect(await roomIds(token)).toContain('room-2');
+  });
+
+  it('should not suggest held rooms as alternatives to a booked room', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    await placeHold(token, slot);
+    await book(token, { ...slot, roomId: 'room-1' });
+
+    const response: TestResponse = await book(bobToken, {
+      ...slot,
+      roomId: 'room-1',
+    });
+
+    expect(response.status).toBe(409);
+    const alternatives = response.body.details.alternativeRooms.map(
+      (room) => room.roomId
+    );
+    expect(alternatives).not.toContain('room-2');
+  });
+});
@@ -0,0 +1,373 @@
+import net from 'net';
+import request from 'supertest';
+import { createApp } from '../app';
+import { Express } from 'express';
+import {
+  drainNotifications,
+  hasScheduledReminder,
+  sendReminder,
+  setMailTransport,
+} from '../services/notificationService';
+import {
+  createMemoryTransport,
+  MailMessage,
+  MemoryTransport,
+} from '../utils/mail';
+import { createSmtpTransport } from '../utils/smtp';
+import { renderTemplate } from '../utils/emailTemplates';
+import { Reservation } from '../types';
+import { getAuthToken, TestResponse } from './helpers';
+
+let app: Express;
+let mail: MemoryTransport;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+beforeEach(() => {
+  mail = createMemoryTransport();
+  setMailTransport(mail);
+});
+
+const meeting = {
+  roomId: 'room-2',
+  startDate: '2030-10-07',
+  startTime: '10:00',
+  endTime: '11:00',
+  title: 'Design review',
+};
+
+function book(token: string, body: Record<string, unknown>): request.Test {
+  return request(app)
+    .post('/api/reservations')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+}
+
+async function sentMail(): Promise<MailMessage[]> {
+  await drainNotifications();
+  return mail.outbox;
+}
+
+function getInvite(message: MailMessage): string {
+  return message.attachments?.[0]?.content ?? '';
+}
+
+describe('Reservation emails', () => {
+  it('should confirm a booking to the organizer and attendees', async () => {
+    const token = await getAuthToken();
+
+    await book(token, {
+      ...meeting,
+      attendees: [{ userId: 'user-2' }, { email: 'guest@example.com' }],
+    });
+
+    const messages = await sentMail();
+    expect(messages.map((message) => message.to)).toEqual([
+      'alice@example.com',
+      'bob@example.com',
+      'guest@example.com',
+    ]);
+    expect(messages[0].subject).toBe('Confirmed: Design review on 2030-10-07');
+    expect(messages[1].text).toContain('Hi Bob Smith,');
+    expect(messages[1].text).toContain(
+      'When:      2030-10-07 10:00-11:00 (Europe/Helsinki)'
+    );
+    expect(messages[1].text).toContain('Organizer: Alice Johnson');
+    expect(messages[0].attachments?.[0]).toMatchObject({
+      filename: 'invite.ics',
+      contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+    });
+    expect(getInvite(messages[0])).toContain('SUMMARY:Design review');
+  });
+
+  it('should tell the organizer when an overlapping booking merges into theirs', async () => {
+    const token = await getAuthToken();
+    await book(token, meeting);
+    mail.clear();
+
+    await book(token, {
+      ...meeting,
+      startTime: '10:30',
+      endTime: '12:00',
+      onOwnConflict: 'merge',
+    });
+
+    const [message] = await sentMail();
+    expect(message.subject).toBe('Changed: Design review on 2030-10-07');
+    expect(message.text).toContain(
+      'Was:       2030-10-07 10:00-11:00 (Europe/Helsinki) in Meeting Room B'
+    );
+    expect(message.text).toContain(
+      'Reason:    A booking you made overlapped this one, so the two were combined'
+    );
+  });
+
+  it('should say an overlapping booking replaced theirs', async () => {
+    const token = await getAuthToken();
+    await book(token, meeting);
+    mail.clear();
+
+    await book(token, {
+      ...meeting,
+      startTime: '10:30',
+      endTime: '12:00',
+      onOwnConflict: 'replace',
+    });
+
+    const [message] = await sentMail();
+    expect(message.text).toContain(
+      'Reason:    A booking you made overlapped this one, so it was moved to the new time and details'
+    );
+  });
+
+  it('should leave out the previous time when only the details change', async () => {
+    const token = await getAuthToken();
+    const created: TestResponse<Reservation> = await book(token, meeting);
+    mail.clear();
+
+    await request(app)
+      .patch(`/api/reservations/${created.body.data.reservationId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ title: 'Final design review' });
+
+    const [message] = await sentMail();
+    expect(message.subject).toBe('Changed: Final design review on 2030-10-07');
+    expect(message.text).not.toContain('Was:');
+    expect(message.text).not.toContain('Reason:');
+  });
+
+  it('should send a cancellation that removes the calendar event', async () => {
+    const token = await getAuthToken();
+    const created: TestResponse<Reservation> = await book(token, meeting);
+    mail.clear();
+
+    await request(app)
+      .delete(
+        `/api/reservations/${created.body.data.reservationId}?reason=Moved%20online`
+      )
+      .set('Authorization', `Bearer ${token}`);
+
+    const [message] = await sentMail();
+    expect(message.subject).toBe('Cancelled: Design review on 2030-10-07');
+    expect(message.text).toContain('Reason:    Moved online');
+    expect(getInvite(message)).toContain('METHOD:CANCEL');
+    expect(getInvite(message)).toContain('STATUS:CANCELLED');
+  });
+
+  it('should skip users without an email address and declined attendees', async () => {
+    const carolToken = await getAuthToken('carol', 'CarolAdmin2026!');
+    await request(app)
+      .post('/api/users')
+      .set('Authorization', `Bearer ${carolToken}`)
+      .send({
+        username: 'dave',
+        name: 'Dave Brown',
+        password: 'Winter-Secure-2026!',
+      });
+    const daveToken = await getAuthToken('dave', 'Winter-Secure-2026!');
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+
+    const created: TestResponse<Reservation> = await book(daveToken, {
+      ...meeting,
+      attendees: [{ userId: 'user-2' }],
+    });
+    await request(app)
+      .post(`/api/reservations/${created.body.data.reservationId}/rsvp`)
+      .set('Authorization', `Bearer ${bobToken}`)
+      .send({ response: 'declined' });
+    mail.clear();
+
+    await request(app)
+      .delete(`/api/reservations/${created.body.data.reservationId}`)
+      .set('Authorization', `Bearer ${daveToken}`);
+
+    expect(await sentMail()).toHaveLength(0);
+  });
+});
+
+describe('Reminders', () => {
+  it('should schedule a reminder and drop it when the booking is cancelled', async () => {
+    const token = await getAuthToken();
+    const created: TestResponse<Reservation> = await book(token, meeting);
+    const { reservationId } = created.body.data;
+
+    expect(hasScheduledReminder(reservationId)).toBe(true);
+
+    await request(app)
+      .delete(`/api/reservations/${reservationId}`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(hasScheduledReminder(reservationId)).toBe(false);
+  });
+
+  it('should send reminders only for confirmed reservations', async () => {
+    const token = await getAuthToken();
+    const created: TestResponse<Reservation> = await book(token, meeting);
+    const { reservationId } = created.body.data;
+    mail.clear();
+
+    sendReminder(reservationId);
+    const [reminder] = await sentMail();
+
+    expect(reminder.subject).toBe('Reminder: Design review starts at 10:00');
+    expect(reminder.text).toContain('Remember to check in');
+
+    await request(app)
+      .delete(`/api/reservations/${reservationId}`)
+      .set('Authorization', `Bearer ${token}`);
+    mail.clear();
+
+    sendReminder(reservationId);
+    expect(await sentMail()).toHaveLength(0);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('should drop lines whose values are missing', () => {
+    const { subject, text } = renderTemplate('cancellation', {
+      recipient: 'Alice',
+      title: 'Standup',
+      date: '2030-01-01',
+      location: 'Huddle Space C',
+      when: '2030-01-01 09:00-09:15 (UTC)',
+      organizer: 'Alice',
+    });
+
+    expect(subject).toBe('Cancelled: Standup on 2030-01-01');
+    expect(text).toContain('Where:     Huddle Space C');
+    expect(text).not.toContain('Reason:');
+  });
+});
+
+describe('SMTP transport', () => {
+  let server: net.Server;
+  let port: number;
+  let transcript: string[];
+
+  beforeEach(async () => {
+    transcript = [];
+    server = net.createServer((socket) => {
+      let inData = false;
+      let buffer = '';
+      socket.write('220 test.local ESMTP\r\n');
+
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString();
+        let end = buffer.indexOf('\r\n');
+        while (end !== -1) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          transcript.push(line);
+
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 OK queued\r\n');
+            }
+          } else if (line.startsWith('EHLO')) {
+            socket.write('250-test.local\r\n250 AUTH PLAIN\r\n');
+          } else if (line.startsWith('AUTH')) {
+            socket.write('235 Authenticated\r\n');
+          } else if (line === 'DATA') {
+            inData = true;
+            socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+          } else if (line === 'QUIT') {
+            socket.end('221 Bye\r\n');
+          } else {
+            socket.write('250 OK\r\n');
+          }
+          end = buffer.indexOf('\r\n');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should deliver a MIME message through the SMTP conversation', async () => {
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      from: 'Meeting Rooms <rooms@example.com>',
+      timeoutMs: 5000,
+    });
+
+    await transport.send({
+      to: 'alice@example.com',
+      subject: 'Confirmed: Standup',
+      text: 'Hi Alice',
+      attachments: [
+        {
+          filename: 'invite.ics',
+          contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+          content: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n',
+        },
+      ],
+    });
+
+    expect(transcript).toEqual(
+      expect.arrayContaining([
+        'MAIL FROM:<rooms@example.com>',
+        'RCPT TO:<alice@example.com>',
+        'From: Meeting Rooms <rooms@example.com>',
+        'Subject: Confirmed: Standup',
+        'Content-Disposition: attachment; filename="invite.ics"',
+        'QUIT',
+      ])
+    );
+  });
+
+  it('should not send credentials without TLS', async () => {
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      user: 'mailer',
+      password: 'secret',
+      from: 'rooms@example.com',
+      timeoutMs: 5000,
+    });
+
+    await expect(
+      transport.send({ to: 'alice@example.com', subject: 'Hi', text: 'Hi' })
+    ).rejects.toThrow('refusing to send credentials');
+    expect(transcript.some((line) => line.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('should reject when the server refuses a recipient', async () => {
+    server.removeAllListeners('connection');
+    server.on('connection', (socket) => {
+      socket.write('220 test.local ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        const line = chunk.toString();
+        socket.write(
+          line.startsWith('RCPT')
+            ? '550 No such user\r\n'
+            : line.startsWith('EHLO')
+              ? '250 test.local\r\n'
+              : '250 OK\r\n'
+        );
+      });
+    });
+
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      from: 'rooms@example.com',
+      timeoutMs: 5000,
+    });
+
+    await expect(
+      transport.send({ to: 'nobody@example.com', subject: 'Hi', text: 'Hi' })
+    ).rejects.toThrow('SMTP server replied 550 No such user');
+  });
+});
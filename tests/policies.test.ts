@@ -0,0 +1,360 @@
+import request from 'supertest';
+import { createApp } from '../app';
+import { Express } from 'express';
+import { addDays, toZonedDateTime } from '../utils/time';
+import { RecurringReservationResult } from '../services/reservationService';
+import { RoomChangeResult } from '../services/roomService';
+import { DayAvailability, Reservation, Room, WaitlistEntry } from '../types';
+import { getAuthToken, TestResponse } from './helpers';
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+async function setPolicy(
+  policy: Record<string, unknown>,
+  roomId: string = 'room-2'
+): Promise<TestResponse<RoomChangeResult>> {
+  const token = await getAuthToken('carol', 'CarolAdmin2026!');
+  return request(app)
+    .patch(`/api/rooms/${roomId}`)
+    .set('Authorization', `Bearer ${token}`)
+    .send({ policy });
+}
+
+// 2030-10-07 is a Monday
+const slot = {
+  roomId: 'room-2',
+  startDate: '2030-10-07',
+  startTime: '10:00',
+  endTime: '11:00',
+};
+
+function book<T = Reservation>(
+  token: string,
+  body: Record<string, unknown>
+): Promise<TestResponse<T>> {
+  return request(app)
+    .post('/api/reservations')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+}
+
+describe('Room policies - PATCH /api/rooms/:roomId', () => {
+  it('should store the policy on the room', async () => {
+    const response = await setPolicy({
+      maxDurationMinutes: 120,
+      bookableHours: { start: '08:00', end: '18:00' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.room.policy).toEqual({
+      maxDurationMinutes: 120,
+      bookableHours: { start: '08:00', end: '18:00' },
+    });
+  });
+
+  it('should reject inconsistent or unknown policy fields', async () => {
+    const inverted = await setPolicy({
+      minDurationMinutes: 60,
+      maxDurationMinutes: 30,
+    });
+    const unknown = await setPolicy({ maxBookings: 3 });
+    const hours = await setPolicy({
+      bookableHours: { start: '18:00', end: '08:00' },
+    });
+
+    expect(inverted.status).toBe(400);
+    expect(inverted.body.message).toContain(
+      'Minimum duration cannot exceed the maximum duration'
+    );
+    expect(unknown.status).toBe(400);
+    expect(hours.status).toBe(400);
+    expect(hours.body.message).toContain('must end after they start');
+  });
+});
+
+describe('Booking policy enforcement', () => {
+  it('should apply per-room duration limits', async () => {
+    await setPolicy({ minDurationMinutes: 15, maxDurationMinutes: 60 });
+    const token = await getAuthToken();
+
+    const short = await book(token, { ...slot, endTime: '10:15' });
+    const long = await book(token, { ...slot, endTime: '11:30' });
+
+    expect(short.status).toBe(201);
+    expect(long.status).toBe(400);
+    expect(long.body.message).toBe(
+      'Booking duration cannot exceed 1 hour (policy: maxDurationMinutes)'
+    );
+  });
+
+  it('should require slots to line up with the granularity', async () => {
+    await setPolicy({ slotGranularityMinutes: 15 });
+    const token = await getAuthToken();
+
+    const response = await book(token, { ...slot, startTime: '10:05' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe(
+      'Bookings in Meeting Room B must start and end on a 15-minute boundary (policy: slotGranularityMinutes)'
+    );
+  });
+
+  it('should only allow bookings within bookable hours and weekdays', async () => {
+    await setPolicy({
+      bookableHours: { start: '08:00', end: '18:00' },
+      bookableWeekdays: ['MO', 'TU', 'WE', 'TH', 'FR'],
+    });
+    const token = await getAuthToken();
+
+    const late = await book(token, {
+      ...slot,
+      startTime: '17:30',
+      endTime: '18:30',
+    });
+    const weekend = await book(token, { ...slot, startDate: '2030-10-12' });
+
+    expect(late.status).toBe(400);
+    expect(late.body.message).toBe(
+      'Meeting Room B can only be booked between 08:00 and 18:00 (policy: bookableHours)'
+    );
+    expect(weekend.status).toBe(400);
+    expect(weekend.body.message).toContain('(policy: bookableWeekdays)');
+  });
+
+  it('should allow bookings until midnight when bookable hours end at 24:00', async () => {
+    const policy = await setPolicy({
+      bookableHours: { start: '08:00', end: '24:00' },
+    });
+    const token = await getAuthToken();
+
+    const evening = await book(token, {
+      ...slot,
+      startTime: '22:00',
+      endTime: '00:00',
+    });
+    const overnight = await book(token, {
+      ...slot,
+      startDate: '2030-10-08',
+      startTime: '23:00',
+      endTime: '01:00',
+    });
+
+    expect(policy.status).toBe(200);
+    expect(evening.status).toBe(201);
+    expect(evening.body.data.endDate).toBe('2030-10-08');
+    expect(overnight.status).toBe(400);
+    expect(overnight.body.message).toContain('(policy: bookableHours)');
+  });
+
+  it('should reject blackout dates and dates past the booking horizon', async () => {
+    const today = toZonedDateTime(new Date(), 'Europe/Helsinki').date;
+    const blackoutDate = addDays(today, 5);
+    await setPolicy({ blackoutDates: [blackoutDate], maxDaysInAdvance: 30 });
+    const token = await getAuthToken();
+
+    const blackout = await book(token, { ...slot, startDate: blackoutDate });
+    const tooFar = await book(token, {
+      ...slot,
+      startDate: addDays(today, 40),
+    });
+    const allowed = await book(token, {
+      ...slot,
+      startDate: addDays(today, 6),
+    });
+
+    expect(blackout.status).toBe(400);
+    expect(blackout.body.message).toBe(
+      `Meeting Room B cannot be booked on ${blackoutDate} (policy: blackoutDates)`
+    );
+    expect(tooFar.status).toBe(400);
+    expect(tooFar.body.message).toContain('(policy: maxDaysInAdvance)');
+    expect(allowed.status).toBe(201);
+  });
+
+  it('should limit the number of upcoming bookings per user', async () => {
+    await setPolicy({ maxActiveBookingsPerUser: 1 });
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const first = await book(token, slot);
+
+    const second = await book(token, { ...slot, startDate: '2030-10-08' });
+    const bob = await book(bobToken, { ...slot, startDate: '2030-10-08' });
+
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(400);
+    expect(second.body.message).toBe(
+      'You can have at most 1 upcoming bookings in Meeting Room B (policy: maxActiveBookingsPerUser)'
+    );
+    expect(bob.status).toBe(201);
+  });
+
+  it('should check moves but not edits that keep the booked time', async () => {
+    const token = await getAuthToken();
+    const booked = await book(token, slot);
+    const { reservationId } = booked.body.data;
+    await setPolicy({ bookableHours: { start: '10:30', end: '18:00' } });
+
+    const renamed = await request(app)
+      .patch(`/api/reservations/${reservationId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ title: 'Planning' });
+    const moved: TestResponse = await request(app)
+      .patch(`/api/reservations/${reservationId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ startTime: '09:30', endTime: '10:30' });
+
+    expect(renamed.status).toBe(200);
+    expect(moved.status).toBe(400);
+    expect(moved.body.message).toContain('(policy: bookableHours)');
+  });
+
+  it('should list occurrences that break the policy as conflicts', async () => {
+    await setPolicy({ blackoutDates: ['2030-10-08'] });
+    const token = await getAuthToken();
+
+    const response = await book<RecurringReservationResult>(token, {
+      ...slot,
+      recurrence: { frequency: 'daily', count: 3 },
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.reservations).toHaveLength(2);
+    expect(response.body.data.conflicts).toEqual([
+      expect.objectContaining({
+        startDate: '2030-10-08',
+        reason:
+          'Meeting Room B cannot be booked on 2030-10-08 (policy: blackoutDates)',
+      }),
+    ]);
+  });
+});
+
+describe('Setup and teardown time', () => {
+  beforeEach(async () => {
+    await setPolicy({ setupMinutes: 10, teardownMinutes: 15 });
+  });
+
+  it('should keep setup and teardown time free between bookings', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    await book(bobToken, slot);
+
+    const adjacent = await book(token, {
+      ...slot,
+      startTime: '11:00',
+      endTime: '12:00',
+    });
+    const spaced = await book(token, {
+      ...slot,
+      startTime: '11:25',
+      endTime: '12:00',
+    });
+
+    expect(adjacent.status).toBe(409);
+    expect(adjacent.body.message).toContain(
+      'Meeting Room B is already booked from 10:00-11:00 on 2030-10-07 by Bob Smith. Bookings in Meeting Room B need 10 minutes of setup and 15 minutes of teardown between them.'
+    );
+    expect(adjacent.body.details.suggestedSlots.after).toMatchObject({
+      startTime: '11:25',
+      endTime: '12:25',
+    });
+    expect(spaced.status).toBe(201);
+    expect(spaced.body.data).toMatchObject({
+      startTime: '11:25',
+      endTime: '12:00',
+    });
+  });
+
+  it('should leave setup and teardown time out of availability windows', async () => {
+    const token = await getAuthToken();
+    await book(token, {
+      ...slot,
+      startDate: '2030-10-06',
+      startTime: '23:00',
+      endTime: '23:55',
+    });
+    await book(token, slot);
+
+    const response: TestResponse<DayAvailability[]> = await request(app)
+      .get('/api/rooms/room-2/availability?date=2030-10-07')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.body.data[0].windows).toEqual([
+      expect.objectContaining({ startTime: '00:20', endTime: '09:35' }),
+      expect.objectContaining({ startTime: '11:25', endTime: '00:00' }),
+    ]);
+  });
+
+  it('should fill waitlist entries that were waiting on the turnaround', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const booked = await book(bobToken, slot);
+    const later = { ...slot, startTime: '11:00', endTime: '12:00' };
+    const joined = await request(app)
+      .post('/api/waitlist')
+      .set('Authorization', `Bearer ${token}`)
+      .send(later);
+
+    await request(app)
+      .delete(`/api/reservations/${booked.body.data.reservationId}`)
+      .set('Authorization', `Bearer ${bobToken}`);
+
+    expect(joined.status).toBe(201);
+    const waitlist: TestResponse<WaitlistEntry[]> = await request(app)
+      .get('/api/me/waitlist')
+      .set('Authorization', `Bearer ${token}`);
+    expect(waitlist.body.data[0].status).toBe('booked');
+  });
+});
+
+describe('Policies in availability and room search', () => {
+  it('should only report bookable windows', async () => {
+    await setPolicy({
+      minDurationMinutes: 60,
+      slotGranularityMinutes: 30,
+      bookableHours: { start: '08:00', end: '18:00' },
+      bookableWeekdays: ['MO', 'TU', 'WE', 'TH', 'FR'],
+    });
+    const token = await getAuthToken();
+    await book(token, { ...slot, startTime: '09:00', endTime: '10:00' });
+
+    const response: TestResponse<DayAvailability[]> = await request(app)
+      .get('/api/rooms/room-2/availability?from=2030-10-07&to=2030-10-12')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data[0].windows).toEqual([
+      expect.objectContaining({ startTime: '08:00', endTime: '09:00' }),
+      expect.objectContaining({ startTime: '10:00', endTime: '18:00' }),
+    ]);
+    expect(response.body.data[5]).toEqual({ date: '2030-10-12', windows: [] });
+
+    const tooShort: TestResponse = await request(app)
+      .get('/api/rooms/room-2/availability?date=2030-10-07&duration=30')
+      .set('Authorization', `Bearer ${token}`);
+    expect(tooShort.status).toBe(400);
+    expect(tooShort.body.message).toContain('(policy: minDurationMinutes)');
+  });
+
+  it('should leave out rooms whose policy forbids the slot', async () => {
+    await setPolicy({ bookableWeekdays: ['SA', 'SU'] });
+    const token = await getAuthToken();
+
+    const response: TestResponse<Room[]> = await request(app)
+      .get(
+        '/api/rooms/available?startDate=2030-10-07&startTime=10:00&endTime=11:00'
+      )
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    const roomIds = response.body.data.map(
+      (room: { roomId: string }) => room.roomId
+    );
+    expect(roomIds).toContain('room-1');
+    expect(roomIds).not.toContain('room-2');
+  });
+});
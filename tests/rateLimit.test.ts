@@ -0,0 +1,171 @@
+import request from 'supertest';
+import { createApp } from '../app';
+import { Express } from 'express';
+import config from '../utils/config';
+import { createAttemptTracker, createRateLimiter } from '../utils/rateLimit';
+import { getAuthToken, TestResponse } from './helpers';
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+function attemptLogin(username: string, password: string): request.Test {
+  return request(app).post('/api/login').send({ username, password });
+}
+
+describe('createRateLimiter', () => {
+  it('should allow requests up to the limit in each window', () => {
+    const limiter = createRateLimiter();
+
+    expect(limiter.consume('user-1', 2, 1000, 0)).toBe(0);
+    expect(limiter.consume('user-1', 2, 1000, 100)).toBe(0);
+    expect(limiter.consume('user-1', 2, 1000, 400)).toBe(600);
+    expect(limiter.consume('user-2', 2, 1000, 400)).toBe(0);
+    expect(limiter.consume('user-1', 2, 1000, 1000)).toBe(0);
+  });
+});
+
+describe('createAttemptTracker', () => {
+  const options = {
+    maxFailures: 3,
+    baseLockoutMs: 1000,
+    maxLockoutMs: 5000,
+    resetAfterMs: 60000,
+  };
+
+  it('should lock out after the allowed failures with doubling lockouts', () => {
+    const tracker = createAttemptTracker(() => options);
+
+    tracker.recordFailure('alice', 0);
+    tracker.recordFailure('alice', 0);
+    expect(tracker.getRetryAfterMs('alice', 0)).toBe(0);
+
+    tracker.recordFailure('alice', 0);
+    expect(tracker.getRetryAfterMs('alice', 0)).toBe(1000);
+
+    tracker.recordFailure('alice', 1000);
+    expect(tracker.getRetryAfterMs('alice', 1000)).toBe(2000);
+
+    tracker.recordFailure('alice', 3000);
+    tracker.recordFailure('alice', 7000);
+    expect(tracker.getRetryAfterMs('alice', 7000)).toBe(5000);
+  });
+
+  it('should forget failures after a quiet period or when cleared', () => {
+    const tracker = createAttemptTracker(() => options);
+
+    for (let i = 0; i < 3; i++) {
+      tracker.recordFailure('alice', 0);
+      tracker.recordFailure('bob', 0);
+    }
+
+    expect(tracker.getRetryAfterMs('alice', 60000)).toBe(0);
+    tracker.recordFailure('alice', 60000);
+    expect(tracker.getRetryAfterMs('alice', 60000)).toBe(0);
+
+    tracker.clear('bob');
+    expect(tracker.getRetryAfterMs('bob', 0)).toBe(0);
+  });
+});
+
+describe('Login brute-force protection', () => {
+  it('should return 429 with Retry-After once a username is locked out', async () => {
+    for (let i = 0; i < config.LOGIN_MAX_FAILURES; i++) {
+      const response = await attemptLogin('alice', 'WrongPassword1!');
+      expect(response.status).toBe(401);
+    }
+
+    const response: TestResponse = await attemptLogin(
+      'alice',
+      'SecurePass123!'
+    );
+
+    expect(response.status).toBe(429);
+    expect(response.body.error).toBe('TooManyRequestsError');
+    expect(response.body.message).toContain('Too many failed login attempts');
+    expect(response.headers['retry-after']).toBe(
+      String(config.LOGIN_LOCKOUT_SECONDS)
+    );
+  });
+
+  it('should not lock out other usernames below the per-IP limit', async () => {
+    for (let i = 0; i < config.LOGIN_MAX_FAILURES; i++) {
+      await attemptLogin('alice', 'WrongPassword1!');
+    }
+
+    const response = await attemptLogin('bob', 'BobSecure2026!');
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should lock out an IP address that tries many usernames', async () => {
+    for (let i = 0; i < config.LOGIN_MAX_FAILURES_PER_IP; i++) {
+      await attemptLogin(`guess-${i}`, 'WrongPassword1!');
+    }
+
+    const response = await attemptLogin('bob', 'BobSecure2026!');
+
+    expect(response.status).toBe(429);
+  });
+
+  it('should reset the failure count after a successful login', async () => {
+    for (let i = 0; i < config.LOGIN_MAX_FAILURES - 1; i++) {
+      await attemptLogin('alice', 'WrongPassword1!');
+    }
+    await attemptLogin('alice', 'SecurePass123!');
+
+    const response = await attemptLogin('alice', 'WrongPassword1!');
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('Per-user request rate limit', () => {
+  const defaultLimit = config.RATE_LIMIT_MAX_REQUESTS;
+
+  beforeEach(() => {
+    config.RATE_LIMIT_MAX_REQUESTS = 3;
+  });
+
+  afterEach(() => {
+    config.RATE_LIMIT_MAX_REQUESTS = defaultLimit;
+  });
+
+  it('should return 429 with Retry-After when a user exceeds the limit', async () => {
+    const token = await getAuthToken();
+
+    for (let i = 0; i < 3; i++) {
+      const response = await request(app)
+        .get('/api/rooms')
+        .set('Authorization', `Bearer ${token}`);
+      expect(response.status).toBe(200);
+    }
+
+    const response: TestResponse = await request(app)
+      .get('/api/me')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(429);
+    expect(response.body.message).toContain('Too many requests');
+    expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('should count each user separately', async () => {
+    const aliceToken = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+
+    for (let i = 0; i < 3; i++) {
+      await request(app)
+        .get('/api/rooms')
+        .set('Authorization', `Bearer ${aliceToken}`);
+    }
+
+    const response = await request(app)
+      .get('/api/rooms')
+      .set('Authorization', `Bearer ${bobToken}`);
+
+    expect(response.status).toBe(200);
+  });
+});
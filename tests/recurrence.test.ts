@@ -0,0 +1,67 @@
+import { expandRecurrence, MAX_OCCURRENCES } from '../utils/recurrence';
+
+describe('expandRecurrence', () => {
+  it('should expand a daily rule with an interval and count', () => {
+    expect(
+      expandRecurrence('2030-03-04', {
+        frequency: 'daily',
+        interval: 2,
+        count: 3,
+      })
+    ).toEqual(['2030-03-04', '2030-03-06', '2030-03-08']);
+  });
+
+  it('should expand a weekly rule on the start weekday by default', () => {
+    expect(
+      expandRecurrence('2030-03-04', {
+        frequency: 'weekly',
+        interval: 1,
+        until: '2030-03-25',
+      })
+    ).toEqual(['2030-03-04', '2030-03-11', '2030-03-18', '2030-03-25']);
+  });
+
+  it('should expand a weekly rule on several weekdays', () => {
+    expect(
+      expandRecurrence('2030-03-06', {
+        frequency: 'weekly',
+        interval: 2,
+        byWeekday: ['MO', 'WE', 'FR'],
+        count: 5,
+      })
+    ).toEqual([
+      '2030-03-06',
+      '2030-03-08',
+      '2030-03-18',
+      '2030-03-20',
+      '2030-03-22',
+    ]);
+  });
+
+  it('should skip months that do not have the start day', () => {
+    expect(
+      expandRecurrence('2030-01-31', {
+        frequency: 'monthly',
+        interval: 1,
+        count: 3,
+      })
+    ).toEqual(['2030-01-31', '2030-03-31', '2030-05-31']);
+  });
+
+  it('should return undefined when the rule exceeds the occurrence limit', () => {
+    expect(
+      expandRecurrence('2030-01-01', {
+        frequency: 'daily',
+        interval: 1,
+        until: '2031-01-01',
+      })
+    ).toBeUndefined();
+    expect(
+      expandRecurrence('2030-01-01', {
+        frequency: 'daily',
+        interval: 1,
+        count: MAX_OCCURRENCES,
+      })
+    ).toHaveLength(MAX_OCCURRENCES);
+  });
+});
@@ -1,6 +1,10 @@
 import request from 'supertest';
 import { createApp } from '../app';
 import { Express } from 'express';
+import { reservationRepository } from '../models/reservation';
+import { RecurringReservationResult } from '../services/reservationService';
+import { Reservation, DayAvailability, Room } from '../types';
+import { getAuthToken, TestResponse } from './helpers';
 
 let app: Express;
 
@@ -8,17 +12,6 @@ beforeAll(() => {
   app = createApp();
 });
 
-async function getAuthToken(
-  username: string = 'alice',
-  password: string = 'SecurePass123!'
-): Promise<string> {
-  const response = await request(app)
-    .post('/api/login')
-    .send({ username, password });
-
-  return response.body.data.token as string;
-}
-
 describe('Authentication - POST /api/login', () => {
   describe('Successful Login', () => {
     it('should return 200 and JWT token for valid credentials (Alice)', async () => {
@@ -33,6 +26,7 @@ describe('Authentication - POST /api/login', () => {
         userId: 'user-1',
         username: 'alice',
         name: 'Alice Johnson',
+        role: 'member',
       });
     });
 
@@ -152,6 +146,31 @@ describe('Protected Routes - Authentication Required', () => {
 });
 
 describe('Create Reservation - POST /api/reservations', () => {
+  // These tests book fixed dates in June 2026 around the seeded
+  // reservations, so the clock is set to before them. Only Date is faked;
+  // timers keep running for the HTTP requests.
+  beforeEach(() => {
+    jest.useFakeTimers({
+      now: new Date('2026-05-01T00:00:00Z'),
+      doNotFake: [
+        'hrtime',
+        'nextTick',
+        'performance',
+        'queueMicrotask',
+        'setImmediate',
+        'clearImmediate',
+        'setInterval',
+        'clearInterval',
+        'setTimeout',
+        'clearTimeout',
+      ],
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
   describe('Successful Creation', () => {
     it('should return 201 for valid reservation', async () => {
       const token = await getAuthToken();
@@ -276,6 +295,47 @@ describe('Create Reservation - POST /api/reservations', () => {
   });
 
   describe('Validation Errors', () => {
+    it('should return 400 for an unknown onOwnConflict mode', async () => {
+      const token = await getAuthToken();
+
+      const response: TestResponse = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-06-15',
+          startTime: '10:00',
+          endTime: '11:00',
+          onOwnConflict: 'overwrite',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain(
+        'onOwnConflict must be reject, replace or merge'
+      );
+    });
+
+    it('should return 400 for onOwnConflict on a recurring reservation', async () => {
+      const token = await getAuthToken();
+
+      const response: TestResponse = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-06-15',
+          startTime: '10:00',
+          endTime: '11:00',
+          recurrence: { frequency: 'daily', count: 2 },
+          onOwnConflict: 'merge',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain(
+        'cannot be used with recurring reservations'
+      );
+    });
+
     it('should return 400 for past date/time', async () => {
       const token = await getAuthToken();
 
@@ -516,7 +576,37 @@ describe('Create Reservation - POST /api/reservations', () => {
       expect(response.status).toBe(409);
     });
 
-    it('should return 200 (update) when same user books overlapping slot', async () => {
+    it('should return 409 by default when same user books overlapping slot', async () => {
+      const token = await getAuthToken();
+
+      const first: TestResponse<Reservation> = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-06-23',
+          startTime: '10:00',
+          endTime: '11:00',
+        });
+
+      const response: TestResponse = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-06-23',
+          startTime: '10:30',
+          endTime: '11:30',
+        });
+
+      expect(response.status).toBe(409);
+      expect(response.body.message).toContain('You already have');
+      expect(response.body.details.existingReservation.reservationId).toBe(
+        first.body.data.reservationId
+      );
+    });
+
+    it('should return 200 (update) when same user replaces overlapping slot', async () => {
       const token = await getAuthToken();
 
       const first = await request(app)
@@ -524,7 +614,7 @@ describe('Create Reservation - POST /api/reservations', () => {
         .set('Authorization', `Bearer ${token}`)
         .send({
           roomId: 'room-1',
-          startDate: '2026-06-23',
+          startDate: '2030-06-23',
           startTime: '10:00',
           endTime: '11:00',
         });
@@ -532,19 +622,157 @@ describe('Create Reservation - POST /api/reservations', () => {
       expect(first.status).toBe(201);
       const reservationId = first.body.data.reservationId;
 
-      const response = await request(app)
+      const response: TestResponse<Reservation> = await request(app)
         .post('/api/reservations')
         .set('Authorization', `Bearer ${token}`)
         .send({
           roomId: 'room-1',
-          startDate: '2026-06-23',
-          startTime: '10:00',
-          endTime: '11:00',
+          startDate: '2030-06-23',
+          startTime: '10:30',
+          endTime: '11:30',
+          onOwnConflict: 'replace',
         });
 
       expect(response.status).toBe(200);
       expect(response.body.message).toContain('updated');
       expect(response.body.data.reservationId).toBe(reservationId);
+      expect(response.body.data.startTime).toBe('10:30');
+      expect(response.body.data.endTime).toBe('11:30');
+    });
+
+    it('should extend the existing booking when same user merges overlapping slot', async () => {
+      const token = await getAuthToken();
+
+      const first: TestResponse<Reservation> = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-06-23',
+          startTime: '10:00',
+          endTime: '11:00',
+        });
+
+      const response: TestResponse<Reservation> = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-06-23',
+          startTime: '10:30',
+          endTime: '12:00',
+          onOwnConflict: 'merge',
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toContain('extended');
+      expect(response.body.data).toMatchObject({
+        reservationId: first.body.data.reservationId,
+        startDate: '2030-06-23',
+        startTime: '10:00',
+        endTime: '12:00',
+      });
+    });
+
+    it('should return 400 when a merge would exceed the maximum duration', async () => {
+      const token = await getAuthToken();
+
+      await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-06-24',
+          startTime: '06:00',
+          endTime: '14:00',
+        });
+
+      const response: TestResponse = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-06-24',
+          startTime: '13:00',
+          endTime: '20:00',
+          onOwnConflict: 'merge',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain('cannot exceed 12 hours');
+    });
+
+    it("should return 409 on replace when the slot also overlaps another user's booking", async () => {
+      const aliceToken = await getAuthToken();
+      const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+
+      await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${aliceToken}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-06-26',
+          startTime: '10:00',
+          endTime: '11:00',
+        });
+      await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${bobToken}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-06-26',
+          startTime: '11:00',
+          endTime: '12:00',
+        });
+
+      const response: TestResponse = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${aliceToken}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-06-26',
+          startTime: '10:30',
+          endTime: '11:30',
+          onOwnConflict: 'replace',
+        });
+
+      expect(response.status).toBe(409);
+      expect(response.body.message).toContain('Bob Smith');
+    });
+
+    it('should return 409 on merge when the slot overlaps several own bookings', async () => {
+      const token = await getAuthToken();
+
+      for (const [startTime, endTime] of [
+        ['09:00', '10:00'],
+        ['11:00', '12:00'],
+      ]) {
+        await request(app)
+          .post('/api/reservations')
+          .set('Authorization', `Bearer ${token}`)
+          .send({
+            roomId: 'room-1',
+            startDate: '2030-06-27',
+            startTime,
+            endTime,
+          });
+      }
+
+      const response: TestResponse = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-06-27',
+          startTime: '09:30',
+          endTime: '11:30',
+          onOwnConflict: 'merge',
+        });
+
+      expect(response.status).toBe(409);
+      expect(response.body.message).toContain(
+        'overlaps 2 of your reservations'
+      );
     });
 
     it('should detect conflict with seed data (Bob tries Alice time)', async () => {
@@ -592,6 +820,62 @@ describe('Create Reservation - POST /api/reservations', () => {
       expect(response.body.message).toContain('Nearest available slot');
     });
 
+    it('should include structured conflict details in the 409 body', async () => {
+      const aliceToken = await getAuthToken('alice', 'SecurePass123!');
+      const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+
+      const existing: TestResponse<Reservation> = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${aliceToken}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-06-25',
+          startTime: '10:00',
+          endTime: '11:00',
+        });
+
+      const response: TestResponse = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${bobToken}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-06-25',
+          startTime: '10:00',
+          endTime: '11:00',
+        });
+
+      expect(response.status).toBe(409);
+      expect(response.body.details.existingReservation).toEqual({
+        reservationId: existing.body.data.reservationId,
+        userId: 'user-1',
+        userName: 'Alice Johnson',
+        startDate: '2030-06-25',
+        endDate: '2030-06-25',
+        startTime: '10:00',
+        endTime: '11:00',
+        timeZone: 'Europe/Helsinki',
+      });
+      expect(response.body.details.suggestedSlots).toEqual({
+        before: {
+          startDate: '2030-06-25',
+          startTime: '09:00',
+          endDate: '2030-06-25',
+          endTime: '10:00',
+          timeZone: 'Europe/Helsinki',
+        },
+        after: {
+          startDate: '2030-06-25',
+          startTime: '11:00',
+          endDate: '2030-06-25',
+          endTime: '12:00',
+          timeZone: 'Europe/Helsinki',
+        },
+      });
+      expect(response.body.details.alternativeRooms).toEqual(
+        expect.arrayContaining([{ roomId: 'room-2', name: 'Meeting Room B' }])
+      );
+    });
+
     it('should detect conflict between same-day and midnight-spanning bookings', async () => {
       const aliceToken = await getAuthToken('alice', 'SecurePass123!');
       const bobToken = await getAuthToken('bob', 'BobSecure2026!');
@@ -704,70 +988,638 @@ describe('Create Reservation - POST /api/reservations', () => {
   });
 });
 
-describe('Delete Reservation - DELETE /api/reservations/:id', () => {
-  describe('Successful Deletion', () => {
-    it('should return 204 when user deletes own reservation', async () => {
+describe('Update Reservation - PATCH /api/reservations/:id', () => {
+  async function createReservation(
+    token: string,
+    body: Record<string, string>
+  ): Promise<string> {
+    const response: TestResponse<Reservation> = await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+
+    return response.body.data.reservationId;
+  }
+
+  describe('Successful Update', () => {
+    it('should reschedule own reservation to a new time', async () => {
       const token = await getAuthToken();
+      const id = await createReservation(token, {
+        roomId: 'room-1',
+        startDate: '2030-03-04',
+        startTime: '09:00',
+        endTime: '10:00',
+      });
 
-      const response = await request(app)
-        .delete('/api/reservations/res-1')
-        .set('Authorization', `Bearer ${token}`);
+      const response: TestResponse<Reservation> = await request(app)
+        .patch(`/api/reservations/${id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ startTime: '13:00', endTime: '14:30' });
 
-      expect(response.status).toBe(204);
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Reservation updated successfully');
+      expect(response.body.data).toMatchObject({
+        reservationId: id,
+        roomId: 'room-1',
+        startDate: '2030-03-04',
+        endDate: '2030-03-04',
+        startTime: '13:00',
+        endTime: '14:30',
+      });
     });
 
-    it('should return 204 when Bob deletes his own reservation', async () => {
-      const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    it('should allow moving to an overlapping time of the same reservation', async () => {
+      const token = await getAuthToken();
+      const id = await createReservation(token, {
+        roomId: 'room-1',
+        startDate: '2030-03-04',
+        startTime: '09:00',
+        endTime: '11:00',
+      });
 
-      const response = await request(app)
-        .delete('/api/reservations/res-2')
-        .set('Authorization', `Bearer ${bobToken}`);
+      const response: TestResponse<Reservation> = await request(app)
+        .patch(`/api/reservations/${id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ startTime: '10:00', endTime: '12:00' });
 
-      expect(response.status).toBe(204);
+      expect(response.status).toBe(200);
+      expect(response.body.data.startTime).toBe('10:00');
+    });
+
+    it('should move reservation to another room and recompute end date', async () => {
+      const token = await getAuthToken();
+      const id = await createReservation(token, {
+        roomId: 'room-1',
+        startDate: '2030-03-04',
+        startTime: '09:00',
+        endTime: '10:00',
+      });
+
+      const response: TestResponse<Reservation> = await request(app)
+        .patch(`/api/reservations/${id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ roomId: 'room-2', startTime: '23:00', endTime: '01:00' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        roomId: 'room-2',
+        startDate: '2030-03-04',
+        endDate: '2030-03-05',
+      });
     });
   });
 
-  describe('Authorization Errors', () => {
-    it('should return 403 when user tries to delete another user reservation', async () => {
+  describe('Errors', () => {
+    it('should return 409 with suggestions when new slot is taken', async () => {
+      const aliceToken = await getAuthToken();
       const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+      await createReservation(bobToken, {
+        roomId: 'room-1',
+        startDate: '2030-03-04',
+        startTime: '13:00',
+        endTime: '14:00',
+      });
+      const id = await createReservation(aliceToken, {
+        roomId: 'room-1',
+        startDate: '2030-03-04',
+        startTime: '09:00',
+        endTime: '10:00',
+      });
 
-      const response = await request(app)
-        .delete('/api/reservations/res-1')
-        .set('Authorization', `Bearer ${bobToken}`);
+      const response: TestResponse = await request(app)
+        .patch(`/api/reservations/${id}`)
+        .set('Authorization', `Bearer ${aliceToken}`)
+        .send({ startTime: '13:30', endTime: '14:30' });
 
-      expect(response.status).toBe(403);
-      expect(response.body.error).toBe('ForbiddenError');
-      expect(response.body.message).toContain('cannot cancel');
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('ConflictError');
+      expect(response.body.message).toContain('Nearest available slot');
     });
 
-    it('should return 401 when deleting without authentication', async () => {
-      const response = await request(app).delete('/api/reservations/res-1');
+    it('should return 403 when updating another user reservation', async () => {
+      const aliceToken = await getAuthToken();
+      const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+      const id = await createReservation(aliceToken, {
+        roomId: 'room-1',
+        startDate: '2030-03-04',
+        startTime: '09:00',
+        endTime: '10:00',
+      });
 
-      expect(response.status).toBe(401);
+      const response: TestResponse = await request(app)
+        .patch(`/api/reservations/${id}`)
+        .set('Authorization', `Bearer ${bobToken}`)
+        .send({ startTime: '11:00', endTime: '12:00' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toContain('cannot modify');
     });
-  });
 
-  describe('Not Found Errors', () => {
-    it('should return 404 for non-existent reservation', async () => {
-      const token = await getAuthToken();
+    it('should allow an admin to update another user reservation', async () => {
+      const aliceToken = await getAuthToken();
+      const adminToken = await getAuthToken('carol', 'CarolAdmin2026!');
+      const id = await createReservation(aliceToken, {
+        roomId: 'room-1',
+        startDate: '2030-03-04',
+        startTime: '09:00',
+        endTime: '10:00',
+      });
 
-      const response = await request(app)
-        .delete('/api/reservations/non-existent-id')
-        .set('Authorization', `Bearer ${token}`);
+      const response: TestResponse<Reservation> = await request(app)
+        .patch(`/api/reservations/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ startTime: '11:00', endTime: '12:00' });
 
-      expect(response.status).toBe(404);
-      expect(response.body.message).toContain('not found');
+      expect(response.status).toBe(200);
+      expect(response.body.data.userId).toBe('user-1');
     });
-  });
-});
 
-describe('Get Room Reservations - GET /api/rooms/:roomId/reservations', () => {
-  describe('Successful Retrieval', () => {
-    it('should return 200 with reservations for valid room', async () => {
+    it('should return 400 when the merged slot is too short', async () => {
       const token = await getAuthToken();
+      const id = await createReservation(token, {
+        roomId: 'room-1',
+        startDate: '2030-03-04',
+        startTime: '09:00',
+        endTime: '10:00',
+      });
 
-      const response = await request(app)
-        .get('/api/rooms/room-1/reservations')
+      const response: TestResponse = await request(app)
+        .patch(`/api/reservations/${id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ endTime: '09:15' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain('at least 30 minutes');
+    });
+
+    it('should return 400 for empty body', async () => {
+      const token = await getAuthToken();
+
+      const response: TestResponse = await request(app)
+        .patch('/api/reservations/res-1')
+        .set('Authorization', `Bearer ${token}`)
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('ValidationError');
+    });
+
+    it('should return 404 for non-existent reservation', async () => {
+      const token = await getAuthToken();
+
+      const response = await request(app)
+        .patch('/api/reservations/non-existent-id')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ startTime: '11:00' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
+
+describe('Recurring Reservations', () => {
+  const weeklySeries = {
+    roomId: 'room-2',
+    startDate: '2030-03-04',
+    startTime: '09:00',
+    endTime: '09:30',
+    recurrence: { frequency: 'weekly', count: 4 },
+  };
+
+  async function createSeries(
+    token: string,
+    body: object = weeklySeries
+  ): Promise<TestResponse<RecurringReservationResult>> {
+    return request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+  }
+
+  it('should create all occurrences linked by a series id', async () => {
+    const token = await getAuthToken();
+
+    const response = await createSeries(token);
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.conflicts).toEqual([]);
+    expect(
+      response.body.data.reservations.map(
+        (res: { startDate: string }) => res.startDate
+      )
+    ).toEqual(['2030-03-04', '2030-03-11', '2030-03-18', '2030-03-25']);
+    for (const reservation of response.body.data.reservations) {
+      expect(reservation.seriesId).toBe(response.body.data.seriesId);
+    }
+  });
+
+  it('should report conflicting occurrences without failing the series', async () => {
+    const aliceToken = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${bobToken}`)
+      .send({
+        roomId: 'room-2',
+        startDate: '2030-03-11',
+        startTime: '09:00',
+        endTime: '10:00',
+      });
+
+    const response = await createSeries(aliceToken);
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.reservations).toHaveLength(3);
+    expect(response.body.data.conflicts).toHaveLength(1);
+    expect(response.body.data.conflicts[0]).toMatchObject({
+      startDate: '2030-03-11',
+      startTime: '09:00',
+      endTime: '09:30',
+    });
+    expect(response.body.data.conflicts[0].reason).toContain('Bob Smith');
+  });
+
+  it('should return 409 when no occurrence can be booked', async () => {
+    const aliceToken = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    await createSeries(bobToken);
+
+    const response = await createSeries(aliceToken);
+
+    expect(response.status).toBe(409);
+    expect(response.body.message).toContain('None of the 4 occurrence(s)');
+    expect(response.body.details.occurrenceConflicts).toHaveLength(4);
+  });
+
+  it('should return 400 for a rule without until or count', async () => {
+    const token = await getAuthToken();
+
+    const response = await createSeries(token, {
+      ...weeklySeries,
+      recurrence: { frequency: 'weekly' },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('exactly one of until or count');
+  });
+
+  it('should move this and following occurrences', async () => {
+    const token = await getAuthToken();
+    const series = await createSeries(token);
+    const [, second] = series.body.data.reservations;
+
+    const response: TestResponse<Reservation[]> = await request(app)
+      .patch(`/api/reservations/${second.reservationId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ startTime: '10:00', endTime: '10:30', scope: 'following' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(3);
+
+    const roomResponse: TestResponse<Reservation[]> = await request(app)
+      .get('/api/rooms/room-2/reservations')
+      .set('Authorization', `Bearer ${token}`);
+    const times = roomResponse.body.data
+      .filter((res: { seriesId?: string }) => res.seriesId)
+      .map((res: { startTime: string }) => res.startTime);
+    expect(times).toEqual(['09:00', '10:00', '10:00', '10:00']);
+  });
+
+  it('should reject changing the start date for a whole series', async () => {
+    const token = await getAuthToken();
+    const series = await createSeries(token);
+    const [first] = series.body.data.reservations;
+
+    const response = await request(app)
+      .patch(`/api/reservations/${first.reservationId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ startDate: '2030-03-05', scope: 'series' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should cancel a single occurrence or the whole series', async () => {
+    const token = await getAuthToken();
+    const series = await createSeries(token);
+    const [first, second] = series.body.data.reservations;
+
+    const single = await request(app)
+      .delete(`/api/reservations/${first.reservationId}`)
+      .set('Authorization', `Bearer ${token}`);
+    expect(single.status).toBe(204);
+
+    const all = await request(app)
+      .delete(`/api/reservations/${second.reservationId}?scope=series`)
+      .set('Authorization', `Bearer ${token}`);
+    expect(all.status).toBe(204);
+
+    const roomResponse: TestResponse<Reservation[]> = await request(app)
+      .get('/api/rooms/room-2/reservations')
+      .set('Authorization', `Bearer ${token}`);
+    expect(
+      roomResponse.body.data.filter(
+        (res: { seriesId?: string }) => res.seriesId
+      )
+    ).toEqual([]);
+  });
+});
+
+describe('Delete Reservation - DELETE /api/reservations/:id', () => {
+  describe('Successful Deletion', () => {
+    it('should return 204 when user deletes own reservation', async () => {
+      const token = await getAuthToken();
+
+      const response = await request(app)
+        .delete('/api/reservations/res-1')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(204);
+    });
+
+    it('should return 204 when Bob deletes his own reservation', async () => {
+      const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+
+      const response = await request(app)
+        .delete('/api/reservations/res-2')
+        .set('Authorization', `Bearer ${bobToken}`);
+
+      expect(response.status).toBe(204);
+    });
+  });
+
+  describe('Authorization Errors', () => {
+    it('should return 403 when user tries to delete another user reservation', async () => {
+      const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+
+      const response = await request(app)
+        .delete('/api/reservations/res-1')
+        .set('Authorization', `Bearer ${bobToken}`);
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('ForbiddenError');
+      expect(response.body.message).toContain('cannot cancel');
+    });
+
+    it('should allow an admin to delete another user reservation', async () => {
+      const adminToken = await getAuthToken('carol', 'CarolAdmin2026!');
+
+      const response = await request(app)
+        .delete('/api/reservations/res-1')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(response.status).toBe(204);
+    });
+
+    it('should return 401 when deleting without authentication', async () => {
+      const response = await request(app).delete('/api/reservations/res-1');
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('Not Found Errors', () => {
+    it('should return 404 for non-existent reservation', async () => {
+      const token = await getAuthToken();
+
+      const response = await request(app)
+        .delete('/api/reservations/non-existent-id')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.message).toContain('not found');
+    });
+
+    it('should return 404 when cancelling an already cancelled reservation', async () => {
+      const token = await getAuthToken();
+
+      await request(app)
+        .delete('/api/reservations/res-1')
+        .set('Authorization', `Bearer ${token}`);
+      const response: TestResponse = await request(app)
+        .delete('/api/reservations/res-1')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.message).toContain('already been cancelled');
+    });
+  });
+
+  describe('Soft Cancellation', () => {
+    const slot = {
+      roomId: 'room-1',
+      startDate: '2030-09-03',
+      startTime: '09:00',
+      endTime: '10:00',
+    };
+
+    it('should keep the reservation with its status, reason and timestamp', async () => {
+      const token = await getAuthToken();
+      const created: TestResponse<Reservation> = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${token}`)
+        .send(slot);
+      const id = created.body.data.reservationId;
+
+      const response = await request(app)
+        .delete(`/api/reservations/${id}?reason=Meeting%20moved%20online`)
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(204);
+      expect(reservationRepository.findById(id)).toMatchObject({
+        status: 'cancelled',
+        cancelledBy: 'user-1',
+        cancellationReason: 'Meeting moved online',
+      });
+      expect(
+        Date.parse(reservationRepository.findById(id)?.cancelledAt ?? '')
+      ).not.toBeNaN();
+    });
+
+    it('should free the slot for other bookings', async () => {
+      const token = await getAuthToken();
+      const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+      const created: TestResponse<Reservation> = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${token}`)
+        .send(slot);
+
+      await request(app)
+        .delete(`/api/reservations/${created.body.data.reservationId}`)
+        .set('Authorization', `Bearer ${token}`);
+
+      const response = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${bobToken}`)
+        .send(slot);
+
+      expect(response.status).toBe(201);
+    });
+
+    it('should list cancelled reservations only when asked', async () => {
+      const token = await getAuthToken();
+
+      await request(app)
+        .delete('/api/reservations/res-1')
+        .set('Authorization', `Bearer ${token}`);
+
+      const confirmed: TestResponse<Reservation[]> = await request(app)
+        .get('/api/rooms/room-1/reservations')
+        .set('Authorization', `Bearer ${token}`);
+      const cancelled: TestResponse<Reservation[]> = await request(app)
+        .get('/api/rooms/room-1/reservations?status=cancelled')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(
+        confirmed.body.data.map(
+          (res: { reservationId: string }) => res.reservationId
+        )
+      ).toEqual(['res-2']);
+      expect(cancelled.body.data).toHaveLength(1);
+      expect(cancelled.body.data[0]).toMatchObject({
+        reservationId: 'res-1',
+        status: 'cancelled',
+      });
+    });
+
+    it('should return 400 for an empty cancellation reason', async () => {
+      const token = await getAuthToken();
+
+      const response = await request(app)
+        .delete('/api/reservations/res-1?reason=%20')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
+
+describe('Restore Reservation - POST /api/reservations/:id/restore', () => {
+  const slot = {
+    roomId: 'room-1',
+    startDate: '2030-09-04',
+    startTime: '09:00',
+    endTime: '10:00',
+  };
+
+  async function createAndCancel(token: string): Promise<string> {
+    const created: TestResponse<Reservation> = await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send(slot);
+    const id = created.body.data.reservationId;
+
+    await request(app)
+      .delete(`/api/reservations/${id}?reason=Plans%20changed`)
+      .set('Authorization', `Bearer ${token}`);
+
+    return id;
+  }
+
+  function restore(token: string, id: string): request.Test {
+    return request(app)
+      .post(`/api/reservations/${id}/restore`)
+      .set('Authorization', `Bearer ${token}`);
+  }
+
+  it('should restore a cancelled reservation while the slot is free', async () => {
+    const token = await getAuthToken();
+    const id = await createAndCancel(token);
+
+    const response: TestResponse<Reservation> = await restore(token, id);
+
+    expect(response.status).toBe(200);
+    expect(response.body.message).toBe('Reservation restored successfully');
+    expect(response.body.data).toMatchObject({
+      reservationId: id,
+      status: 'confirmed',
+      startTime: '09:00',
+    });
+    expect(response.body.data.cancelledAt).toBeUndefined();
+    expect(response.body.data.cancellationReason).toBeUndefined();
+  });
+
+  it('should let an admin restore another user reservation', async () => {
+    const token = await getAuthToken();
+    const adminToken = await getAuthToken('carol', 'CarolAdmin2026!');
+    const id = await createAndCancel(token);
+
+    const response = await restore(adminToken, id);
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should return 409 when the slot has been booked since', async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const id = await createAndCancel(token);
+
+    await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${bobToken}`)
+      .send(slot);
+
+    const response: TestResponse = await restore(token, id);
+
+    expect(response.status).toBe(409);
+    expect(response.body.details.existingReservation.userId).toBe('user-2');
+  });
+
+  it('should return 400 after the restore window has passed', async () => {
+    const token = await getAuthToken();
+    const id = await createAndCancel(token);
+    reservationRepository.update(id, {
+      cancelledAt: '2020-01-01T00:00:00.000Z',
+    });
+
+    const response: TestResponse = await restore(token, id);
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('restore window');
+  });
+
+  it('should return 400 for a reservation that is not cancelled', async () => {
+    const token = await getAuthToken();
+    const created: TestResponse<Reservation> = await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send(slot);
+
+    const response: TestResponse = await restore(
+      token,
+      created.body.data.reservationId
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('is not cancelled');
+  });
+
+  it("should return 403 when restoring another user's reservation", async () => {
+    const token = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const id = await createAndCancel(token);
+
+    const response: TestResponse = await restore(bobToken, id);
+
+    expect(response.status).toBe(403);
+    expect(response.body.message).toContain('cannot restore');
+  });
+
+  it('should return 404 for an unknown reservation', async () => {
+    const token = await getAuthToken();
+
+    const response = await restore(token, 'non-existent-id');
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Get Room Reservations - GET /api/rooms/:roomId/reservations', () => {
+  describe('Successful Retrieval', () => {
+    it('should return 200 with reservations for valid room', async () => {
+      const token = await getAuthToken();
+
+      const response = await request(app)
+        .get('/api/rooms/room-1/reservations')
         .set('Authorization', `Bearer ${token}`);
 
       expect(response.status).toBe(200);
@@ -810,6 +1662,61 @@ describe('Get Room Reservations - GET /api/rooms/:roomId/reservations', () => {
     });
   });
 
+  describe('Filtering and Pagination', () => {
+    it('should paginate with limit and offset', async () => {
+      const token = await getAuthToken();
+
+      const response: TestResponse<Reservation[]> = await request(app)
+        .get('/api/rooms/room-1/reservations?limit=1&offset=1')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(
+        response.body.data.map(
+          (res: { reservationId: string }) => res.reservationId
+        )
+      ).toEqual(['res-2']);
+      expect(response.body.pagination).toEqual({
+        total: 2,
+        limit: 1,
+        offset: 1,
+        hasMore: false,
+      });
+    });
+
+    it('should filter by date range', async () => {
+      const token = await getAuthToken();
+      await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          roomId: 'room-1',
+          startDate: '2030-03-04',
+          startTime: '09:00',
+          endTime: '10:00',
+        });
+
+      const response: TestResponse<Reservation[]> = await request(app)
+        .get('/api/rooms/room-1/reservations?from=2030-01-01&to=2030-12-31')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].startDate).toBe('2030-03-04');
+    });
+
+    it('should return 400 for an invalid limit', async () => {
+      const token = await getAuthToken();
+
+      const response: TestResponse = await request(app)
+        .get('/api/rooms/room-1/reservations?limit=500')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain('Limit cannot exceed 100');
+    });
+  });
+
   describe('Not Found Errors', () => {
     it('should return 404 for non-existent room', async () => {
       const token = await getAuthToken();
@@ -832,6 +1739,417 @@ describe('Get Room Reservations - GET /api/rooms/:roomId/reservations', () => {
   });
 });
 
+describe('My Reservations - GET /api/me/reservations', () => {
+  it("should return only the user's reservations in chronological order", async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse<Reservation[]> = await request(app)
+      .get('/api/me/reservations')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(
+      response.body.data.map(
+        (res: { reservationId: string }) => res.reservationId
+      )
+    ).toEqual(['res-1', 'res-3', 'res-5']);
+    expect(response.body.pagination).toEqual({
+      total: 3,
+      limit: 20,
+      offset: 0,
+      hasMore: false,
+    });
+  });
+
+  it('should filter by room', async () => {
+    const token = await getAuthToken('bob', 'BobSecure2026!');
+
+    const response: TestResponse<Reservation[]> = await request(app)
+      .get('/api/me/reservations?roomId=room-2')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(
+      response.body.data.map(
+        (res: { reservationId: string }) => res.reservationId
+      )
+    ).toEqual(['res-4']);
+  });
+
+  it('should split upcoming and past reservations', async () => {
+    const token = await getAuthToken();
+    const past = reservationRepository.create({
+      roomId: 'room-1',
+      userId: 'user-1',
+      startDate: '2020-01-06',
+      endDate: '2020-01-06',
+      startTime: '09:00',
+      endTime: '10:00',
+      timeZone: 'Europe/Helsinki',
+      startAt: '2020-01-06T07:00:00.000Z',
+      endAt: '2020-01-06T08:00:00.000Z',
+    });
+
+    const pastResponse: TestResponse<Reservation[]> = await request(app)
+      .get('/api/me/reservations?period=past')
+      .set('Authorization', `Bearer ${token}`);
+    const upcomingResponse: TestResponse<Reservation[]> = await request(app)
+      .get('/api/me/reservations?period=upcoming&from=2020-01-01')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(pastResponse.status).toBe(200);
+    expect(pastResponse.body.data).toContainEqual(past);
+    expect(upcomingResponse.body.data).not.toContainEqual(past);
+  });
+
+  it('should report when more pages are available', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse<Reservation[]> = await request(app)
+      .get('/api/me/reservations?limit=2')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.body.data).toHaveLength(2);
+    expect(response.body.pagination.hasMore).toBe(true);
+  });
+
+  it('should return 400 when from is after to', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse = await request(app)
+      .get('/api/me/reservations?from=2030-02-01&to=2030-01-01')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain(
+      'From date must not be after to date'
+    );
+  });
+
+  it('should return 401 without authentication', async () => {
+    const response = await request(app).get('/api/me/reservations');
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('Time Zones', () => {
+  it('should convert times from the client time zone and store instants', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse<Reservation> = await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        roomId: 'room-1',
+        startDate: '2030-03-04',
+        startTime: '09:00',
+        endTime: '10:00',
+        timeZone: 'America/New_York',
+      });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({
+      startDate: '2030-03-04',
+      startTime: '09:00',
+      endTime: '10:00',
+      timeZone: 'America/New_York',
+      startAt: '2030-03-04T14:00:00.000Z',
+      endAt: '2030-03-04T15:00:00.000Z',
+    });
+
+    const roomResponse: TestResponse<Reservation[]> = await request(app)
+      .get('/api/rooms/room-1/reservations?from=2030-03-04')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(roomResponse.body.data[0]).toMatchObject({
+      startTime: '16:00',
+      endTime: '17:00',
+      timeZone: 'Europe/Helsinki',
+    });
+  });
+
+  it('should detect conflicts between bookings made in different zones', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const aliceToken = await getAuthToken();
+    await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${bobToken}`)
+      .send({
+        roomId: 'room-1',
+        startDate: '2030-03-04',
+        startTime: '16:00',
+        endTime: '17:00',
+      });
+
+    const response: TestResponse = await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${aliceToken}`)
+      .send({
+        roomId: 'room-1',
+        startDate: '2030-03-04',
+        startTime: '09:30',
+        endTime: '10:30',
+        timeZone: 'America/New_York',
+      });
+
+    expect(response.status).toBe(409);
+    expect(response.body.message).toContain('Bob Smith');
+  });
+
+  it('should list reservations in a requested time zone', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse<Reservation[]> = await request(app)
+      .get('/api/me/reservations?timeZone=UTC')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.body.data[0]).toMatchObject({
+      reservationId: 'res-1',
+      startTime: '06:00',
+      endTime: '07:30',
+      timeZone: 'UTC',
+    });
+  });
+
+  it('should reject a start time skipped by a daylight saving change', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse = await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        roomId: 'room-2',
+        startDate: '2030-03-31',
+        startTime: '03:30',
+        endTime: '05:00',
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain(
+      'does not exist in Europe/Helsinki'
+    );
+  });
+
+  it('should measure midnight-spanning durations across a DST change', async () => {
+    const token = await getAuthToken();
+
+    // 12.5 hours on the wall clock, but only 11.5 hours elapse
+    const response: TestResponse<Reservation> = await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        roomId: 'room-2',
+        startDate: '2030-03-30',
+        startTime: '22:00',
+        endTime: '10:30',
+      });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({
+      startDate: '2030-03-30',
+      endDate: '2030-03-31',
+      startAt: '2030-03-30T20:00:00.000Z',
+      endAt: '2030-03-31T07:30:00.000Z',
+    });
+  });
+
+  it('should return 400 for an unknown time zone', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse = await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        roomId: 'room-1',
+        startDate: '2030-03-04',
+        startTime: '09:00',
+        endTime: '10:00',
+        timeZone: 'Europe/Atlantis',
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('valid IANA time zone');
+  });
+});
+
+describe('Room Availability - GET /api/rooms/:roomId/availability', () => {
+  async function book(
+    token: string,
+    startTime: string,
+    endTime: string
+  ): Promise<void> {
+    await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ roomId: 'room-1', startDate: '2030-03-04', startTime, endTime });
+  }
+
+  it('should return free windows for a single date', async () => {
+    const token = await getAuthToken();
+    await book(token, '09:00', '10:00');
+    await book(token, '13:00', '14:00');
+
+    const response: TestResponse<DayAvailability[]> = await request(app)
+      .get('/api/rooms/room-1/availability?date=2030-03-04&duration=60')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(1);
+    expect(response.body.data[0]).toEqual({
+      date: '2030-03-04',
+      windows: [
+        {
+          startDate: '2030-03-04',
+          startTime: '00:00',
+          endDate: '2030-03-04',
+          endTime: '09:00',
+          timeZone: 'Europe/Helsinki',
+          durationMinutes: 540,
+        },
+        {
+          startDate: '2030-03-04',
+          startTime: '10:00',
+          endDate: '2030-03-04',
+          endTime: '13:00',
+          timeZone: 'Europe/Helsinki',
+          durationMinutes: 180,
+        },
+        {
+          startDate: '2030-03-04',
+          startTime: '14:00',
+          endDate: '2030-03-05',
+          endTime: '00:00',
+          timeZone: 'Europe/Helsinki',
+          durationMinutes: 600,
+        },
+      ],
+    });
+  });
+
+  it('should skip windows shorter than the requested duration', async () => {
+    const token = await getAuthToken();
+    await book(token, '09:00', '10:00');
+    await book(token, '11:00', '12:00');
+
+    const response: TestResponse<DayAvailability[]> = await request(app)
+      .get('/api/rooms/room-1/availability?date=2030-03-04&duration=90')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    const startTimes = response.body.data[0].windows.map(
+      (window: { startTime: string }) => window.startTime
+    );
+    expect(startTimes).toEqual(['00:00', '12:00']);
+  });
+
+  it('should return one entry per day for a date range', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse<DayAvailability[]> = await request(app)
+      .get('/api/rooms/room-1/availability?from=2030-03-04&to=2030-03-06')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((day: { date: string }) => day.date)).toEqual(
+      ['2030-03-04', '2030-03-05', '2030-03-06']
+    );
+  });
+
+  it('should return 400 when both date and range are given', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse = await request(app)
+      .get('/api/rooms/room-1/availability?date=2030-03-04&from=2030-03-04')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('ValidationError');
+  });
+
+  it('should return 400 for a past date', async () => {
+    const token = await getAuthToken();
+
+    const response = await request(app)
+      .get('/api/rooms/room-1/availability?date=2020-01-01')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 for non-existent room', async () => {
+    const token = await getAuthToken();
+
+    const response = await request(app)
+      .get('/api/rooms/room-999/availability?date=2030-03-04')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Available Rooms - GET /api/rooms/available', () => {
+  it('should list rooms free for the requested slot', async () => {
+    const token = await getAuthToken();
+    await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        roomId: 'room-1',
+        startDate: '2030-03-04',
+        startTime: '09:00',
+        endTime: '10:00',
+      });
+
+    const response: TestResponse<Room[]> = await request(app)
+      .get(
+        '/api/rooms/available?startDate=2030-03-04&startTime=09:30&endTime=10:30'
+      )
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(
+      response.body.data.map((room: { roomId: string }) => room.roomId)
+    ).toEqual(['room-2', 'room-3']);
+  });
+
+  it('should suggest alternative rooms in the conflict message', async () => {
+    const aliceToken = await getAuthToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const slot = {
+      roomId: 'room-1',
+      startDate: '2030-03-04',
+      startTime: '09:00',
+      endTime: '10:00',
+    };
+    await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${aliceToken}`)
+      .send(slot);
+
+    const response: TestResponse = await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${bobToken}`)
+      .send(slot);
+
+    expect(response.status).toBe(409);
+    expect(response.body.message).toContain(
+      'Other rooms free at this time: Meeting Room B, Huddle Space C.'
+    );
+  });
+
+  it('should return 400 for missing times', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse = await request(app)
+      .get('/api/rooms/available?startDate=2030-03-04')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('ValidationError');
+  });
+});
+
 describe('Health Check - GET /api/health', () => {
   it('should return 200 with healthy status', async () => {
     const response = await request(app).get('/api/health');
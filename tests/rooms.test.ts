@@ -0,0 +1,335 @@
+import request from 'supertest';
+import { createApp } from '../app';
+import { Express } from 'express';
+import { RoomChangeResult } from '../services/roomService';
+import { holdRepository } from '../models/hold';
+import { Reservation, Room, WaitlistEntry } from '../types';
+import { getAuthToken, TestResponse } from './helpers';
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+async function getAdminToken(): Promise<string> {
+  return getAuthToken('carol', 'CarolAdmin2026!');
+}
+
+// Books the slot for Alice, then puts Bob on its waitlist and gives Bob a
+// hold later the same day
+async function queueForRoom(roomId: string): Promise<string> {
+  const token = await getAuthToken();
+  const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+  const slot = {
+    roomId,
+    startDate: '2030-10-07',
+    startTime: '10:00',
+    endTime: '11:00',
+  };
+
+  await request(app)
+    .post('/api/reservations')
+    .set('Authorization', `Bearer ${token}`)
+    .send(slot);
+  await request(app)
+    .post('/api/waitlist')
+    .set('Authorization', `Bearer ${bobToken}`)
+    .send(slot);
+  await request(app)
+    .post('/api/holds')
+    .set('Authorization', `Bearer ${bobToken}`)
+    .send({ ...slot, startTime: '12:00', endTime: '13:00' });
+
+  return bobToken;
+}
+
+async function getWaitlist(token: string): Promise<WaitlistEntry[]> {
+  const response: TestResponse<WaitlistEntry[]> = await request(app)
+    .get('/api/me/waitlist')
+    .set('Authorization', `Bearer ${token}`);
+  return response.body.data;
+}
+
+const newRoom = {
+  name: 'Board Room D',
+  capacity: 20,
+  building: 'Annex',
+  floor: 1,
+  equipment: ['screen', 'video-conference'],
+};
+
+describe('List Rooms - GET /api/rooms', () => {
+  it('should return all active rooms with their attributes', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse<Room[]> = await request(app)
+      .get('/api/rooms')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(3);
+    expect(response.body.data[0]).toEqual({
+      roomId: 'room-1',
+      name: 'Conference Room A',
+      capacity: 12,
+      building: 'HQ',
+      floor: 2,
+      equipment: ['screen', 'video-conference', 'whiteboard'],
+      active: true,
+      timeZone: 'Europe/Helsinki',
+    });
+  });
+
+  it('should filter by capacity, floor and equipment', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse<Room[]> = await request(app)
+      .get('/api/rooms?minCapacity=5&floor=2&equipment=screen,whiteboard')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(
+      response.body.data.map((room: { roomId: string }) => room.roomId)
+    ).toEqual(['room-1', 'room-2']);
+  });
+
+  it('should return 400 for unknown equipment', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse = await request(app)
+      .get('/api/rooms?equipment=projector')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('Equipment must be one of');
+  });
+});
+
+describe('Manage Rooms - POST/PATCH/DELETE /api/rooms', () => {
+  it('should return 403 when a member tries to create a room', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse = await request(app)
+      .post('/api/rooms')
+      .set('Authorization', `Bearer ${token}`)
+      .send(newRoom);
+
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe('ForbiddenError');
+  });
+
+  it('should return 403 when a member tries to delete a room', async () => {
+    const token = await getAuthToken();
+
+    const response = await request(app)
+      .delete('/api/rooms/room-1')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should create a room', async () => {
+    const token = await getAdminToken();
+
+    const response: TestResponse<Room> = await request(app)
+      .post('/api/rooms')
+      .set('Authorization', `Bearer ${token}`)
+      .send(newRoom);
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({
+      ...newRoom,
+      active: true,
+      timeZone: 'UTC',
+    });
+    expect(response.body.data).toHaveProperty('roomId');
+  });
+
+  it('should return 400 when required fields are missing', async () => {
+    const token = await getAdminToken();
+
+    const response: TestResponse = await request(app)
+      .post('/api/rooms')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Nameless' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('ValidationError');
+  });
+
+  it('should update room attributes', async () => {
+    const token = await getAdminToken();
+
+    const response: TestResponse<RoomChangeResult> = await request(app)
+      .patch('/api/rooms/room-3')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ capacity: 5, equipment: ['whiteboard', 'screen'] });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.room).toMatchObject({
+      roomId: 'room-3',
+      capacity: 5,
+      equipment: ['whiteboard', 'screen'],
+    });
+    expect(response.body.data.cancelledReservations).toEqual([]);
+  });
+
+  it('should return 400 for an unknown time zone', async () => {
+    const token = await getAdminToken();
+
+    const response: TestResponse = await request(app)
+      .patch('/api/rooms/room-3')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ timeZone: 'Mars/Olympus_Mons' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('valid IANA time zone');
+  });
+
+  it("should re-express the room's reservations when its time zone changes", async () => {
+    const token = await getAdminToken();
+
+    await request(app)
+      .patch('/api/rooms/room-3')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ timeZone: 'UTC' });
+
+    const response: TestResponse<Reservation[]> = await request(app)
+      .get('/api/rooms/room-3/reservations')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.body.data[0]).toMatchObject({
+      reservationId: 'res-5',
+      startTime: '12:00',
+      endTime: '14:00',
+      timeZone: 'UTC',
+      startAt: '2026-06-05T12:00:00.000Z',
+    });
+  });
+
+  it("should re-express the room's holds and waitlist entries when its time zone changes", async () => {
+    const token = await getAdminToken();
+    const bobToken = await queueForRoom('room-2');
+
+    await request(app)
+      .patch('/api/rooms/room-2')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ timeZone: 'UTC' });
+
+    const [entry] = await getWaitlist(bobToken);
+    expect(entry).toMatchObject({
+      startTime: '07:00',
+      endTime: '08:00',
+      timeZone: 'UTC',
+      startAt: '2030-10-07T07:00:00.000Z',
+    });
+    expect(holdRepository.findByRoomId('room-2')).toEqual([
+      expect.objectContaining({
+        startTime: '09:00',
+        endTime: '10:00',
+        timeZone: 'UTC',
+        startAt: '2030-10-07T09:00:00.000Z',
+      }),
+    ]);
+  });
+
+  it('should cancel future reservations and block booking when deactivated', async () => {
+    const token = await getAdminToken();
+    const booking = {
+      roomId: 'room-2',
+      startDate: '2030-03-04',
+      startTime: '09:00',
+      endTime: '10:00',
+    };
+    const created: TestResponse<Reservation> = await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send(booking);
+
+    const response: TestResponse<RoomChangeResult> = await request(app)
+      .patch('/api/rooms/room-2')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ active: false });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.cancelledReservations).toContainEqual(
+      created.body.data
+    );
+
+    const bookingResponse: TestResponse = await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send(booking);
+
+    expect(bookingResponse.status).toBe(400);
+    expect(bookingResponse.body.message).toContain('not available for booking');
+
+    const listResponse: TestResponse<Room[]> = await request(app)
+      .get('/api/rooms?includeInactive=true')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(listResponse.body.data).toHaveLength(3);
+  });
+
+  it('should delete a room and cancel its future reservations', async () => {
+    const token = await getAdminToken();
+    const created: TestResponse<Reservation> = await request(app)
+      .post('/api/reservations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        roomId: 'room-3',
+        startDate: '2030-03-04',
+        startTime: '09:00',
+        endTime: '10:00',
+      });
+
+    const response: TestResponse<RoomChangeResult> = await request(app)
+      .delete('/api/rooms/room-3')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.cancelledReservations).toContainEqual(
+      created.body.data
+    );
+
+    const getResponse = await request(app)
+      .get('/api/rooms/room-3')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(getResponse.status).toBe(404);
+  });
+
+  it('should close the waitlist and drop holds of a deleted room', async () => {
+    const token = await getAdminToken();
+    const bobToken = await queueForRoom('room-3');
+
+    await request(app)
+      .delete('/api/rooms/room-3')
+      .set('Authorization', `Bearer ${token}`);
+
+    const [entry] = await getWaitlist(bobToken);
+    expect(entry).toMatchObject({
+      status: 'expired',
+      closedReason: 'Room deleted',
+    });
+    expect(holdRepository.findByRoomId('room-3')).toEqual([]);
+  });
+});
+
+describe('Ranked Room Search - GET /api/rooms/available', () => {
+  it('should rank free rooms by requested attributes', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse<Room[]> = await request(app)
+      .get(
+        '/api/rooms/available?startDate=2030-03-04&startTime=09:00&endTime=10:00&minCapacity=5&equipment=screen'
+      )
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(
+      response.body.data.map((room: { roomId: string }) => room.roomId)
+    ).toEqual(['room-2', 'room-1', 'room-3']);
+  });
+});
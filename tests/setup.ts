@@ -1,13 +1,30 @@
 process.env.NODE_ENV = 'test';
 process.env.JWT_SECRET = 'test-secret-key';
 process.env.JWT_EXPIRES_IN = '3600';
+process.env.MAIL_TRANSPORT = 'memory';
 
 import { resetRooms } from '../models/room';
 import { resetUsers } from '../models/user';
 import { resetReservations } from '../models/reservation';
+import { resetSessions } from '../models/session';
+import { resetAuditLog } from '../models/audit';
+import { resetWebhooks } from '../models/webhook';
+import { resetWaitlist } from '../models/waitlist';
+import { resetHolds } from '../models/hold';
+import { resetLoginAttempts } from '../services/authService';
+import { resetNotifications } from '../services/notificationService';
+import { resetRateLimits } from '../utils/middleware';
 
 beforeEach(() => {
   resetRooms();
   resetUsers();
   resetReservations();
+  resetSessions();
+  resetAuditLog();
+  resetWebhooks();
+  resetWaitlist();
+  resetHolds();
+  resetLoginAttempts();
+  resetNotifications();
+  resetRateLimits();
 });
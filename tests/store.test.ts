@@ -0,0 +1,81 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createRecordStore } from '../models/store';
+import { createReservationRepository } from '../models/reservation';
+import { Reservation, ReservationRepository } from '../types';
+
+let dataDir: string;
+
+function seed(): Reservation[] {
+  return [
+    {
+      reservationId: 'res-1',
+      roomId: 'room-1',
+      userId: 'user-1',
+      startDate: '2030-01-10',
+      endDate: '2030-01-10',
+      startTime: '09:00',
+      endTime: '10:00',
+      timeZone: 'UTC',
+      startAt: '2030-01-10T09:00:00.000Z',
+      endAt: '2030-01-10T10:00:00.000Z',
+      status: 'confirmed',
+    },
+  ];
+}
+
+function createFileRepository(): ReservationRepository {
+  return createReservationRepository(
+    createRecordStore('reservations', seed, { backend: 'file', dataDir })
+  );
+}
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reservations-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('File-backed record store', () => {
+  it('should seed the data file on first use', () => {
+    const repository = createFileRepository();
+
+    expect(repository.findAll()).toHaveLength(1);
+    expect(fs.existsSync(path.join(dataDir, 'reservations.json'))).toBe(true);
+  });
+
+  it('should keep created, updated and deleted records across instances', () => {
+    const first = createFileRepository();
+    const created = first.create({
+      roomId: 'room-2',
+      userId: 'user-2',
+      startDate: '2030-01-11',
+      endDate: '2030-01-11',
+      startTime: '12:00',
+      endTime: '13:00',
+      timeZone: 'UTC',
+      startAt: '2030-01-11T12:00:00.000Z',
+      endAt: '2030-01-11T13:00:00.000Z',
+    });
+    first.update('res-1', { startTime: '08:00' });
+
+    const second = createFileRepository();
+    expect(second.findById(created.reservationId)).toEqual(created);
+    expect(second.findById('res-1')?.startTime).toBe('08:00');
+
+    expect(second.delete(created.reservationId)).toBe(true);
+    expect(createFileRepository().findAll()).toHaveLength(1);
+  });
+
+  it('should restore seed data on reset', () => {
+    const repository = createFileRepository();
+    repository.delete('res-1');
+
+    repository.reset();
+
+    expect(createFileRepository().findById('res-1')).toBeDefined();
+  });
+});
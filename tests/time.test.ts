@@ -0,0 +1,45 @@
+import {
+  addDays,
+  fromZonedDateTime,
+  isValidTimeZone,
+  toZonedDateTime,
+} from '../utils/time';
+
+describe('Time zone conversion', () => {
+  it('should convert wall-clock times to instants', () => {
+    expect(
+      fromZonedDateTime('2030-01-01', '09:00', 'America/New_York')
+    ).toEqual(new Date('2030-01-01T14:00:00.000Z'));
+    expect(fromZonedDateTime('2030-01-01', '09:00', 'Asia/Kolkata')).toEqual(
+      new Date('2030-01-01T03:30:00.000Z')
+    );
+  });
+
+  it('should return undefined for times skipped by daylight saving', () => {
+    expect(
+      fromZonedDateTime('2030-03-31', '03:30', 'Europe/Helsinki')
+    ).toBeUndefined();
+  });
+
+  it('should resolve repeated times to the earlier instant', () => {
+    expect(fromZonedDateTime('2030-10-27', '03:30', 'Europe/Helsinki')).toEqual(
+      new Date('2030-10-27T00:30:00.000Z')
+    );
+  });
+
+  it('should express instants in a time zone', () => {
+    expect(
+      toZonedDateTime(new Date('2030-01-01T23:30:00.000Z'), 'Asia/Kolkata')
+    ).toEqual({ date: '2030-01-02', time: '05:00' });
+  });
+
+  it('should add days without local time drift', () => {
+    expect(addDays('2030-03-31', 1)).toBe('2030-04-01');
+    expect(addDays('2030-01-01', -1)).toBe('2029-12-31');
+  });
+
+  it('should validate IANA time zone names', () => {
+    expect(isValidTimeZone('Europe/Helsinki')).toBe(true);
+    expect(isValidTimeZone('Europe/Atlantis')).toBe(false);
+  });
+});
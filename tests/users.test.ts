@@ -0,0 +1,378 @@
+import request from 'supertest';
+import { createApp } from '../app';
+import { Express } from 'express';
+import config from '../utils/config';
+import { LoginResult } from '../services/authService';
+import { PublicUser } from '../types';
+import { getAuthToken, TestResponse } from './helpers';
+
+let app: Express;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+async function getAdminToken(): Promise<string> {
+  return getAuthToken('carol', 'CarolAdmin2026!');
+}
+
+const newUser = {
+  username: 'dave',
+  name: 'Dave Brown',
+  password: 'BrownStone2026!',
+};
+
+describe('Create User - POST /api/users', () => {
+  describe('Invite-only registration', () => {
+    it('should let an admin create a user who can then log in', async () => {
+      const token = await getAdminToken();
+
+      const response: TestResponse<PublicUser> = await request(app)
+        .post('/api/users')
+        .set('Authorization', `Bearer ${token}`)
+        .send(newUser);
+
+      expect(response.status).toBe(201);
+      expect(response.body.data).toMatchObject({
+        username: 'dave',
+        name: 'Dave Brown',
+        role: 'member',
+        active: true,
+      });
+      expect(response.body.data).not.toHaveProperty('passwordHash');
+
+      const login: TestResponse<LoginResult> = await request(app)
+        .post('/api/login')
+        .send({ username: 'dave', password: newUser.password });
+
+      expect(login.status).toBe(200);
+      expect(login.body.data.user.role).toBe('member');
+    });
+
+    it('should let an admin assign a role', async () => {
+      const token = await getAdminToken();
+
+      const response: TestResponse<PublicUser> = await request(app)
+        .post('/api/users')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ ...newUser, role: 'room-admin' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.role).toBe('room-admin');
+    });
+
+    it('should return 401 for anonymous sign-up', async () => {
+      const response: TestResponse = await request(app)
+        .post('/api/users')
+        .send(newUser);
+
+      expect(response.status).toBe(401);
+      expect(response.body.message).toContain('invitation only');
+    });
+
+    it('should return 403 when a member creates a user', async () => {
+      const token = await getAuthToken();
+
+      const response = await request(app)
+        .post('/api/users')
+        .set('Authorization', `Bearer ${token}`)
+        .send(newUser);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('Self-service registration', () => {
+    beforeEach(() => {
+      config.REGISTRATION_MODE = 'open';
+    });
+
+    afterEach(() => {
+      config.REGISTRATION_MODE = 'invite';
+    });
+
+    it('should let anyone sign up as a member', async () => {
+      const response: TestResponse<PublicUser> = await request(app)
+        .post('/api/users')
+        .send({ ...newUser, username: ' Dave ' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.username).toBe('dave');
+      expect(response.body.data.role).toBe('member');
+    });
+
+    it('should log in with the username in any case', async () => {
+      await request(app)
+        .post('/api/users')
+        .send({ ...newUser, username: 'Dave' });
+
+      const login: TestResponse<LoginResult> = await request(app)
+        .post('/api/login')
+        .send({ username: ' DAVE ', password: newUser.password });
+
+      expect(login.status).toBe(200);
+      expect(login.body.data.user.username).toBe('dave');
+    });
+
+    it('should return 403 when a non-admin asks for a role', async () => {
+      const response: TestResponse = await request(app)
+        .post('/api/users')
+        .send({ ...newUser, role: 'admin' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toContain('assign roles');
+    });
+
+    it('should return 409 for a username that is already taken', async () => {
+      const response: TestResponse = await request(app)
+        .post('/api/users')
+        .send({ ...newUser, username: 'alice' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.message).toContain('already taken');
+    });
+
+    it.each([
+      ['Short1!', 'at least 12 characters'],
+      ['alllowercase2026!', 'uppercase letter'],
+      ['ALLUPPERCASE2026!', 'lowercase letter'],
+      ['NoDigitsHere!!', 'number'],
+      ['NoSpecials2026', 'special character'],
+      ['Dave-Strong-2026!', 'cannot contain the username'],
+    ])('should return 400 for weak password %s', async (password, message) => {
+      const response: TestResponse = await request(app)
+        .post('/api/users')
+        .send({ ...newUser, password });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain(message);
+    });
+
+    it('should return 400 for an invalid username', async () => {
+      const response: TestResponse = await request(app)
+        .post('/api/users')
+        .send({ ...newUser, username: 'dave brown' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toContain('Username can only contain');
+    });
+  });
+});
+
+describe('Profile - /api/me', () => {
+  it('should return the authenticated user without secrets', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse<PublicUser> = await request(app)
+      .get('/api/me')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual({
+      userId: 'user-1',
+      username: 'alice',
+      name: 'Alice Johnson',
+      email: 'alice@example.com',
+      role: 'member',
+      active: true,
+    });
+  });
+
+  it('should update the display name', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse<PublicUser> = await request(app)
+      .patch('/api/me')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: '  Alice Cooper ' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.name).toBe('Alice Cooper');
+  });
+
+  it('should return 400 for an empty update', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse = await request(app)
+      .patch('/api/me')
+      .set('Authorization', `Bearer ${token}`)
+      .send({});
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('at least one profile field');
+  });
+
+  it('should return 401 without a token', async () => {
+    const response = await request(app).get('/api/me');
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('Change Password - POST /api/me/password', () => {
+  it('should replace the password after verifying the current one', async () => {
+    const token = await getAuthToken();
+
+    const response = await request(app)
+      .post('/api/me/password')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        currentPassword: 'SecurePass123!',
+        newPassword: 'EvenMoreSecure2026!',
+      });
+
+    expect(response.status).toBe(200);
+
+    const oldLogin = await request(app)
+      .post('/api/login')
+      .send({ username: 'alice', password: 'SecurePass123!' });
+    const newLogin = await request(app)
+      .post('/api/login')
+      .send({ username: 'alice', password: 'EvenMoreSecure2026!' });
+
+    expect(oldLogin.status).toBe(401);
+    expect(newLogin.status).toBe(200);
+  });
+
+  it('should return 400 when the current password is wrong', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse = await request(app)
+      .post('/api/me/password')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        currentPassword: 'WrongPass123!',
+        newPassword: 'EvenMoreSecure2026!',
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('Current password is incorrect');
+  });
+
+  it('should return 400 for a weak new password', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse = await request(app)
+      .post('/api/me/password')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ currentPassword: 'SecurePass123!', newPassword: 'password' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('newPassword');
+  });
+
+  it('should return 400 when the new password equals the current one', async () => {
+    const token = await getAuthToken();
+
+    const response: TestResponse = await request(app)
+      .post('/api/me/password')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        currentPassword: 'SecurePass123!',
+        newPassword: 'SecurePass123!',
+      });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('must be different');
+  });
+});
+
+describe('User Administration - /api/users', () => {
+  it('should list users without secrets for admins', async () => {
+    const token = await getAdminToken();
+
+    const response: TestResponse<PublicUser[]> = await request(app)
+      .get('/api/users')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(3);
+    expect(response.body.data[0]).not.toHaveProperty('passwordHash');
+  });
+
+  it('should return 403 when a member lists users', async () => {
+    const token = await getAuthToken();
+
+    const response = await request(app)
+      .get('/api/users')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should stop a deactivated user from logging in or using old tokens', async () => {
+    const adminToken = await getAdminToken();
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+
+    const response: TestResponse<PublicUser> = await request(app)
+      .patch('/api/users/user-2')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ active: false });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.active).toBe(false);
+
+    const login: TestResponse = await request(app)
+      .post('/api/login')
+      .send({ username: 'bob', password: 'BobSecure2026!' });
+    expect(login.status).toBe(401);
+    expect(login.body.message).toContain('deactivated');
+
+    const me = await request(app)
+      .get('/api/me')
+      .set('Authorization', `Bearer ${bobToken}`);
+    expect(me.status).toBe(401);
+  });
+
+  it('should let a reactivated user log in again', async () => {
+    const adminToken = await getAdminToken();
+
+    await request(app)
+      .patch('/api/users/user-2')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ active: false });
+    await request(app)
+      .patch('/api/users/user-2')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ active: true });
+
+    const login = await request(app)
+      .post('/api/login')
+      .send({ username: 'bob', password: 'BobSecure2026!' });
+
+    expect(login.status).toBe(200);
+  });
+
+  it('should return 400 when an admin deactivates their own account', async () => {
+    const token = await getAdminToken();
+
+    const response = await request(app)
+      .patch('/api/users/user-3')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ active: false });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 for an unknown user', async () => {
+    const token = await getAdminToken();
+
+    const response = await request(app)
+      .patch('/api/users/user-999')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ active: false });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 403 when a member deactivates a user', async () => {
+    const token = await getAuthToken();
+
+    const response = await request(app)
+      .patch('/api/users/user-2')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ active: false });
+
+    expect(response.status).toBe(403);
+  });
+});
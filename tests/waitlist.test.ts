@@ -0,0 +1,379 @@
+import request from 'supertest';
+import { createApp } from '../app';
+import { Express } from 'express';
+import config from '../utils/config';
+import { expireWaitlistEntries } from '../services/waitlistService';
+import {
+  drainNotifications,
+  setMailTransport,
+} from '../services/notificationService';
+import { createMemoryTransport, MemoryTransport } from '../utils/mail';
+import { Reservation, WaitlistEntry } from '../types';
+import { getAuthToken, TestResponse } from './helpers';
+
+let app: Express;
+let mail: MemoryTransport;
+
+beforeAll(() => {
+  app = createApp();
+});
+
+beforeEach(() => {
+  mail = createMemoryTransport();
+  setMailTransport(mail);
+});
+
+const MINUTE_MS = 60 * 1000;
+
+const slot = {
+  roomId: 'room-2',
+  startDate: '2030-10-07',
+  startTime: '10:00',
+  endTime: '11:00',
+};
+
+function book(token: string, body: Record<string, unknown>): request.Test {
+  return request(app)
+    .post('/api/reservations')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+}
+
+function joinWaitlist(
+  token: string,
+  body: Record<string, unknown>
+): Promise<TestResponse<WaitlistEntry>> {
+  return request(app)
+    .post('/api/waitlist')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+}
+
+function getWaitlist(
+  token: string,
+  query: string = ''
+): Promise<TestResponse<WaitlistEntry[]>> {
+  return request(app)
+    .get(`/api/me/waitlist${query}`)
+    .set('Authorization', `Bearer ${token}`);
+}
+
+function cancel(token: string, reservationId: string): request.Test {
+  return request(app)
+    .delete(`/api/reservations/${reservationId}`)
+    .set('Authorization', `Bearer ${token}`);
+}
+
+describe('POST /api/waitlist', () => {
+  it('should add the user to the waitlist for a slot someone else booked', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    await book(bobToken, slot);
+
+    const token = await getAuthToken();
+    const response = await joinWaitlist(token, { ...slot, title: 'Retro' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({
+      userId: 'user-1',
+      roomId: 'room-2',
+      startDate: '2030-10-07',
+      startTime: '10:00',
+      endTime: '11:00',
+      title: 'Retro',
+      status: 'waiting',
+    });
+  });
+
+  it('should reject slots that nobody else has booked', async () => {
+    const token = await getAuthToken();
+
+    const response = await joinWaitlist(token, slot);
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('Book it directly');
+  });
+
+  it('should reject joining twice for overlapping times', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    await book(bobToken, { ...slot, endTime: '12:00' });
+
+    const token = await getAuthToken();
+    await joinWaitlist(token, slot);
+    const response = await joinWaitlist(token, {
+      ...slot,
+      startTime: '10:30',
+      endTime: '11:30',
+    });
+
+    expect(response.status).toBe(409);
+    expect(response.body.message).toBe(
+      'You are already on the waitlist for Meeting Room B from 10:00-11:00 on 2030-10-07'
+    );
+  });
+});
+
+describe('Filling cancelled slots', () => {
+  it('should book the slot for the first user in line when it is cancelled', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const carolToken = await getAuthToken('carol', 'CarolAdmin2026!');
+    const token = await getAuthToken();
+    const booked: TestResponse<Reservation> = await book(bobToken, slot);
+    await joinWaitlist(token, { ...slot, title: 'Retro' });
+    await joinWaitlist(carolToken, slot);
+    mail.clear();
+
+    await cancel(bobToken, booked.body.data.reservationId).expect(204);
+
+    const [entry] = (await getWaitlist(token)).body.data;
+    expect(entry.status).toBe('booked');
+    const reservations: TestResponse<Reservation[]> = await request(app)
+      .get('/api/me/reservations')
+      .set('Authorization', `Bearer ${token}`);
+    expect(reservations.body.data).toContainEqual(
+      expect.objectContaining({
+        reservationId: entry.reservationId,
+        title: 'Retro',
+        startTime: '10:00',
+      })
+    );
+
+    const [carolEntry] = (await getWaitlist(carolToken)).body.data;
+    expect(carolEntry.status).toBe('waiting');
+
+    await drainNotifications();
+    expect(mail.outbox.map((message) => message.subject)).toContain(
+      'Confirmed: Retro on 2030-10-07'
+    );
+  });
+
+  it('should skip entries that still overlap another booking', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const token = await getAuthToken();
+    const first: TestResponse<Reservation> = await book(bobToken, slot);
+    await book(bobToken, { ...slot, startTime: '11:00', endTime: '12:00' });
+    await joinWaitlist(token, { ...slot, endTime: '12:00' });
+
+    await cancel(bobToken, first.body.data.reservationId);
+
+    const [entry] = (await getWaitlist(token)).body.data;
+    expect(entry.status).toBe('waiting');
+  });
+
+  it('should book the old slot when a reservation is moved away from it', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const token = await getAuthToken();
+    const booked: TestResponse<Reservation> = await book(bobToken, slot);
+    await joinWaitlist(token, slot);
+
+    await request(app)
+      .patch(`/api/reservations/${booked.body.data.reservationId}`)
+      .set('Authorization', `Bearer ${bobToken}`)
+      .send({ startTime: '14:00', endTime: '15:00' })
+      .expect(200);
+
+    const [entry] = (await getWaitlist(token)).body.data;
+    expect(entry.status).toBe('booked');
+  });
+
+  it('should book the old slot when a booking replaces it', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const token = await getAuthToken();
+    await book(bobToken, slot);
+    await joinWaitlist(token, {
+      ...slot,
+      startTime: '10:00',
+      endTime: '10:30',
+    });
+
+    await book(bobToken, {
+      ...slot,
+      startTime: '10:30',
+      endTime: '11:30',
+      onOwnConflict: 'replace',
+    }).expect(200);
+
+    const [entry] = (await getWaitlist(token)).body.data;
+    expect(entry.status).toBe('booked');
+  });
+});
+
+describe('Waitlist offers', () => {
+  const defaultClaimMinutes = config.WAITLIST_CLAIM_MINUTES;
+
+  beforeEach(() => {
+    config.WAITLIST_CLAIM_MINUTES = 30;
+  });
+
+  afterEach(() => {
+    config.WAITLIST_CLAIM_MINUTES = defaultClaimMinutes;
+  });
+
+  it('should offer the freed slot and book it when claimed', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const token = await getAuthToken();
+    const booked: TestResponse<Reservation> = await book(bobToken, slot);
+    const joined = await joinWaitlist(token, slot);
+    mail.clear();
+
+    await cancel(bobToken, booked.body.data.reservationId);
+
+    const [entry] = (await getWaitlist(token, '?status=offered')).body.data;
+    expect(entry.entryId).toBe(joined.body.data.entryId);
+    expect(
+      Date.parse(entry.claimBy ?? '') - Date.parse(entry.offeredAt ?? '')
+    ).toBe(30 * MINUTE_MS);
+    await drainNotifications();
+    expect(mail.outbox).toContainEqual(
+      expect.objectContaining({
+        to: 'alice@example.com',
+        subject: 'Available: Reservation in Meeting Room B on 2030-10-07',
+      })
+    );
+
+    const claimed: TestResponse<Reservation> = await request(app)
+      .post(`/api/waitlist/${entry.entryId}/claim`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(claimed.status).toBe(201);
+    expect(claimed.body.data).toMatchObject({ userId: 'user-1', ...slot });
+    const [after] = (await getWaitlist(token)).body.data;
+    expect(after).toMatchObject({
+      status: 'booked',
+      reservationId: claimed.body.data.reservationId,
+    });
+  });
+
+  it('should hold an offered slot for the user it was offered to', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const carolToken = await getAuthToken('carol', 'CarolAdmin2026!');
+    const token = await getAuthToken();
+    const booked: TestResponse<Reservation> = await book(bobToken, slot);
+    const joined = await joinWaitlist(token, slot);
+    await cancel(bobToken, booked.body.data.reservationId);
+
+    const taken: TestResponse = await book(carolToken, slot);
+    const claimed = await request(app)
+      .post(`/api/waitlist/${joined.body.data.entryId}/claim`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(taken.status).toBe(409);
+    expect(taken.body.message).toContain('by Alice Johnson until');
+    expect(taken.body.message).toContain(
+      'while they claim it from the waitlist'
+    );
+    expect(claimed.status).toBe(201);
+  });
+
+  it('should pass a missed offer on to the next user in line', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const carolToken = await getAuthToken('carol', 'CarolAdmin2026!');
+    const token = await getAuthToken();
+    const booked: TestResponse<Reservation> = await book(bobToken, slot);
+    await joinWaitlist(token, slot);
+    await joinWaitlist(carolToken, slot);
+
+    await cancel(bobToken, booked.body.data.reservationId);
+    const [carolWaiting] = (await getWaitlist(carolToken)).body.data;
+    expect(carolWaiting.status).toBe('waiting');
+
+    const expired = expireWaitlistEntries(
+      new Date(Date.now() + 31 * MINUTE_MS)
+    );
+
+    expect(expired).toHaveLength(1);
+    expect(expired[0]).toMatchObject({
+      userId: 'user-1',
+      status: 'expired',
+      closedReason: 'The offer was not claimed in time',
+    });
+    const [carolEntry] = (await getWaitlist(carolToken)).body.data;
+    expect(carolEntry.status).toBe('offered');
+  });
+
+  it('should expire an offer that can no longer be booked and pass it on', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const carolToken = await getAuthToken('carol', 'CarolAdmin2026!');
+    const token = await getAuthToken();
+    const booked: TestResponse<Reservation> = await book(bobToken, slot);
+    const joined = await joinWaitlist(token, slot);
+    await joinWaitlist(carolToken, { ...slot, endTime: '10:30' });
+    await cancel(bobToken, booked.body.data.reservationId);
+    await request(app)
+      .patch('/api/rooms/room-2')
+      .set('Authorization', `Bearer ${carolToken}`)
+      .send({ policy: { maxDurationMinutes: 30 } });
+
+    const claimed: TestResponse = await request(app)
+      .post(`/api/waitlist/${joined.body.data.entryId}/claim`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(claimed.status).toBe(400);
+    const [entry] = (await getWaitlist(token)).body.data;
+    expect(entry).toMatchObject({
+      status: 'expired',
+      closedReason: claimed.body.message,
+    });
+    const [carolEntry] = (await getWaitlist(carolToken)).body.data;
+    expect(carolEntry.status).toBe('offered');
+  });
+
+  it('should only let the waitlisted user claim an open offer', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const token = await getAuthToken();
+    await book(bobToken, slot);
+    const joined = await joinWaitlist(token, slot);
+    const { entryId } = joined.body.data;
+
+    const notOffered = await request(app)
+      .post(`/api/waitlist/${entryId}/claim`)
+      .set('Authorization', `Bearer ${token}`);
+    const notOwner = await request(app)
+      .post(`/api/waitlist/${entryId}/claim`)
+      .set('Authorization', `Bearer ${bobToken}`);
+
+    expect(notOffered.status).toBe(400);
+    expect(notOwner.status).toBe(403);
+  });
+});
+
+describe('Leaving and expiring the waitlist', () => {
+  it('should let users leave the waitlist', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const token = await getAuthToken();
+    const booked: TestResponse<Reservation> = await book(bobToken, slot);
+    const joined = await joinWaitlist(token, slot);
+    const { entryId } = joined.body.data;
+
+    const forbidden = await request(app)
+      .delete(`/api/waitlist/${entryId}`)
+      .set('Authorization', `Bearer ${bobToken}`);
+    const response = await request(app)
+      .delete(`/api/waitlist/${entryId}`)
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(forbidden.status).toBe(403);
+    expect(response.status).toBe(204);
+
+    await cancel(bobToken, booked.body.data.reservationId);
+    const [entry] = (await getWaitlist(token)).body.data;
+    expect(entry.status).toBe('cancelled');
+    const reservations: TestResponse<Reservation[]> = await request(app)
+      .get('/api/me/reservations?from=2030-10-07')
+      .set('Authorization', `Bearer ${token}`);
+    expect(reservations.body.data).toHaveLength(0);
+  });
+
+  it('should expire entries once the requested time has passed', async () => {
+    const bobToken = await getAuthToken('bob', 'BobSecure2026!');
+    const token = await getAuthToken();
+    await book(bobToken, slot);
+    await joinWaitlist(token, slot);
+
+    expect(expireWaitlistEntries()).toHaveLength(0);
+    const expired = expireWaitlistEntries(new Date('2030-10-07T07:00:00.000Z'));
+
+    expect(expired).toHaveLength(1);
+    const waiting = await getWaitlist(token, '?status=waiting');
+    expect(waiting.body.data).toHaveLength(0);
+  });
+});
@@ -0,0 +1,370 @@
+import crypto from 'crypto';
+import request from 'supertest';
+import { createApp } from '../app';
+import { Express } from 'express';
+import {
+  drainWebhookDeliveries,
+  resumePendingWebhookDeliveries,
+} from '../services/webhookService';
+import {
+  MAX_WEBHOOK_DELIVERIES,
+  webhookDeliveryRepository,
+} from '../models/webhook';
+import config from '../utils/config';
+import { PublicWebhook, Reservation, Webhook, WebhookDelivery } from '../types';
+import { getAuthToken, TestResponse } from './helpers';
+
+let app: Express;
+let fetchMock: jest.SpyInstance;
+
+const RECEIVER_URL = 'https://hooks.example.com/reservations';
+const SECRET = 'a-very-secret-signing-key';
+
+beforeAll(() => {
+  app = createApp();
+});
+
+beforeEach(() => {
+  config.WEBHOOK_RETRY_BASE_SECONDS = 0;
+  fetchMock = jest
+    .spyOn(global, 'fetch')
+    .mockImplementation(() =>
+      Promise.resolve(new Response(null, { status: 204 }))
+    );
+});
+
+afterEach(async () => {
+  await drainWebhookDeliveries();
+  fetchMock.mockRestore();
+});
+
+async function registerWebhook(
+  token: string,
+  events: string[] = ['reservation.created']
+): Promise<string> {
+  const response: TestResponse<Webhook> = await request(app)
+    .post('/api/webhooks')
+    .set('Authorization', `Bearer ${token}`)
+    .send({ url: RECEIVER_URL, events, secret: SECRET });
+
+  return response.body.data.webhookId;
+}
+
+function book(token: string): request.Test {
+  return request(app)
+    .post('/api/reservations')
+    .set('Authorization', `Bearer ${token}`)
+    .send({
+      roomId: 'room-2',
+      startDate: '2030-10-07',
+      startTime: '10:00',
+      endTime: '11:00',
+    });
+}
+
+function getDeliveries(token: string, webhookId: string): request.Test {
+  return request(app)
+    .get(`/api/webhooks/${webhookId}/deliveries`)
+    .set('Authorization', `Bearer ${token}`);
+}
+
+function sentRequest(call: number = 0): {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+} {
+  const [url, init] = fetchMock.mock.calls[call] as [string, RequestInit];
+  return {
+    url,
+    headers: init.headers as Record<string, string>,
+    body: init.body as string,
+  };
+}
+
+describe('Webhook registration', () => {
+  it('should return the secret once and hide it from the list', async () => {
+    const token = await getAuthToken('carol', 'CarolAdmin2026!');
+
+    const created: TestResponse<Webhook> = await request(app)
+      .post('/api/webhooks')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ url: RECEIVER_URL, events: ['room.updated'] });
+
+    expect(created.status).toBe(201);
+    expect(created.body.data).toMatchObject({
+      url: RECEIVER_URL,
+      events: ['room.updated'],
+      active: true,
+      createdBy: 'user-3',
+    });
+    expect(created.body.data.secret).toEqual(expect.any(String));
+
+    const list: TestResponse<PublicWebhook[]> = await request(app)
+      .get('/api/webhooks')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(list.status).toBe(200);
+    expect(list.body.data).toHaveLength(1);
+    expect(list.body.data[0]).not.toHaveProperty('secret');
+  });
+
+  it('should only let admins manage webhooks', async () => {
+    const token = await getAuthToken('alice', 'SecurePass123!');
+
+    const response = await request(app)
+      .post('/api/webhooks')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ url: RECEIVER_URL, events: ['reservation.created'] });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should reject unknown events and non-http URLs', async () => {
+    const token = await getAuthToken('carol', 'CarolAdmin2026!');
+
+    const badEvent: TestResponse = await request(app)
+      .post('/api/webhooks')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ url: RECEIVER_URL, events: ['reservation.deleted'] });
+
+    expect(badEvent.status).toBe(400);
+    expect(badEvent.body.message).toMatch(/Events must be one of/);
+
+    const badUrl: TestResponse = await request(app)
+      .post('/api/webhooks')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ url: 'ftp://hooks.example.com', events: ['room.updated'] });
+
+    expect(badUrl.status).toBe(400);
+    expect(badUrl.body.message).toMatch(/URL must use http or https/);
+  });
+
+  it('should stop deliveries once a webhook is paused', async () => {
+    const token = await getAuthToken('carol', 'CarolAdmin2026!');
+    const webhookId = await registerWebhook(token);
+
+    const paused: TestResponse<PublicWebhook> = await request(app)
+      .patch(`/api/webhooks/${webhookId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ active: false });
+
+    expect(paused.status).toBe(200);
+    expect(paused.body.data.active).toBe(false);
+
+    await book(await getAuthToken('alice', 'SecurePass123!'));
+    await drainWebhookDeliveries();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when deleting an unknown webhook', async () => {
+    const token = await getAuthToken('carol', 'CarolAdmin2026!');
+
+    const response = await request(app)
+      .delete('/api/webhooks/missing')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Webhook deliveries', () => {
+  it('should post a signed reservation.created event', async () => {
+    const token = await getAuthToken('carol', 'CarolAdmin2026!');
+    const webhookId = await registerWebhook(token);
+
+    const booking: TestResponse<Reservation> = await book(
+      await getAuthToken('alice', 'SecurePass123!')
+    );
+    await drainWebhookDeliveries();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const { url, headers, body } = sentRequest();
+    const expected = crypto
+      .createHmac('sha256', SECRET)
+      .update(`${headers['X-Webhook-Timestamp']}.${body}`)
+      .digest('hex');
+
+    expect(url).toBe(RECEIVER_URL);
+    expect(headers['X-Webhook-Event']).toBe('reservation.created');
+    expect(headers['X-Webhook-Signature']).toBe(`sha256=${expected}`);
+    expect(JSON.parse(body)).toMatchObject({
+      type: 'reservation.created',
+      data: {
+        action: 'created',
+        actorId: 'user-1',
+        reservation: { reservationId: booking.body.data.reservationId },
+      },
+    });
+
+    const deliveries: TestResponse<WebhookDelivery[]> = await getDeliveries(
+      token,
+      webhookId
+    );
+
+    expect(deliveries.status).toBe(200);
+    expect(deliveries.body.data[0]).toMatchObject({
+      status: 'succeeded',
+      attempts: 1,
+      responseStatus: 204,
+    });
+  });
+
+  it('should send cancellations only to subscribed webhooks', async () => {
+    const token = await getAuthToken('carol', 'CarolAdmin2026!');
+    await registerWebhook(token, ['reservation.cancelled']);
+    const aliceToken = await getAuthToken('alice', 'SecurePass123!');
+
+    const booking: TestResponse<Reservation> = await book(aliceToken);
+    await request(app)
+      .delete(`/api/reservations/${booking.body.data.reservationId}`)
+      .set('Authorization', `Bearer ${aliceToken}`);
+    await drainWebhookDeliveries();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(sentRequest().body)).toMatchObject({
+      type: 'reservation.cancelled',
+      data: { reservation: { status: 'cancelled' } },
+    });
+  });
+
+  it('should send room.updated with the changed fields', async () => {
+    const token = await getAuthToken('carol', 'CarolAdmin2026!');
+    await registerWebhook(token, ['room.updated']);
+
+    await request(app)
+      .patch('/api/rooms/room-2')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ capacity: 8 });
+    await drainWebhookDeliveries();
+
+    expect(JSON.parse(sentRequest().body)).toMatchObject({
+      type: 'room.updated',
+      data: { changes: { capacity: 8 }, room: { roomId: 'room-2' } },
+    });
+  });
+
+  it('should send room.deleted when a room is deleted', async () => {
+    const token = await getAuthToken('carol', 'CarolAdmin2026!');
+    await registerWebhook(token, ['room.deleted']);
+
+    await request(app)
+      .delete('/api/rooms/room-3')
+      .set('Authorization', `Bearer ${token}`);
+    await drainWebhookDeliveries();
+
+    expect(JSON.parse(sentRequest().body)).toMatchObject({
+      type: 'room.deleted',
+      data: { actorId: 'user-3', room: { roomId: 'room-3' } },
+    });
+  });
+
+  it('should retry failed deliveries and succeed on a later attempt', async () => {
+    const token = await getAuthToken('carol', 'CarolAdmin2026!');
+    const webhookId = await registerWebhook(token);
+    fetchMock
+      .mockImplementationOnce(() =>
+        Promise.resolve(new Response(null, { status: 500 }))
+      )
+      .mockImplementationOnce(() =>
+        Promise.reject(new Error('connect ECONNREFUSED'))
+      );
+
+    await book(await getAuthToken('alice', 'SecurePass123!'));
+    await drainWebhookDeliveries();
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const deliveries: TestResponse<WebhookDelivery[]> = await getDeliveries(
+      token,
+      webhookId
+    );
+    expect(deliveries.body.data[0]).toMatchObject({
+      status: 'succeeded',
+      attempts: 3,
+    });
+  });
+
+  it('should resume pending deliveries left over from a previous run', async () => {
+    const token = await getAuthToken('carol', 'CarolAdmin2026!');
+    const webhookId = await registerWebhook(token);
+    const delivery = webhookDeliveryRepository.create({
+      webhookId,
+      payload: {
+        eventId: 'event-1',
+        type: 'reservation.created',
+        occurredAt: '2026-05-21T12:00:00.000Z',
+        data: {},
+      },
+      status: 'pending',
+      attempts: 1,
+      createdAt: '2026-05-21T12:00:00.000Z',
+      lastAttemptAt: '2026-05-21T12:00:00.100Z',
+      nextAttemptAt: '2026-05-21T12:00:30.100Z',
+    });
+
+    expect(resumePendingWebhookDeliveries()).toBe(1);
+    await drainWebhookDeliveries();
+
+    expect(sentRequest().headers['X-Webhook-Delivery']).toBe(
+      delivery.deliveryId
+    );
+    expect(
+      webhookDeliveryRepository.findById(delivery.deliveryId)
+    ).toMatchObject({ status: 'succeeded', attempts: 2 });
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    const token = await getAuthToken('carol', 'CarolAdmin2026!');
+    const webhookId = await registerWebhook(token);
+    fetchMock.mockImplementation(() =>
+      Promise.resolve(new Response(null, { status: 503 }))
+    );
+
+    await book(await getAuthToken('alice', 'SecurePass123!'));
+    await drainWebhookDeliveries();
+
+    expect(fetchMock).toHaveBeenCalledTimes(config.WEBHOOK_MAX_ATTEMPTS);
+    const deliveries: TestResponse<WebhookDelivery[]> = await getDeliveries(
+      token,
+      webhookId
+    );
+    expect(deliveries.body.data[0]).toMatchObject({
+      status: 'failed',
+      attempts: config.WEBHOOK_MAX_ATTEMPTS,
+      responseStatus: 503,
+      error: 'Endpoint responded with status 503',
+    });
+  });
+
+  it('should drop the oldest finished deliveries past the retention cap', () => {
+    const record = {
+      webhookId: 'webhook-1',
+      payload: {
+        eventId: 'event-1',
+        type: 'reservation.created' as const,
+        occurredAt: '2026-05-21T12:00:00.000Z',
+        data: {},
+      },
+      attempts: 1,
+      createdAt: '2026-05-21T12:00:00.000Z',
+    };
+    const pending = webhookDeliveryRepository.create({
+      ...record,
+      status: 'pending',
+    });
+    const oldest = webhookDeliveryRepository.create({
+      ...record,
+      status: 'succeeded',
+    });
+    for (let i = 0; i < MAX_WEBHOOK_DELIVERIES - 1; i++) {
+      webhookDeliveryRepository.create({ ...record, status: 'failed' });
+    }
+
+    const kept = webhookDeliveryRepository.findByWebhookId('webhook-1');
+    expect(kept).toHaveLength(MAX_WEBHOOK_DELIVERIES);
+    expect(kept[0]).toEqual(pending);
+    expect(
+      webhookDeliveryRepository.findById(oldest.deliveryId)
+    ).toBeUndefined();
+  });
+});
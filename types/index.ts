@@ -1,39 +1,449 @@
+export type RoomEquipment = 'screen' | 'video-conference' | 'whiteboard';
+
 export interface Room {
   roomId: string;
   name: string;
+  capacity: number;
+  building: string;
+  floor: number;
+  equipment: RoomEquipment[];
+  active: boolean;
+  timeZone: string;
+  policy?: BookingPolicy;
+}
+
+// Wall-clock times in the room's time zone
+export interface BookableHours {
+  start: string;
+  end: string;
+}
+
+// Per-room booking rules; unset fields fall back to the defaults
+export interface BookingPolicy {
+  minDurationMinutes?: number;
+  maxDurationMinutes?: number;
+  slotGranularityMinutes?: number;
+  bookableHours?: BookableHours;
+  bookableWeekdays?: Weekday[];
+  maxDaysInAdvance?: number;
+  maxActiveBookingsPerUser?: number;
+  // Kept free before and after every booking, e.g. for cleaning
+  setupMinutes?: number;
+  teardownMinutes?: number;
+  blackoutDates?: string[];
 }
 
+export interface RoomFilters {
+  minCapacity?: number;
+  building?: string;
+  floor?: number;
+  equipment?: RoomEquipment[];
+  includeInactive?: boolean;
+}
+
+export type RoomAttributes = Omit<RoomFilters, 'includeInactive'>;
+
+export type ReservationStatus = 'confirmed' | 'cancelled' | 'no-show';
+
+export type RsvpStatus = 'pending' | 'accepted' | 'declined';
+
+export type RsvpResponse = Exclude<RsvpStatus, 'pending'>;
+
+// An invited user, or an external guest identified only by email
+export interface Attendee {
+  userId?: string;
+  email?: string;
+  status: RsvpStatus;
+  respondedAt?: string;
+}
+
+export type AttendeeInput = { userId: string } | { email: string };
+
 export interface Reservation {
   reservationId: string;
   roomId: string;
   userId: string;
+  // Wall-clock date and time in `timeZone` (the room's time zone)
   startDate: string;
   endDate: string;
   startTime: string;
   endTime: string;
+  timeZone: string;
+  // The same slot as UTC instants (ISO 8601)
+  startAt: string;
+  endAt: string;
+  seriesId?: string;
+  title?: string;
+  description?: string;
+  attendees?: Attendee[];
+  // Cancelled reservations are kept so they can be restored; no-shows are
+  // released by the scheduler when nobody checks in
+  status: ReservationStatus;
+  checkedInAt?: string;
+  cancelledAt?: string;
+  cancelledBy?: string;
+  cancellationReason?: string;
 }
 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: Weekday[];
+  until?: string;
+  count?: number;
+}
+
+export type SeriesScope = 'occurrence' | 'following' | 'series';
+
+export interface OccurrenceConflict {
+  startDate: string;
+  endDate: string;
+  startTime: string;
+  endTime: string;
+  reason: string;
+  existingReservationId?: string;
+}
+
+export type UserRole = 'member' | 'room-admin' | 'admin';
+
 export interface User {
   userId: string;
   username: string;
   name: string;
+  // Where booking notifications are sent; users without one get none
+  email?: string;
+  role: UserRole;
+  // Deactivated users can no longer log in or use existing tokens
+  active: boolean;
   passwordHash: string;
+  feedTokenHash?: string;
+}
+
+export type PublicUser = Omit<User, 'passwordHash' | 'feedTokenHash'>;
+
+export type AuditAction =
+  | 'created'
+  | 'updated-by-overlap'
+  | 'rescheduled'
+  | 'cancelled'
+  | 'restored'
+  | 'checked-in'
+  | 'no-show';
+
+export interface AuditEvent {
+  eventId: string;
+  reservationId: string;
+  seriesId?: string;
+  action: AuditAction;
+  // User who made the change; differs from the owner for admin actions
+  actorId: string;
+  at: string;
+  // Reservation before and after the change; null when it did not exist
+  before: Reservation | null;
+  after: Reservation | null;
+  reason?: string;
+}
+
+export interface AuditFilters {
+  action?: AuditAction;
+  actorId?: string;
+  userId?: string;
+  roomId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditRepository {
+  findAll(): AuditEvent[];
+  findByReservationId(reservationId: string): AuditEvent[];
+  append(data: Omit<AuditEvent, 'eventId'>): AuditEvent;
+  reset(): void;
+}
+
+export type WebhookEventType =
+  | 'reservation.created'
+  | 'reservation.updated'
+  | 'reservation.cancelled'
+  | 'room.updated'
+  | 'room.deleted';
+
+export interface Webhook {
+  webhookId: string;
+  url: string;
+  events: WebhookEventType[];
+  // Shared secret for the HMAC-SHA256 delivery signature
+  secret: string;
+  active: boolean;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type PublicWebhook = Omit<Webhook, 'secret'>;
+
+export interface WebhookPayload {
+  eventId: string;
+  type: WebhookEventType;
+  occurredAt: string;
+  data: Record<string, unknown>;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  webhookId: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt?: string;
+  nextAttemptAt?: string;
+  responseStatus?: number;
+  error?: string;
+}
+
+export interface WebhookRepository {
+  findAll(): Webhook[];
+  findById(webhookId: string): Webhook | undefined;
+  create(data: Omit<Webhook, 'webhookId'>): Webhook;
+  update(
+    webhookId: string,
+    data: Partial<Omit<Webhook, 'webhookId'>>
+  ): Webhook | undefined;
+  delete(webhookId: string): boolean;
+  reset(): void;
+}
+
+export interface WebhookDeliveryRepository {
+  findById(deliveryId: string): WebhookDelivery | undefined;
+  findByWebhookId(webhookId: string): WebhookDelivery[];
+  findByStatus(status: WebhookDeliveryStatus): WebhookDelivery[];
+  create(data: Omit<WebhookDelivery, 'deliveryId'>): WebhookDelivery;
+  update(
+    deliveryId: string,
+    data: Partial<Omit<WebhookDelivery, 'deliveryId'>>
+  ): WebhookDelivery | undefined;
+  reset(): void;
+}
+
+// A short-lived claim on a slot while its booking is being filled in. Other
+// users cannot book over it until it is confirmed, released or expires
+export interface Hold {
+  holdId: string;
+  userId: string;
+  roomId: string;
+  // The held slot, stored like a reservation's in the room's time zone
+  startDate: string;
+  endDate: string;
+  startTime: string;
+  endTime: string;
+  timeZone: string;
+  startAt: string;
+  endAt: string;
+  createdAt: string;
+  expiresAt: string;
+  // Set on holds that keep an offered slot for a waitlisted user
+  waitlistEntryId?: string;
+}
+
+export interface HoldRepository {
+  findAll(): Hold[];
+  findById(holdId: string): Hold | undefined;
+  findByUserId(userId: string): Hold[];
+  findByRoomId(roomId: string): Hold[];
+  create(data: Omit<Hold, 'holdId'>): Hold;
+  update(holdId: string, data: Partial<Omit<Hold, 'holdId'>>): Hold | undefined;
+  delete(holdId: string): boolean;
+  reset(): void;
+}
+
+// "offered" entries must be claimed before `claimBy`; "booked" ones point to
+// the reservation made for them
+export type WaitlistStatus =
+  | 'waiting'
+  | 'offered'
+  | 'booked'
+  | 'cancelled'
+  | 'expired';
+
+export interface WaitlistEntry {
+  entryId: string;
+  userId: string;
+  roomId: string;
+  // The requested slot, stored like a reservation's in the room's time zone
+  startDate: string;
+  endDate: string;
+  startTime: string;
+  endTime: string;
+  timeZone: string;
+  startAt: string;
+  endAt: string;
+  title?: string;
+  description?: string;
+  attendees?: AttendeeInput[];
+  status: WaitlistStatus;
+  createdAt: string;
+  offeredAt?: string;
+  claimBy?: string;
+  reservationId?: string;
+  closedAt?: string;
+  closedReason?: string;
+}
+
+export interface WaitlistRepository {
+  findAll(): WaitlistEntry[];
+  findById(entryId: string): WaitlistEntry | undefined;
+  findByUserId(userId: string): WaitlistEntry[];
+  findByRoomId(roomId: string): WaitlistEntry[];
+  create(data: Omit<WaitlistEntry, 'entryId'>): WaitlistEntry;
+  update(
+    entryId: string,
+    data: Partial<Omit<WaitlistEntry, 'entryId'>>
+  ): WaitlistEntry | undefined;
+  reset(): void;
+}
+
+export interface ReservationRepository {
+  findAll(): Reservation[];
+  findById(reservationId: string): Reservation | undefined;
+  findByRoomId(roomId: string): Reservation[];
+  findByUserId(userId: string): Reservation[];
+  findByAttendeeUserId(userId: string): Reservation[];
+  findBySeriesId(seriesId: string): Reservation[];
+  findByRoomAndDate(roomId: string, date: string): Reservation[];
+  findByRoomAndDateRange(
+    roomId: string,
+    startDate: string,
+    endDate: string
+  ): Reservation[];
+  create(data: Omit<Reservation, 'reservationId' | 'status'>): Reservation;
+  update(
+    reservationId: string,
+    data: Partial<Omit<Reservation, 'reservationId'>>
+  ): Reservation | undefined;
+  delete(reservationId: string): boolean;
+  reset(): void;
+}
+
+export interface RoomRepository {
+  findAll(): Room[];
+  findById(roomId: string): Room | undefined;
+  exists(roomId: string): boolean;
+  create(data: Omit<Room, 'roomId'>): Room;
+  update(roomId: string, data: Partial<Omit<Room, 'roomId'>>): Room | undefined;
+  delete(roomId: string): boolean;
+  reset(): void;
+}
+
+export interface UserRepository {
+  findAll(): PublicUser[];
+  findById(userId: string): User | undefined;
+  findByUsername(username: string): User | undefined;
+  findByFeedTokenHash(feedTokenHash: string): User | undefined;
+  exists(userId: string): boolean;
+  create(data: Omit<User, 'userId'>): User;
+  update(userId: string, data: Partial<Omit<User, 'userId'>>): User | undefined;
+  reset(): void;
 }
 
 export interface TokenPayload {
   userId: string;
   username: string;
+  role: UserRole;
+  // Login session the access token belongs to; absent for calendar feeds
+  sessionId?: string;
+}
+
+export interface Session {
+  sessionId: string;
+  userId: string;
+  refreshTokenHash: string;
+  createdAt: string;
+  expiresAt: string;
+  lastRefreshedAt?: string;
+  // Revoked sessions form the revocation list checked on every request
+  revokedAt?: string;
+}
+
+export interface SessionRepository {
+  findAll(): Session[];
+  findById(sessionId: string): Session | undefined;
+  findByUserId(userId: string): Session[];
+  create(data: Omit<Session, 'sessionId'>): Session;
+  update(
+    sessionId: string,
+    data: Partial<Omit<Session, 'sessionId'>>
+  ): Session | undefined;
+  delete(sessionId: string): boolean;
+  reset(): void;
+}
+
+export type Actor = Pick<TokenPayload, 'userId' | 'role'>;
+
+export interface PaginationInfo {
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
 }
 
 export interface ApiResponse<T = undefined> {
   message: string;
   data?: T;
+  pagination?: PaginationInfo;
+}
+
+export interface SuggestedSlot {
+  startDate: string;
+  startTime: string;
+  endDate: string;
+  endTime: string;
+  timeZone: string;
+}
+
+export interface SlotSuggestions {
+  before: SuggestedSlot | null;
+  after: SuggestedSlot | null;
+}
+
+export interface ConflictDetails {
+  existingReservation?: {
+    reservationId: string;
+    userId: string;
+    userName: string;
+    startDate: string;
+    endDate: string;
+    startTime: string;
+    endTime: string;
+    timeZone: string;
+  };
+  suggestedSlots?: SlotSuggestions;
+  alternativeRooms?: Array<{
+    roomId: string;
+    name: string;
+  }>;
+  occurrenceConflicts?: OccurrenceConflict[];
+  existingHold?: {
+    userId: string;
+    userName: string;
+    startDate: string;
+    endDate: string;
+    startTime: string;
+    endTime: string;
+    timeZone: string;
+    expiresAt: string;
+  };
 }
 
 export interface ApiErrorResponse {
   error: string;
   message: string;
   statusCode: number;
+  details?: ConflictDetails;
 }
 
 export interface LoginRequest {
@@ -41,9 +451,109 @@ export interface LoginRequest {
   password: string;
 }
 
+// What to do when a new booking overlaps the requester's own reservation
+export type OwnConflictMode = 'reject' | 'replace' | 'merge';
+
 export interface CreateReservationRequest {
   roomId: string;
   startDate: string;
   startTime: string;
   endTime: string;
+  // Zone of the dates and times above; defaults to the room's time zone
+  timeZone?: string;
+  recurrence?: RecurrenceRule;
+  onOwnConflict?: OwnConflictMode;
+  title?: string;
+  description?: string;
+  attendees?: AttendeeInput[];
 }
+
+export type UpdateReservationRequest = Partial<
+  Omit<CreateReservationRequest, 'recurrence' | 'onOwnConflict'>
+>;
+
+export type PlaceHoldRequest = Pick<
+  CreateReservationRequest,
+  'roomId' | 'startDate' | 'startTime' | 'endTime' | 'timeZone'
+>;
+
+export type ConfirmHoldRequest = Pick<
+  CreateReservationRequest,
+  'title' | 'description' | 'attendees' | 'onOwnConflict'
+>;
+
+export type JoinWaitlistRequest = Omit<
+  CreateReservationRequest,
+  'recurrence' | 'onOwnConflict'
+>;
+
+export type ReservationPeriod = 'upcoming' | 'past';
+
+export interface NoShowReportEntry {
+  userId: string;
+  username: string;
+  name: string;
+  noShowCount: number;
+  lastNoShowDate: string;
+}
+
+export interface ReservationFilters {
+  from?: string;
+  to?: string;
+  roomId?: string;
+  period?: ReservationPeriod;
+  status?: ReservationStatus;
+}
+
+export interface PageRequest {
+  limit: number;
+  offset: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  pagination: PaginationInfo;
+}
+
+export interface AvailabilityWindow {
+  startDate: string;
+  startTime: string;
+  endDate: string;
+  endTime: string;
+  // Always the room's time zone
+  timeZone: string;
+  durationMinutes: number;
+}
+
+export interface DayAvailability {
+  date: string;
+  windows: AvailabilityWindow[];
+}
+
+export type CreateRoomRequest = Omit<Room, 'roomId'>;
+
+export type UpdateRoomRequest = Partial<CreateRoomRequest>;
+
+export interface CreateUserRequest {
+  username: string;
+  name: string;
+  email?: string;
+  password: string;
+  // Only admins can choose a role; new users are members by default
+  role?: UserRole;
+}
+
+export type UpdateProfileRequest = Partial<Pick<User, 'name' | 'email'>>;
+
+export type UpdateUserRequest = Partial<Pick<User, 'active'>>;
+
+export interface CreateWebhookRequest {
+  url: string;
+  events: WebhookEventType[];
+  // Generated when omitted
+  secret?: string;
+}
+
+export type UpdateWebhookRequest = Partial<
+  Pick<Webhook, 'url' | 'events' | 'active'>
+>;
@@ -2,19 +2,143 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+type StorageBackend = 'memory' | 'file';
+
+// "open" lets anyone sign up; "invite" means only admins create accounts
+type RegistrationMode = 'open' | 'invite';
+
+// "memory" keeps sent emails in process, "file" writes .eml files to MAIL_DIR
+type MailTransportType = 'memory' | 'file' | 'smtp';
+
+function parseMailTransport(value: string | undefined): MailTransportType {
+  return value === 'file' || value === 'smtp' ? value : 'memory';
+}
+
 interface Config {
   PORT: number;
   NODE_ENV: string;
   JWT_SECRET: string;
   JWT_EXPIRES_IN: number;
+  REFRESH_TOKEN_EXPIRES_IN: number;
+  STORAGE_BACKEND: StorageBackend;
+  DATA_DIR: string;
+  REGISTRATION_MODE: RegistrationMode;
+  RATE_LIMIT_MAX_REQUESTS: number;
+  RATE_LIMIT_WINDOW_SECONDS: number;
+  LOGIN_MAX_FAILURES: number;
+  LOGIN_MAX_FAILURES_PER_IP: number;
+  LOGIN_LOCKOUT_SECONDS: number;
+  LOGIN_MAX_LOCKOUT_SECONDS: number;
+  RESTORE_WINDOW_SECONDS: number;
+  CHECK_IN_WINDOW_MINUTES: number;
+  NO_SHOW_RELEASE_MINUTES: number;
+  NO_SHOW_CHECK_INTERVAL_SECONDS: number;
+  WEBHOOK_MAX_ATTEMPTS: number;
+  WEBHOOK_RETRY_BASE_SECONDS: number;
+  WEBHOOK_TIMEOUT_SECONDS: number;
+  MAIL_TRANSPORT: MailTransportType;
+  MAIL_FROM: string;
+  MAIL_DIR: string;
+  SMTP_HOST: string;
+  SMTP_PORT: number;
+  SMTP_SECURE: boolean;
+  SMTP_USER: string;
+  SMTP_PASSWORD: string;
+  SMTP_TIMEOUT_SECONDS: number;
+  REMINDER_MINUTES_BEFORE: number;
+  WAITLIST_CLAIM_MINUTES: number;
+  WAITLIST_CHECK_INTERVAL_SECONDS: number;
+  HOLD_TTL_SECONDS: number;
+  HOLD_CHECK_INTERVAL_SECONDS: number;
 }
 
 const config: Config = {
   PORT: parseInt(process.env.PORT || '3000', 10),
   NODE_ENV: process.env.NODE_ENV || 'development',
   JWT_SECRET: process.env.JWT_SECRET || 'default-secret-change-in-production',
-  JWT_EXPIRES_IN: parseInt(process.env.JWT_EXPIRES_IN || '3600', 10),
+  JWT_EXPIRES_IN: parseInt(process.env.JWT_EXPIRES_IN || '900', 10),
+  REFRESH_TOKEN_EXPIRES_IN: parseInt(
+    process.env.REFRESH_TOKEN_EXPIRES_IN || '2592000',
+    10
+  ),
+  STORAGE_BACKEND: process.env.STORAGE_BACKEND === 'file' ? 'file' : 'memory',
+  DATA_DIR: process.env.DATA_DIR || './data',
+  REGISTRATION_MODE:
+    process.env.REGISTRATION_MODE === 'open' ? 'open' : 'invite',
+  RATE_LIMIT_MAX_REQUESTS: parseInt(
+    process.env.RATE_LIMIT_MAX_REQUESTS || '120',
+    10
+  ),
+  RATE_LIMIT_WINDOW_SECONDS: parseInt(
+    process.env.RATE_LIMIT_WINDOW_SECONDS || '60',
+    10
+  ),
+  LOGIN_MAX_FAILURES: parseInt(process.env.LOGIN_MAX_FAILURES || '5', 10),
+  LOGIN_MAX_FAILURES_PER_IP: parseInt(
+    process.env.LOGIN_MAX_FAILURES_PER_IP || '20',
+    10
+  ),
+  LOGIN_LOCKOUT_SECONDS: parseInt(
+    process.env.LOGIN_LOCKOUT_SECONDS || '30',
+    10
+  ),
+  LOGIN_MAX_LOCKOUT_SECONDS: parseInt(
+    process.env.LOGIN_MAX_LOCKOUT_SECONDS || '900',
+    10
+  ),
+  RESTORE_WINDOW_SECONDS: parseInt(
+    process.env.RESTORE_WINDOW_SECONDS || '86400',
+    10
+  ),
+  CHECK_IN_WINDOW_MINUTES: parseInt(
+    process.env.CHECK_IN_WINDOW_MINUTES || '15',
+    10
+  ),
+  NO_SHOW_RELEASE_MINUTES: parseInt(
+    process.env.NO_SHOW_RELEASE_MINUTES || '15',
+    10
+  ),
+  NO_SHOW_CHECK_INTERVAL_SECONDS: parseInt(
+    process.env.NO_SHOW_CHECK_INTERVAL_SECONDS || '60',
+    10
+  ),
+  WEBHOOK_MAX_ATTEMPTS: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10),
+  WEBHOOK_RETRY_BASE_SECONDS: parseInt(
+    process.env.WEBHOOK_RETRY_BASE_SECONDS || '30',
+    10
+  ),
+  WEBHOOK_TIMEOUT_SECONDS: parseInt(
+    process.env.WEBHOOK_TIMEOUT_SECONDS || '10',
+    10
+  ),
+  MAIL_TRANSPORT: parseMailTransport(process.env.MAIL_TRANSPORT),
+  MAIL_FROM:
+    process.env.MAIL_FROM || 'Meeting Rooms <no-reply@meeting-rooms.local>',
+  MAIL_DIR: process.env.MAIL_DIR || './data/mail',
+  SMTP_HOST: process.env.SMTP_HOST || 'localhost',
+  SMTP_PORT: parseInt(process.env.SMTP_PORT || '587', 10),
+  SMTP_SECURE: process.env.SMTP_SECURE === 'true',
+  SMTP_USER: process.env.SMTP_USER || '',
+  SMTP_PASSWORD: process.env.SMTP_PASSWORD || '',
+  SMTP_TIMEOUT_SECONDS: parseInt(process.env.SMTP_TIMEOUT_SECONDS || '30', 10),
+  REMINDER_MINUTES_BEFORE: parseInt(
+    process.env.REMINDER_MINUTES_BEFORE || '15',
+    10
+  ),
+  WAITLIST_CLAIM_MINUTES: parseInt(
+    process.env.WAITLIST_CLAIM_MINUTES || '0',
+    10
+  ),
+  WAITLIST_CHECK_INTERVAL_SECONDS: parseInt(
+    process.env.WAITLIST_CHECK_INTERVAL_SECONDS || '60',
+    10
+  ),
+  HOLD_TTL_SECONDS: parseInt(process.env.HOLD_TTL_SECONDS || '300', 10),
+  HOLD_CHECK_INTERVAL_SECONDS: parseInt(
+    process.env.HOLD_CHECK_INTERVAL_SECONDS || '30',
+    10
+  ),
 };
 
-export { Config };
+export { Config, MailTransportType, RegistrationMode, StorageBackend };
 export default config;
@@ -0,0 +1,110 @@
+export type EmailTemplateName =
+  | 'confirmation'
+  | 'change'
+  | 'cancellation'
+  | 'reminder'
+  | 'waitlist-offer';
+
+interface EmailTemplate {
+  subject: string;
+  body: string;
+}
+
+export type TemplateValues = Record<string, string | undefined>;
+
+const DETAILS = `What:      {{title}}
+Where:     {{location}}
+When:      {{when}}
+Organizer: {{organizer}}`;
+
+const templates: Record<EmailTemplateName, EmailTemplate> = {
+  confirmation: {
+    subject: 'Confirmed: {{title}} on {{date}}',
+    body: `Hi {{recipient}},
+
+This reservation is confirmed:
+
+${DETAILS}
+
+Add it to your calendar with the attached invite.ics file.`,
+  },
+
+  change: {
+    subject: 'Changed: {{title}} on {{date}}',
+    body: `Hi {{recipient}},
+
+This reservation has been changed:
+
+${DETAILS}
+Was:       {{previousWhen}} in {{previousLocation}}
+Reason:    {{reason}}
+
+The attached invite.ics file updates your calendar.`,
+  },
+
+  cancellation: {
+    subject: 'Cancelled: {{title}} on {{date}}',
+    body: `Hi {{recipient}},
+
+This reservation has been cancelled:
+
+${DETAILS}
+Reason:    {{reason}}
+
+The attached invite.ics file removes it from your calendar.`,
+  },
+
+  reminder: {
+    subject: 'Reminder: {{title}} starts at {{startTime}}',
+    body: `Hi {{recipient}},
+
+Your meeting starts in {{minutes}} minutes:
+
+${DETAILS}
+
+Remember to check in when you arrive, or the room is released.`,
+  },
+
+  'waitlist-offer': {
+    subject: 'Available: {{title}} on {{date}}',
+    body: `Hi {{recipient}},
+
+A slot you are on the waitlist for has been freed:
+
+What:      {{title}}
+Where:     {{location}}
+When:      {{when}}
+
+Claim it from your waitlist before {{claimBy}}, or it is offered to the next person in line.`,
+  },
+};
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+function fill(text: string, values: TemplateValues): string {
+  return text.replace(PLACEHOLDER, (_, key: string) => values[key] ?? '');
+}
+
+/**
+ * Renders a template. Body lines that use a value which is `undefined`
+ * are left out, so optional details such as a reason need no markup.
+ */
+export function renderTemplate(
+  name: EmailTemplateName,
+  values: TemplateValues
+): { subject: string; text: string } {
+  const { subject, body } = templates[name];
+
+  const lines = body
+    .split('\n')
+    .filter((line) =>
+      [...line.matchAll(PLACEHOLDER)].every(
+        ([, key]) => values[key] !== undefined
+      )
+    );
+
+  return {
+    subject: fill(subject, values),
+    text: `${fill(lines.join('\n'), values)}\n`,
+  };
+}
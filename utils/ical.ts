@@ -0,0 +1,104 @@
+export interface CalendarEvent {
+  uid: string;
+  startAt: Date;
+  endAt: Date;
+  summary: string;
+  location?: string;
+  description?: string;
+  status?: 'CONFIRMED' | 'CANCELLED';
+}
+
+// PUBLISH for feeds and new or changed events; CANCEL withdraws events
+export type CalendarMethod = 'PUBLISH' | 'CANCEL';
+
+const PRODUCT_ID = '-//Meeting Room Reservations//Calendar Feed//EN';
+const UID_DOMAIN = 'meeting-room-reservations';
+const MAX_LINE_OCTETS = 75;
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+// RFC 5545 section 3.1: lines longer than 75 octets are folded onto
+// continuation lines that start with a single space
+function foldLine(line: string): string[] {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.map((part, index) => (index === 0 ? part : ` ${part}`));
+}
+
+export function toEventUid(reservationId: string): string {
+  return `${reservationId}@${UID_DOMAIN}`;
+}
+
+/**
+ * Renders events as an RFC 5545 VCALENDAR document. Event times are written
+ * in UTC, so clients convert them to the viewer's own time zone.
+ */
+export function renderCalendar(
+  name: string,
+  events: CalendarEvent[],
+  generatedAt: Date = new Date(),
+  method: CalendarMethod = 'PUBLISH'
+): string {
+  const timestamp = formatUtcDateTime(generatedAt);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${timestamp}`,
+      `DTSTART:${formatUtcDateTime(event.startAt)}`,
+      `DTEND:${formatUtcDateTime(event.endAt)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.status) {
+      lines.push(`STATUS:${event.status}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.flatMap(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface MemoryTransport extends MailTransport {
+  // Newest last, capped at MAX_OUTBOX_SIZE messages
+  readonly outbox: MailMessage[];
+  clear(): void;
+}
+
+const MAX_OUTBOX_SIZE = 500;
+const BASE64_LINE_LENGTH = 76;
+const MESSAGE_ID_DOMAIN = 'meeting-room-reservations';
+
+// RFC 2047 encoded-word for headers containing non-ASCII characters
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function toBase64Lines(content: string): string {
+  const encoded = Buffer.from(content).toString('base64');
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += BASE64_LINE_LENGTH) {
+    lines.push(encoded.slice(i, i + BASE64_LINE_LENGTH));
+  }
+  return lines.join('\r\n');
+}
+
+/**
+ * Extracts the bare address from a header value such as
+ * `Meeting Rooms <no-reply@example.com>`.
+ */
+export function getAddress(mailbox: string): string {
+  const match = /<([^>]+)>/.exec(mailbox);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Renders a message as an RFC 5322 document. Every part is base64 encoded,
+ * so no line is too long for SMTP and no line starts with a dot.
+ */
+export function formatMessage(
+  message: MailMessage,
+  from: string,
+  date: Date = new Date()
+): string {
+  const boundary = `----=_Part_${uuidv4()}`;
+  const lines = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${uuidv4()}@${MESSAGE_ID_DOMAIN}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    toBase64Lines(message.text),
+  ];
+
+  for (const attachment of message.attachments ?? []) {
+    lines.push(
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+      `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      toBase64Lines(attachment.content)
+    );
+  }
+
+  lines.push(`--${boundary}--`, '');
+
+  return lines.join('\r\n');
+}
+
+export function createMemoryTransport(): MemoryTransport {
+  const outbox: MailMessage[] = [];
+
+  return {
+    outbox,
+
+    send(message: MailMessage): Promise<void> {
+      outbox.push(message);
+      if (outbox.length > MAX_OUTBOX_SIZE) {
+        outbox.shift();
+      }
+      return Promise.resolve();
+    },
+
+    clear(): void {
+      outbox.length = 0;
+    },
+  };
+}
+
+/**
+ * Writes each message to `dir` as an .eml file that any mail client can
+ * open. Meant for development in place of a real mail server.
+ */
+export function createFileTransport(dir: string, from: string): MailTransport {
+  return {
+    async send(message: MailMessage): Promise<void> {
+      await fs.promises.mkdir(dir, { recursive: true });
+      const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${uuidv4()}.eml`;
+      await fs.promises.writeFile(
+        path.join(dir, filename),
+        formatMessage(message, from)
+      );
+    },
+  };
+}
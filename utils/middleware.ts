@@ -1,16 +1,20 @@
 import { Request, Response, NextFunction, RequestHandler } from 'express';
-import jwt from 'jsonwebtoken';
 import { ZodSchema, ZodError } from 'zod';
 import config from './config';
 import logger from './logger';
-import { TokenPayload, ApiErrorResponse } from '../types';
+import { ApiErrorResponse, UserRole } from '../types';
 import {
   ApiError,
+  ConflictError,
+  ForbiddenError,
   isApiError,
+  TooManyRequestsError,
   UnauthorizedError,
   ValidationError,
 } from '../errors/ApiError';
 import { getFirstZodError } from '../validators/reservationValidator';
+import { verifyFeedToken, verifyToken } from '../services/authService';
+import { createRateLimiter } from './rateLimit';
 
 export const authenticate: RequestHandler = (
   req: Request,
@@ -31,24 +35,139 @@ export const authenticate: RequestHandler = (
       );
     }
 
-    const token = parts[1];
-    const decoded = jwt.verify(token, config.JWT_SECRET) as TokenPayload;
+    req.user = verifyToken(parts[1]);
 
-    req.user = decoded;
+    logger.debug('User authenticated', { userId: req.user.userId });
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
 
-    logger.debug('User authenticated', { userId: decoded.userId });
+/**
+ * Authenticates the request when it carries an Authorization header and
+ * lets anonymous requests through, for endpoints that behave differently
+ * for signed-in users.
+ */
+export const authenticateOptional: RequestHandler = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.headers.authorization) {
+    next();
+    return;
+  }
+
+  authenticate(req, res, next);
+};
+
+/**
+ * Authenticates calendar feed requests with the `token` query parameter,
+ * since calendar clients cannot send an Authorization header.
+ */
+export const authenticateFeed: RequestHandler = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  try {
+    const { token } = req.query;
+
+    if (typeof token !== 'string' || token.length === 0) {
+      throw new UnauthorizedError(
+        'Calendar feed token required. Use: ?token=<feed token>'
+      );
+    }
+
+    req.user = verifyFeedToken(token);
+
+    logger.debug('Calendar feed authenticated', { userId: req.user.userId });
     next();
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      next(new UnauthorizedError('Invalid token. Please log in again.'));
-    } else if (error instanceof jwt.TokenExpiredError) {
-      next(new UnauthorizedError('Token has expired. Please log in again.'));
-    } else {
-      next(error);
+    next(error);
+  }
+};
+
+export function authorize(...roles: UserRole[]): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new UnauthorizedError('Authentication required'));
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      logger.debug('User not authorized', {
+        userId: req.user.userId,
+        role: req.user.role,
+        requiredRoles: roles,
+      });
+      next(
+        new ForbiddenError(
+          `This action requires one of the following roles: ${roles.join(', ')}`
+        )
+      );
+      return;
     }
+
+    next();
+  };
+}
+
+const userRateLimiter = createRateLimiter();
+
+export function resetRateLimits(): void {
+  userRateLimiter.reset();
+}
+
+/**
+ * Limits each authenticated user to RATE_LIMIT_MAX_REQUESTS requests per
+ * RATE_LIMIT_WINDOW_SECONDS. Must run after authentication.
+ */
+export const rateLimitByUser: RequestHandler = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    next(new UnauthorizedError('Authentication required'));
+    return;
   }
+
+  const retryAfterMs = userRateLimiter.consume(
+    req.user.userId,
+    config.RATE_LIMIT_MAX_REQUESTS,
+    config.RATE_LIMIT_WINDOW_SECONDS * 1000
+  );
+
+  if (retryAfterMs > 0) {
+    logger.info('Rate limit exceeded', { userId: req.user.userId });
+    next(
+      new TooManyRequestsError(
+        `Too many requests. Please try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`,
+        retryAfterMs
+      )
+    );
+    return;
+  }
+
+  next();
 };
 
+// Express ignores the promise an async handler returns, so rejections are
+// passed on to the error handler here
+export function asyncHandler<P, ResBody, ReqBody, ReqQuery>(
+  handler: (
+    req: Request<P, ResBody, ReqBody, ReqQuery>,
+    res: Response<ResBody>,
+    next: NextFunction
+  ) => Promise<void>
+): RequestHandler<P, ResBody, ReqBody, ReqQuery> {
+  return (req, res, next): void => {
+    handler(req, res, next).catch(next);
+  };
+}
+
 type ValidationSource = 'body' | 'params' | 'query';
 
 export function validate(
@@ -100,6 +219,12 @@ export function errorHandler(
       message: err.message,
       statusCode: err.statusCode,
     };
+    if (err instanceof ConflictError && err.details) {
+      response.details = err.details;
+    }
+    if (err instanceof TooManyRequestsError) {
+      res.set('Retry-After', String(err.retryAfterSeconds));
+    }
   } else if (err instanceof ZodError) {
     response = {
       error: 'ValidationError',
@@ -0,0 +1,15 @@
+import { Page, PageRequest } from '../types';
+
+export function paginate<T>(items: T[], page: PageRequest): Page<T> {
+  const { limit, offset } = page;
+
+  return {
+    items: items.slice(offset, offset + limit),
+    pagination: {
+      total: items.length,
+      limit,
+      offset,
+      hasMore: offset + limit < items.length,
+    },
+  };
+}
@@ -0,0 +1,145 @@
+export interface RateLimiter {
+  /**
+   * Counts a request against `key` and returns how long the caller must
+   * wait in milliseconds, or 0 when the request is allowed.
+   */
+  consume(key: string, limit: number, windowMs: number, now?: number): number;
+  reset(): void;
+}
+
+export interface AttemptTrackerOptions {
+  // Failures allowed before the first lockout
+  maxFailures: number;
+  // Lockout after maxFailures failures; doubles with every further failure
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+  // Failures are forgotten after this long without a new one
+  resetAfterMs: number;
+}
+
+export interface AttemptTracker {
+  // Milliseconds until `key` may try again, or 0 when it is not locked out
+  getRetryAfterMs(key: string, now?: number): number;
+  recordFailure(key: string, now?: number): void;
+  clear(key: string): void;
+  reset(): void;
+}
+
+interface Window {
+  startedAt: number;
+  count: number;
+}
+
+interface FailureRecord {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+}
+
+export function createRateLimiter(): RateLimiter {
+  const windows = new Map<string, Window>();
+
+  return {
+    consume(
+      key: string,
+      limit: number,
+      windowMs: number,
+      now: number = Date.now()
+    ): number {
+      let window = windows.get(key);
+      if (!window || now - window.startedAt >= windowMs) {
+        window = { startedAt: now, count: 0 };
+        windows.set(key, window);
+      }
+
+      if (window.count >= limit) {
+        return window.startedAt + windowMs - now;
+      }
+
+      window.count += 1;
+      return 0;
+    },
+
+    reset(): void {
+      windows.clear();
+    },
+  };
+}
+
+export function createAttemptTracker(
+  options: () => AttemptTrackerOptions
+): AttemptTracker {
+  const records = new Map<string, FailureRecord>();
+  let lastSweepAt = 0;
+
+  function isForgotten(record: FailureRecord, now: number): boolean {
+    return (
+      now >= record.lockedUntil &&
+      now - record.lastFailureAt >= options().resetAfterMs
+    );
+  }
+
+  function getActiveRecord(
+    key: string,
+    now: number
+  ): FailureRecord | undefined {
+    const record = records.get(key);
+    if (record && isForgotten(record, now)) {
+      records.delete(key);
+      return undefined;
+    }
+    return record;
+  }
+
+  // Keys that never come back would otherwise stay in the map for good, so
+  // forgotten records are dropped at most once per reset period
+  function sweep(now: number): void {
+    if (now - lastSweepAt < options().resetAfterMs) {
+      return;
+    }
+    lastSweepAt = now;
+    for (const [key, record] of records) {
+      if (isForgotten(record, now)) {
+        records.delete(key);
+      }
+    }
+  }
+
+  return {
+    getRetryAfterMs(key: string, now: number = Date.now()): number {
+      const record = getActiveRecord(key, now);
+      return record ? Math.max(0, record.lockedUntil - now) : 0;
+    },
+
+    recordFailure(key: string, now: number = Date.now()): void {
+      const { maxFailures, baseLockoutMs, maxLockoutMs } = options();
+      sweep(now);
+      const record = getActiveRecord(key, now) ?? {
+        failures: 0,
+        lastFailureAt: now,
+        lockedUntil: 0,
+      };
+
+      record.failures += 1;
+      record.lastFailureAt = now;
+      if (record.failures >= maxFailures) {
+        const lockoutMs = Math.min(
+          baseLockoutMs * 2 ** (record.failures - maxFailures),
+          maxLockoutMs
+        );
+        record.lockedUntil = now + lockoutMs;
+      }
+
+      records.set(key, record);
+    },
+
+    clear(key: string): void {
+      records.delete(key);
+    },
+
+    reset(): void {
+      records.clear();
+      lastSweepAt = 0;
+    },
+  };
+}
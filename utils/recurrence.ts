@@ -0,0 +1,108 @@
+import { RecurrenceRule, Weekday } from '../types';
+
+export const MAX_OCCURRENCES = 100;
+
+const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+export function getWeekday(date: string): Weekday {
+  return WEEKDAYS[weekdayIndex(parseDate(date))];
+}
+
+function* generateDaily(start: Date, interval: number): Generator<Date> {
+  for (let current = start; ; current = addDays(current, interval)) {
+    yield current;
+  }
+}
+
+function* generateWeekly(
+  start: Date,
+  interval: number,
+  byWeekday: Weekday[]
+): Generator<Date> {
+  const offsets = [
+    ...new Set(byWeekday.map((day) => WEEKDAYS.indexOf(day))),
+  ].sort((a, b) => a - b);
+  const weekStart = addDays(start, -weekdayIndex(start));
+
+  for (let week = weekStart; ; week = addDays(week, interval * 7)) {
+    for (const offset of offsets) {
+      const candidate = addDays(week, offset);
+      if (candidate >= start) {
+        yield candidate;
+      }
+    }
+  }
+}
+
+function* generateMonthly(start: Date, interval: number): Generator<Date> {
+  const day = start.getUTCDate();
+
+  for (let step = 0; ; step += interval) {
+    const candidate = new Date(
+      Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + step, day)
+    );
+    // Months without this day (e.g. the 31st) are skipped, as in RFC 5545
+    if (candidate.getUTCDate() === day) {
+      yield candidate;
+    }
+  }
+}
+
+/**
+ * Expands a recurrence rule into occurrence start dates (YYYY-MM-DD),
+ * beginning with `startDate`. Returns `undefined` when the rule would
+ * produce more than MAX_OCCURRENCES dates.
+ */
+export function expandRecurrence(
+  startDate: string,
+  rule: RecurrenceRule
+): string[] | undefined {
+  const start = parseDate(startDate);
+  const until = rule.until !== undefined ? parseDate(rule.until) : undefined;
+  const limit = rule.count ?? MAX_OCCURRENCES + 1;
+
+  let generator: Generator<Date>;
+  switch (rule.frequency) {
+    case 'daily':
+      generator = generateDaily(start, rule.interval);
+      break;
+    case 'weekly':
+      generator = generateWeekly(
+        start,
+        rule.interval,
+        rule.byWeekday ?? [getWeekday(startDate)]
+      );
+      break;
+    case 'monthly':
+      generator = generateMonthly(start, rule.interval);
+      break;
+  }
+
+  const dates: string[] = [];
+  for (const date of generator) {
+    if ((until && date > until) || dates.length >= limit) {
+      break;
+    }
+    dates.push(formatDate(date));
+  }
+
+  return dates.length > MAX_OCCURRENCES ? undefined : dates;
+}
@@ -0,0 +1,212 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { formatMessage, getAddress, MailMessage, MailTransport } from './mail';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // true connects with TLS straight away (port 465); false upgrades with
+  // STARTTLS when the server offers it
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs: number;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * A single SMTP conversation: sends commands and reads the (possibly
+ * multi-line) replies in order.
+ */
+class SmtpSession {
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter?: (reply: SmtpReply | Error) => void;
+  private failure?: Error;
+
+  constructor(private socket: net.Socket) {
+    this.listen();
+  }
+
+  private listen(): void {
+    this.socket.setEncoding('utf8');
+    this.socket.on('data', this.onData);
+    this.socket.on('error', this.onError);
+    this.socket.on('close', this.onClose);
+  }
+
+  private readonly onData = (chunk: string): void => {
+    this.buffer += chunk;
+
+    let end = this.buffer.indexOf('\r\n');
+    while (end !== -1) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.replyLines.push(line.slice(4));
+
+      // "250-..." continues a reply; "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        this.deliver({
+          code: parseInt(line.slice(0, 3), 10),
+          text: this.replyLines.join('\n'),
+        });
+        this.replyLines = [];
+      }
+      end = this.buffer.indexOf('\r\n');
+    }
+  };
+
+  private readonly onError = (error: Error): void => {
+    this.failure = error;
+    this.deliver(error);
+  };
+
+  private readonly onClose = (): void => {
+    this.onError(this.failure ?? new Error('SMTP connection closed'));
+  };
+
+  private deliver(reply: SmtpReply | Error): void {
+    const waiter = this.waiter;
+    this.waiter = undefined;
+    if (waiter) {
+      waiter(reply);
+    } else if (!(reply instanceof Error)) {
+      this.replies.push(reply);
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) {
+      return Promise.resolve(queued);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiter = (reply): void =>
+        reply instanceof Error ? reject(reply) : resolve(reply);
+    });
+  }
+
+  async expect(
+    command: string | undefined,
+    ...codes: number[]
+  ): Promise<SmtpReply> {
+    if (command !== undefined) {
+      this.socket.write(`${command}\r\n`);
+    }
+
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(
+        `SMTP server replied ${reply.code} ${reply.text.replace(/\n/g, ' ')}`
+      );
+    }
+    return reply;
+  }
+
+  async startTls(host: string, timeoutMs: number): Promise<void> {
+    const plain = this.socket;
+    plain.off('data', this.onData);
+    plain.off('error', this.onError);
+    plain.off('close', this.onClose);
+
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: host }, () =>
+        resolve(secure)
+      );
+      setConnectionTimeout(secure, timeoutMs);
+      secure.once('error', reject);
+    });
+    this.listen();
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+}
+
+function setConnectionTimeout(socket: net.Socket, timeoutMs: number): void {
+  socket.setTimeout(timeoutMs, () =>
+    socket.destroy(new Error('SMTP connection timed out'))
+  );
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect(
+          { host: options.host, port: options.port, servername: options.host },
+          () => resolve(socket)
+        )
+      : net.connect({ host: options.host, port: options.port }, () =>
+          resolve(socket)
+        );
+
+    setConnectionTimeout(socket, options.timeoutMs);
+    socket.once('error', reject);
+  });
+}
+
+// Lines starting with a dot are doubled so they cannot end the DATA section
+function dotStuff(content: string): string {
+  return content.replace(/^\./gm, '..');
+}
+
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const greeting = `EHLO ${os.hostname()}`;
+
+  return {
+    async send(message: MailMessage): Promise<void> {
+      const session = new SmtpSession(await connect(options));
+
+      try {
+        await session.expect(undefined, 220);
+        const capabilities = await session.expect(greeting, 250);
+        let encrypted = options.secure;
+
+        if (!encrypted && /^STARTTLS$/im.test(capabilities.text)) {
+          await session.expect('STARTTLS', 220);
+          await session.startTls(options.host, options.timeoutMs);
+          await session.expect(greeting, 250);
+          encrypted = true;
+        }
+
+        if (options.user) {
+          // Never send the password in the clear
+          if (!encrypted) {
+            throw new Error(
+              'SMTP server does not support STARTTLS; refusing to send credentials over an unencrypted connection'
+            );
+          }
+
+          const credentials = Buffer.from(
+            `\0${options.user}\0${options.password ?? ''}`
+          ).toString('base64');
+          await session.expect(`AUTH PLAIN ${credentials}`, 235);
+        }
+
+        await session.expect(`MAIL FROM:<${getAddress(options.from)}>`, 250);
+        await session.expect(`RCPT TO:<${getAddress(message.to)}>`, 250, 251);
+        await session.expect('DATA', 354);
+        // The formatted message already ends with a line break
+        await session.expect(
+          `${dotStuff(formatMessage(message, options.from))}.`,
+          250
+        );
+        await session.expect('QUIT', 221);
+      } finally {
+        session.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,102 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export interface ZonedDateTime {
+  date: string;
+  time: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function parseDateTimeAsUtc(date: string, time: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes);
+}
+
+function getOffsetMs(instant: number, timeZone: string): number {
+  const { date, time } = toZonedDateTime(new Date(instant), timeZone);
+  return (
+    parseDateTimeAsUtc(date, time) - Math.floor(instant / MINUTE_MS) * MINUTE_MS
+  );
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(parseDateTimeAsUtc(date, '00:00') + days * DAY_MS)
+    .toISOString()
+    .split('T')[0];
+}
+
+export function toZonedDateTime(
+  instant: Date,
+  timeZone: string
+): ZonedDateTime {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+/**
+ * Converts a wall-clock date and time in `timeZone` to an instant. Returns
+ * `undefined` for times skipped by a daylight saving change; times that
+ * occur twice resolve to the earlier instant.
+ */
+export function fromZonedDateTime(
+  date: string,
+  time: string,
+  timeZone: string
+): Date | undefined {
+  const wallClock = parseDateTimeAsUtc(date, time);
+  // A zone changes offset at most once around any given day, so the
+  // offsets a day either side cover every possible interpretation
+  const candidates = [wallClock - DAY_MS, wallClock + DAY_MS]
+    .map((probe) => wallClock - getOffsetMs(probe, timeZone))
+    .filter((instant) => {
+      const zoned = toZonedDateTime(new Date(instant), timeZone);
+      return zoned.date === date && zoned.time === time;
+    });
+
+  return candidates.length > 0 ? new Date(Math.min(...candidates)) : undefined;
+}
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function minutesBetween(start: Date, end: Date): number {
+  return Math.round((end.getTime() - start.getTime()) / MINUTE_MS);
+}
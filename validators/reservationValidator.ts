@@ -1,11 +1,22 @@
 import { z } from 'zod';
+import {
+  dateRegex,
+  roomAttributesQuerySchema,
+  timeRegex,
+  timeZoneSchema,
+  WEEKDAYS,
+} from './roomValidator';
+import { MAX_OCCURRENCES } from '../utils/recurrence';
 
 export const loginSchema = z.object({
+  // Normalized like usernames are on registration
   username: z
     .string({
       required_error: 'Username is required',
       invalid_type_error: 'Username must be a string',
     })
+    .trim()
+    .toLowerCase()
     .min(1, 'Username cannot be empty'),
 
   password: z
@@ -18,26 +29,184 @@ export const loginSchema = z.object({
 
 export type LoginInput = z.infer<typeof loginSchema>;
 
-const timeRegex = /^([01]\d|2[0-3]):([0-5]\d)$/;
-const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-const MAX_BOOKING_DURATION_HOURS = 12;
+export const refreshTokenSchema = z.object({
+  refreshToken: z
+    .string({
+      required_error: 'Refresh token is required',
+      invalid_type_error: 'Refresh token must be a string',
+    })
+    .min(1, 'Refresh token cannot be empty'),
+});
+
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
 
-function timeToMinutes(time: string): number {
-  const [hours, minutes] = time.split(':').map(Number);
-  return hours * 60 + minutes;
+export const MIN_BOOKING_DURATION_MINUTES = 30;
+export const MAX_BOOKING_DURATION_HOURS = 12;
+
+interface SlotFields {
+  startDate: string;
+  startTime: string;
+  endTime: string;
 }
 
-function calculateDurationMinutes(startTime: string, endTime: string): number {
-  const startMinutes = timeToMinutes(startTime);
-  const endMinutes = timeToMinutes(endTime);
+function checkSlotRules(data: SlotFields, ctx: z.RefinementCtx): void {
+  const date = new Date(data.startDate);
+  if (isNaN(date.getTime())) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Invalid start date',
+      path: ['startDate'],
+    });
+  }
 
-  if (endMinutes > startMinutes) {
-    return endMinutes - startMinutes;
-  } else {
-    return (24 * 60 - startMinutes) + endMinutes;
+  if (data.startTime === data.endTime) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Start time and end time cannot be the same',
+      path: ['endTime'],
+    });
   }
 }
 
+const slotFields = {
+  startDate: z
+    .string({
+      required_error: 'Start date is required',
+      invalid_type_error: 'Start date must be a string',
+    })
+    .regex(dateRegex, 'Start date must be in YYYY-MM-DD format'),
+
+  startTime: z
+    .string({
+      required_error: 'Start time is required',
+      invalid_type_error: 'Start time must be a string',
+    })
+    .regex(timeRegex, 'Start time must be in HH:MM format (24-hour)'),
+
+  endTime: z
+    .string({
+      required_error: 'End time is required',
+      invalid_type_error: 'End time must be a string',
+    })
+    .regex(timeRegex, 'End time must be in HH:MM format (24-hour)'),
+};
+
+export const MAX_ATTENDEES = 100;
+
+const attendeeSchema = z.union(
+  [
+    z
+      .object({
+        userId: z.string().min(1, 'Attendee user ID cannot be empty'),
+      })
+      .strict(),
+    z
+      .object({
+        email: z.string().trim().toLowerCase().email(),
+      })
+      .strict(),
+  ],
+  {
+    errorMap: () => ({
+      message: 'Each attendee needs either a userId or a valid email address',
+    }),
+  }
+);
+
+function hasUniqueAttendees(
+  attendees: z.infer<typeof attendeeSchema>[]
+): boolean {
+  const keys = attendees.map((attendee) =>
+    'userId' in attendee ? `user:${attendee.userId}` : `email:${attendee.email}`
+  );
+  return new Set(keys).size === keys.length;
+}
+
+const reservationDetailsFields = {
+  title: z
+    .string({ invalid_type_error: 'Title must be a string' })
+    .trim()
+    .min(1, 'Title cannot be empty')
+    .max(200, 'Title cannot be longer than 200 characters')
+    .optional(),
+
+  description: z
+    .string({ invalid_type_error: 'Description must be a string' })
+    .trim()
+    .max(2000, 'Description cannot be longer than 2000 characters')
+    .optional(),
+
+  attendees: z
+    .array(attendeeSchema, {
+      invalid_type_error: 'Attendees must be an array',
+    })
+    .max(
+      MAX_ATTENDEES,
+      `A reservation cannot have more than ${MAX_ATTENDEES} attendees`
+    )
+    .refine(hasUniqueAttendees, 'Each attendee can only be listed once')
+    .optional(),
+};
+
+export const recurrenceSchema = z
+  .object({
+    frequency: z.enum(['daily', 'weekly', 'monthly'], {
+      errorMap: () => ({
+        message: 'Recurrence frequency must be daily, weekly or monthly',
+      }),
+    }),
+
+    interval: z
+      .number({ invalid_type_error: 'Recurrence interval must be a number' })
+      .int('Recurrence interval must be a whole number')
+      .min(1, 'Recurrence interval must be at least 1')
+      .max(12, 'Recurrence interval cannot exceed 12')
+      .default(1),
+
+    byWeekday: z
+      .array(
+        z.enum(WEEKDAYS, {
+          errorMap: () => ({
+            message: `Weekdays must be one of: ${WEEKDAYS.join(', ')}`,
+          }),
+        })
+      )
+      .min(1, 'Provide at least one weekday')
+      .optional(),
+
+    until: z
+      .string({ invalid_type_error: 'Recurrence end date must be a string' })
+      .regex(dateRegex, 'Recurrence end date must be in YYYY-MM-DD format')
+      .optional(),
+
+    count: z
+      .number({ invalid_type_error: 'Recurrence count must be a number' })
+      .int('Recurrence count must be a whole number')
+      .min(1, 'Recurrence count must be at least 1')
+      .max(
+        MAX_OCCURRENCES,
+        `A series cannot have more than ${MAX_OCCURRENCES} occurrences`
+      )
+      .optional(),
+  })
+  .refine((data) => (data.until === undefined) !== (data.count === undefined), {
+    message: 'Recurrence needs exactly one of until or count',
+    path: ['until'],
+  })
+  .refine(
+    (data) => data.byWeekday === undefined || data.frequency === 'weekly',
+    {
+      message: 'Weekdays can only be used with weekly recurrence',
+      path: ['byWeekday'],
+    }
+  );
+
+const ownConflictSchema = z.enum(['reject', 'replace', 'merge'], {
+  errorMap: () => ({
+    message: 'onOwnConflict must be reject, replace or merge',
+  }),
+});
+
 export const createReservationSchema = z
   .object({
     roomId: z
@@ -47,69 +216,102 @@ export const createReservationSchema = z
       })
       .min(1, 'Room ID cannot be empty'),
 
-    startDate: z
-      .string({
-        required_error: 'Start date is required',
-        invalid_type_error: 'Start date must be a string',
-      })
-      .regex(dateRegex, 'Start date must be in YYYY-MM-DD format'),
+    ...slotFields,
 
-    startTime: z
-      .string({
-        required_error: 'Start time is required',
-        invalid_type_error: 'Start time must be a string',
-      })
-      .regex(timeRegex, 'Start time must be in HH:MM format (24-hour)'),
+    timeZone: timeZoneSchema.optional(),
 
-    endTime: z
-      .string({
-        required_error: 'End time is required',
-        invalid_type_error: 'End time must be a string',
-      })
-      .regex(timeRegex, 'End time must be in HH:MM format (24-hour)'),
+    recurrence: recurrenceSchema.optional(),
+
+    onOwnConflict: ownConflictSchema.optional(),
+
+    ...reservationDetailsFields,
   })
+  .superRefine(checkSlotRules)
   .refine(
-    (data) => {
-      const date = new Date(data.startDate);
-      return !isNaN(date.getTime());
-    },
+    (data) =>
+      data.recurrence?.until === undefined ||
+      data.recurrence.until >= data.startDate,
     {
-      message: 'Invalid start date',
-      path: ['startDate'],
+      message: 'Recurrence end date cannot be before the start date',
+      path: ['recurrence', 'until'],
     }
   )
   .refine(
-    (data) => {
-      return data.startTime !== data.endTime;
-    },
+    (data) => data.recurrence === undefined || data.onOwnConflict === undefined,
     {
-      message: 'Start time and end time cannot be the same',
-      path: ['endTime'],
+      message: 'onOwnConflict cannot be used with recurring reservations',
+      path: ['onOwnConflict'],
     }
-  )
+  );
+
+export type CreateReservationInput = z.infer<typeof createReservationSchema>;
+
+const seriesScopeSchema = z.enum(['occurrence', 'following', 'series'], {
+  errorMap: () => ({
+    message: 'Scope must be occurrence, following or series',
+  }),
+});
+
+export const updateReservationSchema = z
+  .object({
+    roomId: z
+      .string({ invalid_type_error: 'Room ID must be a string' })
+      .min(1, 'Room ID cannot be empty')
+      .optional(),
+
+    startDate: z
+      .string({ invalid_type_error: 'Start date must be a string' })
+      .regex(dateRegex, 'Start date must be in YYYY-MM-DD format')
+      .optional(),
+
+    startTime: z
+      .string({ invalid_type_error: 'Start time must be a string' })
+      .regex(timeRegex, 'Start time must be in HH:MM format (24-hour)')
+      .optional(),
+
+    endTime: z
+      .string({ invalid_type_error: 'End time must be a string' })
+      .regex(timeRegex, 'End time must be in HH:MM format (24-hour)')
+      .optional(),
+
+    timeZone: timeZoneSchema.optional(),
+
+    ...reservationDetailsFields,
+
+    scope: seriesScopeSchema.default('occurrence'),
+  })
   .refine(
-    (data) => {
-      const durationMinutes = calculateDurationMinutes(data.startTime, data.endTime);
-      const maxDurationMinutes = MAX_BOOKING_DURATION_HOURS * 60;
-      return durationMinutes <= maxDurationMinutes;
-    },
+    (data) =>
+      data.roomId !== undefined ||
+      data.startDate !== undefined ||
+      data.startTime !== undefined ||
+      data.endTime !== undefined ||
+      data.title !== undefined ||
+      data.description !== undefined ||
+      data.attendees !== undefined,
     {
-      message: `Booking duration cannot exceed ${MAX_BOOKING_DURATION_HOURS} hours`,
-      path: ['endTime'],
+      message:
+        'Provide at least one of roomId, startDate, startTime, endTime, title, description or attendees to update',
     }
   )
   .refine(
-    (data) => {
-      const durationMinutes = calculateDurationMinutes(data.startTime, data.endTime);
-      return durationMinutes >= 30;
-    },
+    (data) => data.startDate === undefined || data.scope === 'occurrence',
     {
-      message: 'Booking must be at least 30 minutes long',
-      path: ['endTime'],
+      message:
+        'The start date can only be changed for a single occurrence of a series',
+      path: ['startDate'],
     }
   );
 
-export type CreateReservationInput = z.infer<typeof createReservationSchema>;
+export type UpdateReservationInput = z.infer<typeof updateReservationSchema>;
+
+export const rsvpSchema = z.object({
+  response: z.enum(['accepted', 'declined'], {
+    errorMap: () => ({ message: 'Response must be accepted or declined' }),
+  }),
+});
+
+export type RsvpInput = z.infer<typeof rsvpSchema>;
 
 export const roomIdSchema = z.object({
   roomId: z
@@ -127,6 +329,300 @@ export const reservationIdSchema = z.object({
     .min(1, 'Reservation ID cannot be empty'),
 });
 
+export const availableRoomsQuerySchema = z
+  .object({
+    ...slotFields,
+    ...roomAttributesQuerySchema.shape,
+    timeZone: timeZoneSchema.optional(),
+  })
+  .superRefine(checkSlotRules);
+
+export type AvailableRoomsQueryInput = z.infer<
+  typeof availableRoomsQuerySchema
+>;
+
+const MAX_AVAILABILITY_RANGE_DAYS = 31;
+
+export const availabilityQuerySchema = z
+  .object({
+    date: z
+      .string({ invalid_type_error: 'Date must be a string' })
+      .regex(dateRegex, 'Date must be in YYYY-MM-DD format')
+      .optional(),
+
+    from: z
+      .string({ invalid_type_error: 'From date must be a string' })
+      .regex(dateRegex, 'From date must be in YYYY-MM-DD format')
+      .optional(),
+
+    to: z
+      .string({ invalid_type_error: 'To date must be a string' })
+      .regex(dateRegex, 'To date must be in YYYY-MM-DD format')
+      .optional(),
+
+    duration: z.coerce
+      .number({ invalid_type_error: 'Duration must be a number of minutes' })
+      .int('Duration must be a whole number of minutes')
+      .min(1, 'Duration must be at least 1 minute')
+      .max(24 * 60, 'Duration cannot exceed 24 hours')
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      (data.date !== undefined) !==
+      (data.from !== undefined || data.to !== undefined),
+    {
+      message: 'Provide either a date or a from/to date range',
+      path: ['date'],
+    }
+  )
+  .refine(
+    (data) =>
+      data.date !== undefined ||
+      (data.from !== undefined && data.to !== undefined),
+    {
+      message: 'Both from and to are required for a date range',
+      path: ['to'],
+    }
+  )
+  .refine(
+    (data) =>
+      data.from === undefined || data.to === undefined || data.from <= data.to,
+    {
+      message: 'From date must not be after to date',
+      path: ['to'],
+    }
+  )
+  .refine(
+    (data) => {
+      if (data.from === undefined || data.to === undefined) {
+        return true;
+      }
+      const days =
+        (new Date(data.to).getTime() - new Date(data.from).getTime()) /
+        (24 * 60 * 60 * 1000);
+      return days < MAX_AVAILABILITY_RANGE_DAYS;
+    },
+    {
+      message: `Date range cannot exceed ${MAX_AVAILABILITY_RANGE_DAYS} days`,
+      path: ['to'],
+    }
+  );
+
+export type AvailabilityQueryInput = z.infer<typeof availabilityQuerySchema>;
+
+const MAX_PAGE_SIZE = 100;
+
+const reservationListFields = {
+  from: z
+    .string({ invalid_type_error: 'From date must be a string' })
+    .regex(dateRegex, 'From date must be in YYYY-MM-DD format')
+    .optional(),
+
+  to: z
+    .string({ invalid_type_error: 'To date must be a string' })
+    .regex(dateRegex, 'To date must be in YYYY-MM-DD format')
+    .optional(),
+
+  period: z
+    .enum(['upcoming', 'past'], {
+      errorMap: () => ({ message: 'Period must be upcoming or past' }),
+    })
+    .optional(),
+
+  status: z
+    .enum(['confirmed', 'cancelled', 'no-show'], {
+      errorMap: () => ({
+        message: 'Status must be confirmed, cancelled or no-show',
+      }),
+    })
+    .default('confirmed'),
+
+  limit: z.coerce
+    .number({ invalid_type_error: 'Limit must be a number' })
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be at least 1')
+    .max(MAX_PAGE_SIZE, `Limit cannot exceed ${MAX_PAGE_SIZE}`)
+    .default(20),
+
+  offset: z.coerce
+    .number({ invalid_type_error: 'Offset must be a number' })
+    .int('Offset must be a whole number')
+    .min(0, 'Offset cannot be negative')
+    .default(0),
+
+  timeZone: timeZoneSchema.optional(),
+};
+
+function isDateRangeOrdered(data: { from?: string; to?: string }): boolean {
+  return (
+    data.from === undefined || data.to === undefined || data.from <= data.to
+  );
+}
+
+export const roomReservationsQuerySchema = z
+  .object(reservationListFields)
+  .refine(isDateRangeOrdered, {
+    message: 'From date must not be after to date',
+    path: ['to'],
+  });
+
+export type RoomReservationsQueryInput = z.infer<
+  typeof roomReservationsQuerySchema
+>;
+
+export const myReservationsQuerySchema = z
+  .object({
+    ...reservationListFields,
+    roomId: z.string().min(1, 'Room ID cannot be empty').optional(),
+  })
+  .refine(isDateRangeOrdered, {
+    message: 'From date must not be after to date',
+    path: ['to'],
+  });
+
+export type MyReservationsQueryInput = z.infer<
+  typeof myReservationsQuerySchema
+>;
+
+export const auditLogQuerySchema = z
+  .object({
+    from: reservationListFields.from,
+    to: reservationListFields.to,
+    limit: reservationListFields.limit,
+    offset: reservationListFields.offset,
+
+    action: z
+      .enum(
+        [
+          'created',
+          'updated-by-overlap',
+          'rescheduled',
+          'cancelled',
+          'restored',
+          'checked-in',
+          'no-show',
+        ],
+        {
+          errorMap: () => ({
+            message:
+              'Action must be created, updated-by-overlap, rescheduled, cancelled, restored, checked-in or no-show',
+          }),
+        }
+      )
+      .optional(),
+
+    actorId: z.string().min(1, 'Actor ID cannot be empty').optional(),
+    userId: z.string().min(1, 'User ID cannot be empty').optional(),
+    roomId: z.string().min(1, 'Room ID cannot be empty').optional(),
+  })
+  .refine(isDateRangeOrdered, {
+    message: 'From date must not be after to date',
+    path: ['to'],
+  });
+
+export type AuditLogQueryInput = z.infer<typeof auditLogQuerySchema>;
+
+export const noShowReportQuerySchema = z
+  .object({
+    from: reservationListFields.from,
+    to: reservationListFields.to,
+  })
+  .refine(isDateRangeOrdered, {
+    message: 'From date must not be after to date',
+    path: ['to'],
+  });
+
+export type NoShowReportQueryInput = z.infer<typeof noShowReportQuerySchema>;
+
+export const cancelReservationQuerySchema = z.object({
+  scope: seriesScopeSchema.default('occurrence'),
+
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Cancellation reason cannot be empty')
+    .max(500, 'Cancellation reason cannot be longer than 500 characters')
+    .optional(),
+});
+
+export type CancelReservationQueryInput = z.infer<
+  typeof cancelReservationQuerySchema
+>;
+
+export const placeHoldSchema = z
+  .object({
+    roomId: z
+      .string({
+        required_error: 'Room ID is required',
+        invalid_type_error: 'Room ID must be a string',
+      })
+      .min(1, 'Room ID cannot be empty'),
+
+    ...slotFields,
+
+    timeZone: timeZoneSchema.optional(),
+  })
+  .superRefine(checkSlotRules);
+
+export type PlaceHoldInput = z.infer<typeof placeHoldSchema>;
+
+export const confirmHoldSchema = z.object({
+  onOwnConflict: ownConflictSchema.optional(),
+
+  ...reservationDetailsFields,
+});
+
+export type ConfirmHoldInput = z.infer<typeof confirmHoldSchema>;
+
+export const holdIdSchema = z.object({
+  holdId: z
+    .string({
+      required_error: 'Hold ID is required',
+    })
+    .min(1, 'Hold ID cannot be empty'),
+});
+
+export const joinWaitlistSchema = z
+  .object({
+    roomId: z
+      .string({
+        required_error: 'Room ID is required',
+        invalid_type_error: 'Room ID must be a string',
+      })
+      .min(1, 'Room ID cannot be empty'),
+
+    ...slotFields,
+
+    timeZone: timeZoneSchema.optional(),
+
+    ...reservationDetailsFields,
+  })
+  .superRefine(checkSlotRules);
+
+export type JoinWaitlistInput = z.infer<typeof joinWaitlistSchema>;
+
+export const waitlistQuerySchema = z.object({
+  status: z
+    .enum(['waiting', 'offered', 'booked', 'cancelled', 'expired'], {
+      errorMap: () => ({
+        message:
+          'Status must be waiting, offered, booked, cancelled or expired',
+      }),
+    })
+    .optional(),
+});
+
+export type WaitlistQueryInput = z.infer<typeof waitlistQuerySchema>;
+
+export const waitlistEntryIdSchema = z.object({
+  entryId: z
+    .string({
+      required_error: 'Waitlist entry ID is required',
+    })
+    .min(1, 'Waitlist entry ID cannot be empty'),
+});
+
 export function formatZodErrors(error: z.ZodError): string[] {
   return error.errors.map((err) => {
     const path = err.path.length > 0 ? `${err.path.join('.')}: ` : '';
@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import { isValidTimeZone } from '../utils/time';
+
+export const ROOM_EQUIPMENT = [
+  'screen',
+  'video-conference',
+  'whiteboard',
+] as const;
+
+const equipmentSchema = z.array(
+  z.enum(ROOM_EQUIPMENT, {
+    errorMap: () => ({
+      message: `Equipment must be one of: ${ROOM_EQUIPMENT.join(', ')}`,
+    }),
+  }),
+  { invalid_type_error: 'Equipment must be an array' }
+);
+
+const equipmentListSchema = z
+  .string({ invalid_type_error: 'Equipment must be a comma-separated list' })
+  .transform((value) =>
+    value
+      .split(',')
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0)
+  )
+  .pipe(equipmentSchema);
+
+export const timeRegex = /^([01]\d|2[0-3]):([0-5]\d)$/;
+export const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+export const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+
+export const timeZoneSchema = z
+  .string({ invalid_type_error: 'Time zone must be a string' })
+  .refine(isValidTimeZone, {
+    message: 'Time zone must be a valid IANA time zone, e.g. Europe/Helsinki',
+  });
+
+function minutesSchema(label: string, min: number, max: number): z.ZodNumber {
+  return z
+    .number({ invalid_type_error: `${label} must be a number of minutes` })
+    .int(`${label} must be a whole number of minutes`)
+    .min(min, `${label} must be at least ${min}`)
+    .max(max, `${label} cannot exceed ${max}`);
+}
+
+const bookableHoursSchema = z
+  .object(
+    {
+      start: z
+        .string({ required_error: 'Bookable hours need a start time' })
+        .regex(timeRegex, 'Bookable hours must use HH:MM format'),
+      // 24:00 lets bookings run until midnight
+      end: z
+        .string({ required_error: 'Bookable hours need an end time' })
+        .refine((time) => time === '24:00' || timeRegex.test(time), {
+          message: 'Bookable hours must use HH:MM format',
+        }),
+    },
+    { invalid_type_error: 'Bookable hours must be an object' }
+  )
+  .refine((hours) => hours.start < hours.end, {
+    message: 'Bookable hours must end after they start',
+  });
+
+export const bookingPolicySchema = z
+  .object(
+    {
+      minDurationMinutes: minutesSchema('Minimum duration', 1, 24 * 60),
+      maxDurationMinutes: minutesSchema('Maximum duration', 1, 24 * 60),
+      slotGranularityMinutes: minutesSchema('Slot granularity', 1, 24 * 60),
+      bookableHours: bookableHoursSchema,
+      bookableWeekdays: z
+        .array(
+          z.enum(WEEKDAYS, {
+            errorMap: () => ({
+              message: `Weekdays must be one of: ${WEEKDAYS.join(', ')}`,
+            }),
+          }),
+          { invalid_type_error: 'Bookable weekdays must be an array' }
+        )
+        .min(1, 'Provide at least one bookable weekday'),
+      maxDaysInAdvance: z
+        .number({ invalid_type_error: 'Max days in advance must be a number' })
+        .int('Max days in advance must be a whole number')
+        .min(0, 'Max days in advance cannot be negative'),
+      maxActiveBookingsPerUser: z
+        .number({
+          invalid_type_error: 'Max active bookings must be a number',
+        })
+        .int('Max active bookings must be a whole number')
+        .min(1, 'Max active bookings must be at least 1'),
+      setupMinutes: minutesSchema('Setup time', 0, 24 * 60),
+      teardownMinutes: minutesSchema('Teardown time', 0, 24 * 60),
+      blackoutDates: z.array(
+        z
+          .string({ invalid_type_error: 'Blackout dates must be strings' })
+          .regex(dateRegex, 'Blackout dates must be in YYYY-MM-DD format'),
+        { invalid_type_error: 'Blackout dates must be an array' }
+      ),
+    },
+    { invalid_type_error: 'Policy must be an object' }
+  )
+  .partial()
+  .strict('Unknown booking policy field')
+  .refine(
+    (policy) =>
+      policy.minDurationMinutes === undefined ||
+      policy.maxDurationMinutes === undefined ||
+      policy.minDurationMinutes <= policy.maxDurationMinutes,
+    {
+      message: 'Minimum duration cannot exceed the maximum duration',
+      path: ['minDurationMinutes'],
+    }
+  );
+
+const roomFields = {
+  name: z
+    .string({
+      required_error: 'Room name is required',
+      invalid_type_error: 'Room name must be a string',
+    })
+    .trim()
+    .min(1, 'Room name cannot be empty'),
+
+  capacity: z
+    .number({
+      required_error: 'Capacity is required',
+      invalid_type_error: 'Capacity must be a number',
+    })
+    .int('Capacity must be a whole number')
+    .min(1, 'Capacity must be at least 1'),
+
+  building: z
+    .string({
+      required_error: 'Building is required',
+      invalid_type_error: 'Building must be a string',
+    })
+    .trim()
+    .min(1, 'Building cannot be empty'),
+
+  floor: z
+    .number({
+      required_error: 'Floor is required',
+      invalid_type_error: 'Floor must be a number',
+    })
+    .int('Floor must be a whole number'),
+
+  equipment: equipmentSchema,
+
+  active: z.boolean({ invalid_type_error: 'Active must be a boolean' }),
+
+  timeZone: timeZoneSchema,
+
+  policy: bookingPolicySchema,
+};
+
+export const createRoomSchema = z.object({
+  ...roomFields,
+  equipment: roomFields.equipment.default([]),
+  active: roomFields.active.default(true),
+  timeZone: roomFields.timeZone.default('UTC'),
+  policy: roomFields.policy.optional(),
+});
+
+export type CreateRoomInput = z.infer<typeof createRoomSchema>;
+
+export const updateRoomSchema = z
+  .object(roomFields)
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Provide at least one room field to update',
+  });
+
+export type UpdateRoomInput = z.infer<typeof updateRoomSchema>;
+
+export const roomFiltersQuerySchema = z.object({
+  minCapacity: z.coerce
+    .number({ invalid_type_error: 'Minimum capacity must be a number' })
+    .int('Minimum capacity must be a whole number')
+    .min(1, 'Minimum capacity must be at least 1')
+    .optional(),
+
+  building: z.string().min(1, 'Building cannot be empty').optional(),
+
+  floor: z.coerce
+    .number({ invalid_type_error: 'Floor must be a number' })
+    .int('Floor must be a whole number')
+    .optional(),
+
+  equipment: equipmentListSchema.optional(),
+
+  includeInactive: z
+    .enum(['true', 'false'], {
+      errorMap: () => ({ message: 'includeInactive must be true or false' }),
+    })
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+export type RoomFiltersQueryInput = z.infer<typeof roomFiltersQuerySchema>;
+
+export const roomAttributesQuerySchema = roomFiltersQuerySchema.omit({
+  includeInactive: true,
+});
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+
+export const MIN_PASSWORD_LENGTH = 12;
+// bcrypt ignores everything after the first 72 bytes
+const MAX_PASSWORD_BYTES = 72;
+
+export const passwordSchema = z
+  .string({
+    required_error: 'Password is required',
+    invalid_type_error: 'Password must be a string',
+  })
+  .min(
+    MIN_PASSWORD_LENGTH,
+    `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`
+  )
+  .refine((value) => Buffer.byteLength(value) <= MAX_PASSWORD_BYTES, {
+    message: `Password cannot be longer than ${MAX_PASSWORD_BYTES} bytes`,
+  })
+  .refine((value) => /[a-z]/.test(value), {
+    message: 'Password must contain a lowercase letter',
+  })
+  .refine((value) => /[A-Z]/.test(value), {
+    message: 'Password must contain an uppercase letter',
+  })
+  .refine((value) => /\d/.test(value), {
+    message: 'Password must contain a number',
+  })
+  .refine((value) => /[^A-Za-z0-9]/.test(value), {
+    message: 'Password must contain a special character',
+  });
+
+const nameSchema = z
+  .string({
+    required_error: 'Name is required',
+    invalid_type_error: 'Name must be a string',
+  })
+  .trim()
+  .min(1, 'Name cannot be empty')
+  .max(100, 'Name cannot be longer than 100 characters');
+
+const emailSchema = z
+  .string({ invalid_type_error: 'Email must be a string' })
+  .trim()
+  .toLowerCase()
+  .email('Email must be a valid email address');
+
+export const createUserSchema = z
+  .object({
+    username: z
+      .string({
+        required_error: 'Username is required',
+        invalid_type_error: 'Username must be a string',
+      })
+      .trim()
+      .toLowerCase()
+      .min(3, 'Username must be at least 3 characters long')
+      .max(32, 'Username cannot be longer than 32 characters')
+      .regex(
+        /^[a-z0-9._-]+$/,
+        'Username can only contain letters, numbers, dots, hyphens and underscores'
+      ),
+
+    name: nameSchema,
+
+    email: emailSchema.optional(),
+
+    password: passwordSchema,
+
+    role: z
+      .enum(['member', 'room-admin', 'admin'], {
+        errorMap: () => ({
+          message: 'Role must be member, room-admin or admin',
+        }),
+      })
+      .optional(),
+  })
+  .refine((data) => !data.password.toLowerCase().includes(data.username), {
+    message: 'Password cannot contain the username',
+    path: ['password'],
+  });
+
+export type CreateUserInput = z.infer<typeof createUserSchema>;
+
+export const updateProfileSchema = z
+  .object({
+    name: nameSchema.optional(),
+    email: emailSchema.optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Provide at least one profile field to update',
+  });
+
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z
+      .string({
+        required_error: 'Current password is required',
+        invalid_type_error: 'Current password must be a string',
+      })
+      .min(1, 'Current password cannot be empty'),
+
+    newPassword: passwordSchema,
+  })
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    message: 'New password must be different from the current password',
+    path: ['newPassword'],
+  });
+
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+
+export const userIdSchema = z.object({
+  userId: z
+    .string({
+      required_error: 'User ID is required',
+    })
+    .min(1, 'User ID cannot be empty'),
+});
+
+export const updateUserSchema = z.object({
+  active: z.boolean({
+    required_error: 'Active is required',
+    invalid_type_error: 'Active must be a boolean',
+  }),
+});
+
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
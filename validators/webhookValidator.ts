@@ -0,0 +1,94 @@
+import { z } from 'zod';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'reservation.created',
+  'reservation.updated',
+  'reservation.cancelled',
+  'room.updated',
+  'room.deleted',
+] as const;
+
+const MIN_SECRET_LENGTH = 16;
+const MAX_PAGE_SIZE = 100;
+
+const webhookFields = {
+  url: z
+    .string({
+      required_error: 'URL is required',
+      invalid_type_error: 'URL must be a string',
+    })
+    .trim()
+    .url('URL must be a valid URL')
+    .refine((value) => /^https?:\/\//i.test(value), {
+      message: 'URL must use http or https',
+    }),
+
+  events: z
+    .array(
+      z.enum(WEBHOOK_EVENT_TYPES, {
+        errorMap: () => ({
+          message: `Events must be one of: ${WEBHOOK_EVENT_TYPES.join(', ')}`,
+        }),
+      }),
+      {
+        required_error: 'Events are required',
+        invalid_type_error: 'Events must be an array',
+      }
+    )
+    .min(1, 'Subscribe to at least one event')
+    .refine((events) => new Set(events).size === events.length, {
+      message: 'Events cannot contain duplicates',
+    }),
+
+  active: z.boolean({ invalid_type_error: 'Active must be a boolean' }),
+};
+
+export const createWebhookSchema = z.object({
+  url: webhookFields.url,
+  events: webhookFields.events,
+  secret: z
+    .string({ invalid_type_error: 'Secret must be a string' })
+    .min(
+      MIN_SECRET_LENGTH,
+      `Secret must be at least ${MIN_SECRET_LENGTH} characters`
+    )
+    .optional(),
+});
+
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+
+export const updateWebhookSchema = z
+  .object(webhookFields)
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Provide at least one of url, events or active to update',
+  });
+
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
+
+export const webhookIdSchema = z.object({
+  webhookId: z
+    .string({
+      required_error: 'Webhook ID is required',
+    })
+    .min(1, 'Webhook ID cannot be empty'),
+});
+
+export const webhookDeliveriesQuerySchema = z.object({
+  limit: z.coerce
+    .number({ invalid_type_error: 'Limit must be a number' })
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be at least 1')
+    .max(MAX_PAGE_SIZE, `Limit cannot exceed ${MAX_PAGE_SIZE}`)
+    .default(20),
+
+  offset: z.coerce
+    .number({ invalid_type_error: 'Offset must be a number' })
+    .int('Offset must be a whole number')
+    .min(0, 'Offset cannot be negative')
+    .default(0),
+});
+
+export type WebhookDeliveriesQueryInput = z.infer<
+  typeof webhookDeliveriesQuerySchema
+>;